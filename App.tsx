@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useJsApiLoader } from '@react-google-maps/api';
 import { SearchForm } from './components/SearchForm';
 import { RouteList } from './components/RouteList';
@@ -6,13 +6,80 @@ import { MapContainer } from './components/MapContainer';
 import { WeatherControls } from './components/WeatherControls';
 import { DebugPanel } from './components/DebugPanel';
 import { TimeScrubber } from './components/TimeScrubber';
-import { getDirections } from './services/googleMapsService';
-import { analyzeRouteShade, fetchShadeFeatures, ShadeAnalysisDebug, ShadeFeature } from './services/shadeEngine';
-import { AppState, RouteOption, SearchParams, Coordinates } from './types';
-import { Umbrella, AlertCircle, Loader2, Sun, Bug } from 'lucide-react';
+import { geocodeAddress, getDirections } from './services/googleMapsService';
+import { analyzeRouteShade, buildShadowIndex, getSunPosition, ShadeAnalysisDebug, ShadeFeature } from './services/shadeEngine';
+import { computeEdgeExposure, computeEdgeGreenery, fetchWalkableGraph, findShadeAwareRoute, GraphRoute, WalkGraph } from './services/routingEngine';
+import { generateLoopWalks, getLoopDirection, LoopWalk, scoreLoopWalk } from './services/loopPlanner';
+import { offsetByMeters } from './services/geoProjection';
+import { analyzeSteps, extractStreetName } from './services/stepAnalysis';
+import { createLocalExtractSourceFromUrl, GeoBounds, setFeatureSource } from './services/featureSource';
+import { CachedTileInfo, clearFeatureCache, getCachedCoverage, getCachedShadeFeatures, refreshCachedTiles } from './services/featureCache';
+import { AppState, RouteOption, RouteLeg, SearchParams, Coordinates, Waypoint, LoopTarget, TimeMode, SavedPlace, SavedRoute, TripHistoryEntry, CommuteSchedule } from './types';
+import { computeShadeHeatmap, ShadeHeatmap } from './services/shadeHeatmap';
+import { DepartureRouteInput, sweepDepartureTimes } from './services/departurePlanner';
+import { DepartureAdvisor } from './components/DepartureAdvisor';
+import { computeCommuteCalendar } from './services/commutePlanner';
+import { formatZonedTime, getBrowserTimeZone, getTimeZoneAt, getTimeZoneLabel, resolveTripDate, TripDay } from './services/tripTime';
+import { CommuteCalendar } from './components/CommuteCalendar';
+import { computeSunExposureReport, getSunExposureBounds, sampleSegment, SunExposureReport } from './services/sunExposure';
+import { SunExposurePanel } from './components/SunExposurePanel';
+import { getWeatherAt, getWeatherProvider, WeatherConditions } from './services/weatherService';
+import { analyzeThermalComfort } from './services/thermalComfort';
+import { computeRadiationDose } from './services/radiationDose';
+import { AccountPanel } from './components/AccountPanel';
+import { supabase } from './services/supabaseClient';
+import { createSupabaseUserDataStore, getUserDataStore, HISTORY_LIMIT, setUserDataStore, UserAccount } from './services/userDataStore';
+import { Umbrella, AlertCircle, Loader2, Sun, Bug, Grid3x3, CalendarRange } from 'lucide-react';
 
 const libraries: ("places" | "geometry")[] = ["places", "geometry"];
 
+const WALKING_SPEED = 1.4; // m/s, ~5 km/h
+
+// A pre-baked city extract (.osm.pbf, .osm or GeoJSON) replaces live Overpass queries
+if (import.meta.env.VITE_OSM_EXTRACT_URL) {
+  setFeatureSource(createLocalExtractSourceFromUrl(import.meta.env.VITE_OSM_EXTRACT_URL));
+}
+
+const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.max(1, Math.round(seconds / 60));
+  if (mins < 60) return `${mins} min${mins === 1 ? '' : 's'}`;
+  const hours = Math.floor(mins / 60);
+  const rest = mins % 60;
+  return `${hours} hour${hours === 1 ? '' : 's'}${rest ? ` ${rest} min${rest === 1 ? '' : 's'}` : ''}`;
+};
+
+// Saved places, routes and history need a Supabase project; without one the account panel is hidden
+if (supabase) {
+  setUserDataStore(createSupabaseUserDataStore(supabase));
+}
+
+// Loops stay within about this share of their length from the start, plus a margin (m)
+const LOOP_REACH = 0.4;
+const LOOP_MARGIN = 200;
+
+// The two longest named streets of a graph route, to name it by
+const getMainStreets = (route: GraphRoute) => route.segments
+  .filter(seg => seg.name)
+  .sort((a, b) => b.distance - a.distance)
+  .slice(0, 2)
+  .map(seg => seg.name);
+
+
+// Cloud cover for a place and time: the manual override, else live weather, else a clear sky
+const resolveCloudCover = async (location: Coordinates, date: Date, override: number | null) => {
+  if (override !== null) return override;
+  return (await getWeatherAt(location, date))?.cloudCover ?? 0;
+};
+
+// Area heatmaps are only computed once the map is zoomed in this far (degrees of lat/lng)
+const MAX_HEATMAP_SPAN = 0.03;
+
+// Extra margin fetched around the visible area so shadows cast from just outside are included
+const HEATMAP_FEATURE_MARGIN = 0.003;
+
 const App: React.FC = () => {
   const { isLoaded, loadError } = useJsApiLoader({
     id: 'google-map-script',
@@ -26,24 +93,66 @@ const App: React.FC = () => {
   const [selectedRouteIndex, setSelectedRouteIndex] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [userLocation, setUserLocation] = useState<Coordinates | undefined>(undefined);
-  const [cloudCoverage, setCloudCoverage] = useState(0); // 0-100
+  const [cloudOverride, setCloudOverride] = useState<number | null>(null); // Manual cloud cover 0-100, null = live
+  const [weather, setWeather] = useState<WeatherConditions | null>(null); // Live conditions at the trip's place and time
 
   // Debug mode state
   const [debugMode, setDebugMode] = useState(false);
   const [debugData, setDebugData] = useState<ShadeAnalysisDebug | null>(null);
   const [highlightedFeature, setHighlightedFeature] = useState<ShadeFeature | null>(null);
   const [selectedFeatureIds, setSelectedFeatureIds] = useState<number[]>([]);
-  const [useSummerDate, setUseSummerDate] = useState(false); // July 20th mode
   const [simulationTime, setSimulationTime] = useState<string>('12:00'); // Track time for re-analysis
+  // Day of the trip and the destination's time zone, which simulationTime is read in
+  const [tripDay, setTripDay] = useState<TripDay>(() => ({ timeZone: getBrowserTimeZone() }));
+  const [shadePreference, setShadePreference] = useState(0.5); // Distance vs shade trade-off for local routing
+  const [timeMode, setTimeMode] = useState<TimeMode>('depart'); // Whether simulationTime is a departure or an arrival
   const [isAnimating, setIsAnimating] = useState(false);
+  const [cachedTiles, setCachedTiles] = useState<CachedTileInfo[]>([]); // Feature cache coverage for debug view
   const recalcTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  // Area heatmap mode: shade for the whole visible map instead of a route
+  const [heatmapMode, setHeatmapMode] = useState(false);
+  const [heatmap, setHeatmap] = useState<ShadeHeatmap | null>(null);
+  const [mapBounds, setMapBounds] = useState<GeoBounds | null>(null);
+  const areaFeaturesRef = useRef<{ bounds: GeoBounds; features: ShadeFeature[] } | null>(null);
+  const heatmapTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Year-round sun report for a single address or street, alongside route search
+  const [exposureMode, setExposureMode] = useState(false);
+
   // Cache for shade features to avoid re-fetching on time change
   const cachedFeaturesRef = useRef<ShadeFeature[] | null>(null);
+  // Walkable OSM graph for the same bbox, used for shade-aware local routing
+  const cachedGraphRef = useRef<WalkGraph | null>(null);
+  // Intermediate stops of the current search, for their dwell times
+  const tripStopsRef = useRef<Waypoint[]>([]);
+  // Search behind the current results, saved along with a route
+  const lastSearchRef = useRef<SearchParams | null>(null);
+
+  // Signed-in user's saved data
+  const [account, setAccount] = useState<UserAccount | null>(null);
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>([]);
+  const [savedRoutes, setSavedRoutes] = useState<SavedRoute[]>([]);
+  const [tripHistory, setTripHistory] = useState<TripHistoryEntry[]>([]);
+  // Schedule of the saved commute being viewed, planned as soon as its routes load
+  const [commuteSchedule, setCommuteSchedule] = useState<CommuteSchedule | null>(null);
+
+  // Loops of the current loop walk search, re-scored when the time changes
+  const loopSearchRef = useRef<{ start: Coordinates; bounds: GeoBounds; loops: LoopWalk[] } | null>(null);
+  // Id of the selected route; re-scored loops come back in a new order, so the index alone can't follow them
+  const selectedRouteIdRef = useRef<string | undefined>(undefined);
 
-  // Helper to extract points from Google Route
-  const getRoutePoints = (route: google.maps.DirectionsRoute): Coordinates[] => {
-    return route.overview_path.map(p => ({ lat: p.lat(), lng: p.lng() }));
+  useEffect(() => {
+    selectedRouteIdRef.current = routes[selectedRouteIndex]?.id;
+  }, [routes, selectedRouteIndex]);
+
+  // Helper to extract the detailed path of one leg from its steps
+  const getLegPoints = (leg: google.maps.DirectionsLeg): Coordinates[] => {
+    return leg.steps.flatMap((step, i) =>
+      (step.path?.length ? step.path : [step.start_location, step.end_location])
+        .slice(i > 0 ? 1 : 0) // Each step starts where the previous one ended
+        .map(p => ({ lat: p.lat(), lng: p.lng() }))
+    );
   };
 
   // Helper: Get bounding box that covers ALL routes
@@ -74,17 +183,29 @@ const App: React.FC = () => {
   const processRoutesWithShade = async (
     result: google.maps.DirectionsResult,
     timeVal: string,
-    cloud: number,
+    override: number | null,
     includeDebug: boolean,
-    forceJuly: boolean = false,
-    existingFeatures?: ShadeFeature[] | null
+    day: TripDay = tripDay,
+    existingFeatures?: ShadeFeature[] | null,
+    preference: number = shadePreference,
+    arriveBy: boolean = timeMode === 'arrive'
   ) => {
-    const now = new Date();
-    const [hours, minutes] = timeVal.split(':').map(Number);
-    // Use July 20th if summer mode is enabled
-    const tripDate = forceJuly
-      ? new Date(now.getFullYear(), 6, 20, hours, minutes) // July = month 6 (0-indexed)
-      : new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+    const tripDate = resolveTripDate(timeVal, day);
+    const stops = tripStopsRef.current;
+
+    // Arriving by a time means each route leaves its own total time (walking plus stops) earlier
+    const getDeparture = (route: google.maps.DirectionsRoute) => {
+      if (!arriveBy) return tripDate;
+      const walkSeconds = route.legs.reduce((sum, leg) => sum + (leg.duration?.value || 0), 0);
+      const dwellSeconds = stops.slice(0, route.legs.length - 1).reduce((sum, stop) => sum + stop.dwellMinutes * 60, 0);
+      return new Date(tripDate.getTime() - (walkSeconds + dwellSeconds) * 1000);
+    };
+
+    const start = result.routes[0]?.legs[0]?.start_location;
+    const conditions = start && result.routes[0]
+      ? await getWeatherAt({ lat: start.lat(), lng: start.lng() }, getDeparture(result.routes[0]))
+      : null;
+    const cloud = override ?? conditions?.cloudCover ?? 0;
 
     let latestDebug: ShadeAnalysisDebug | null = null;
     let featuresToUse = existingFeatures;
@@ -93,52 +214,125 @@ const App: React.FC = () => {
     if (!featuresToUse) {
       const unionBbox = getUnionBbox(result.routes);
       console.log("Fetching features for union bbox:", unionBbox);
-      featuresToUse = await fetchShadeFeatures(unionBbox, tripDate);
+      const [features, graph] = await Promise.all([
+        getCachedShadeFeatures(unionBbox, tripDate),
+        fetchWalkableGraph(unionBbox)
+      ]);
+      featuresToUse = features;
       cachedFeaturesRef.current = featuresToUse; // Cache them!
+      cachedGraphRef.current = graph;
     }
 
     const processedRoutes: RouteOption[] = await Promise.all(result.routes.map(async (route, index) => {
-      const leg = route.legs[0];
-      const points = getRoutePoints(route);
+      const departure = getDeparture(route);
 
-      // Get duration in seconds for time-aware shade calculation
-      const durationSeconds = leg?.duration?.value || undefined;
+      // Walk the legs back to back: each leg sets off once the previous stop's dwell is over
+      let elapsedSeconds = 0;
+      const legs = [];
+      for (const [legIndex, leg] of route.legs.entries()) {
+        const legDate = new Date(departure.getTime() + elapsedSeconds * 1000);
+        const legSeconds = leg.duration?.value || undefined;
 
-      // Analyze Shade using pre-fetched features
-      // Pass featuresToUse explicitly to avoid internal fetching
-      const shadeAnalysis = await analyzeRouteShade(
-        points,
-        tripDate,
-        cloud,
-        includeDebug && index === 0,
-        durationSeconds,
-        featuresToUse || undefined
-      );
+        // Analyze Shade using pre-fetched features
+        // Pass featuresToUse explicitly to avoid internal fetching
+        const shadeAnalysis = await analyzeRouteShade(
+          getLegPoints(leg),
+          legDate,
+          cloud,
+          includeDebug && index === 0 && legIndex === 0,
+          legSeconds,
+          featuresToUse || undefined
+        );
 
-      // Capture debug data from first route
-      if (index === 0 && shadeAnalysis.debug) {
-        latestDebug = shadeAnalysis.debug;
+        // Capture debug data from first route
+        if (index === 0 && legIndex === 0 && shadeAnalysis.debug) {
+          latestDebug = shadeAnalysis.debug;
+        }
+
+        const steps = await analyzeSteps(
+          leg.steps?.map(step => ({
+            instruction: step.instructions.replace(/<[^>]*>?/gm, ''),
+            distance: step.distance?.text || "",
+            duration: step.duration?.text || "",
+            durationSeconds: step.duration?.value || 0,
+            path: (step.path?.length ? step.path : [step.start_location, step.end_location])
+              .map(p => ({ lat: p.lat(), lng: p.lng() })),
+            streetName: extractStreetName(step.instructions)
+          })) || [],
+          legDate,
+          cloud,
+          featuresToUse || [],
+          cachedGraphRef.current
+        );
+
+        const dwellMinutes = legIndex < route.legs.length - 1 ? stops[legIndex]?.dwellMinutes || 0 : 0;
+        legs.push({ leg, legDate, offsetMinutes: elapsedSeconds / 60, dwellMinutes, shadeAnalysis, steps });
+        elapsedSeconds += (legSeconds || 0) + dwellMinutes * 60;
       }
 
+      // Stitch the legs into one profile, with time offsets counted from departure
+      const samplePoints = legs.flatMap(l => l.shadeAnalysis.samplePoints);
+      const shadeProfile = legs.flatMap(l => l.shadeAnalysis.profile.map(p => ({
+        ...p,
+        timeOffset: Math.round((p.timeOffset + l.offsetMinutes) * 10) / 10
+      })));
+
+      const distanceMeters = legs.reduce((sum, l) => sum + (l.leg.distance?.value || 0), 0);
+      const durationSeconds = legs.reduce((sum, l) => sum + (l.leg.duration?.value || 0), 0) || undefined;
+      const averageShadePercentage = distanceMeters > 0
+        ? Math.round(legs.reduce((sum, l) => sum + l.shadeAnalysis.avgShade * (l.leg.distance?.value || 0), 0) / distanceMeters)
+        : legs[0]?.shadeAnalysis.avgShade ?? 0;
+
+      let sampleStart = 0;
+      const routeLegs: RouteLeg[] = legs.map(l => {
+        const routeLeg = {
+          from: l.leg.start_address,
+          to: l.leg.end_address,
+          distance: l.leg.distance?.text || "",
+          duration: l.leg.duration?.text || "",
+          departure: formatZonedTime(l.legDate, day.timeZone),
+          arrival: formatZonedTime(new Date(l.legDate.getTime() + (l.leg.duration?.value || 0) * 1000), day.timeZone),
+          dwellMinutes: l.dwellMinutes,
+          averageShadePercentage: l.shadeAnalysis.avgShade,
+          sampleStart
+        };
+        sampleStart += l.shadeAnalysis.samplePoints.length;
+        return routeLeg;
+      });
+
+      const firstLeg = route.legs[0];
+      const isMultiLeg = route.legs.length > 1;
+
       return {
         id: `route-${index}`,
         name: route.summary || `Route ${index + 1}`,
-        summary: leg?.start_address ? `Via ${route.summary}` : "Walking Route",
-        totalDistance: leg?.distance?.text || "",
-        totalDuration: leg?.duration?.text || "",
-        averageShadePercentage: shadeAnalysis.avgShade,
-        shadeProfile: shadeAnalysis.profile,
-        steps: leg?.steps?.map(step => ({
-          instruction: step.instructions.replace(/<[^>]*>?/gm, ''),
-          distance: step.distance?.text || "",
-          duration: step.duration?.text || "",
-          shadeQuality: shadeAnalysis.avgShade > 70 ? 'shady' as const : shadeAnalysis.avgShade > 40 ? 'partial' as const : 'sunny' as const,
-          description: "Based on solar analysis"
-        })) || [],
-        tags: index === 0 ? ["Fast"] : []
+        summary: isMultiLeg
+          ? `${route.legs.length - 1} stop${route.legs.length === 2 ? '' : 's'} via ${route.summary}`
+          : firstLeg?.start_address ? `Via ${route.summary}` : "Walking Route",
+        totalDistance: isMultiLeg ? formatDistance(distanceMeters) : firstLeg?.distance?.text || "",
+        totalDuration: isMultiLeg && durationSeconds ? formatDuration(durationSeconds) : firstLeg?.duration?.text || "",
+        durationSeconds,
+        averageShadePercentage,
+        thermalComfort: conditions
+          ? analyzeThermalComfort(samplePoints, shadeProfile, departure, conditions)
+          : undefined,
+        radiationDose: computeRadiationDose(
+          samplePoints, shadeProfile, departure, cloud, conditions?.uvIndex, routeLegs.map(l => l.sampleStart)
+        ),
+        departureTime: formatZonedTime(departure, day.timeZone),
+        arrivalTime: formatZonedTime(new Date(departure.getTime() + elapsedSeconds * 1000), day.timeZone),
+        shadeProfile,
+        samplePoints,
+        steps: legs.flatMap(l => l.steps),
+        tags: index === 0 ? ["Fast"] : [],
+        legs: isMultiLeg ? routeLegs : undefined
       };
     }));
 
+    // Add a shade-optimised route from the local walking graph
+    const graphRoute = await computeGraphRoute(result, tripDate, day.timeZone, cloud, conditions, featuresToUse || [], preference, arriveBy);
+    if (graphRoute) processedRoutes.push(graphRoute);
+
     // Tag the best shade route
     let bestShadeIdx = 0;
     let maxShade = -1;
@@ -152,9 +346,199 @@ const App: React.FC = () => {
       processedRoutes[bestShadeIdx].tags.push("Most Shaded");
     }
 
+    // Tag the route that feels coolest, when weather is known
+    const coolest = processedRoutes
+      .filter(r => r.thermalComfort)
+      .sort((a, b) => a.thermalComfort!.avgFeelsLike - b.thermalComfort!.avgFeelsLike)[0];
+    if (coolest && processedRoutes.length > 1) coolest.tags.push("Coolest");
+
     return { routes: processedRoutes, debug: latestDebug };
   };
 
+  // Route through the cached walking graph, weighing edges by sun exposure at departure
+  const computeGraphRoute = async (
+    result: google.maps.DirectionsResult,
+    tripDate: Date,
+    timeZone: string,
+    cloud: number,
+    conditions: WeatherConditions | null,
+    features: ShadeFeature[],
+    preference: number,
+    arriveBy: boolean
+  ): Promise<RouteOption | null> => {
+    const graph = cachedGraphRef.current;
+    const leg = result.routes[0]?.legs[0];
+    // Only plain A-to-B trips; stops would have to be threaded through the graph search
+    if (!graph || graph.edges.length === 0 || !leg || result.routes[0].legs.length > 1) return null;
+
+    const origin = { lat: leg.start_location.lat(), lng: leg.start_location.lng() };
+    const destination = { lat: leg.end_location.lat(), lng: leg.end_location.lng() };
+
+    // Weigh exposure at the Google route's departure; the graph route's own time is only known once found
+    const sunPos = getSunPosition(origin.lat, origin.lng, arriveBy
+      ? new Date(tripDate.getTime() - (leg.duration?.value || 0) * 1000)
+      : tripDate);
+    const exposure = computeEdgeExposure(graph, buildShadowIndex(features, sunPos));
+    const route = findShadeAwareRoute(graph, origin, destination, exposure, preference);
+    if (!route || route.path.length < 2) return null;
+
+    const mainStreets = getMainStreets(route);
+    return buildGraphRouteOption(
+      route,
+      {
+        id: 'route-graph',
+        name: preference >= 0.75 ? 'Max Shade' : preference >= 0.25 ? 'Balanced Shade' : 'Shortest Walk',
+        summary: mainStreets.length > 0 ? `Via ${mainStreets.join(' and ')}` : "Shade-optimised walking route",
+        tags: ["Side Streets"]
+      },
+      tripDate,
+      timeZone,
+      arriveBy,
+      cloud,
+      conditions,
+      features,
+      graph
+    );
+  };
+
+  // Shade analysis and step guidance for a route through the walking graph
+  const buildGraphRouteOption = async (
+    route: GraphRoute,
+    option: Pick<RouteOption, 'id' | 'name' | 'summary' | 'tags'>,
+    tripDate: Date,
+    timeZone: string,
+    arriveBy: boolean,
+    cloud: number,
+    conditions: WeatherConditions | null,
+    features: ShadeFeature[],
+    graph: WalkGraph | null
+  ): Promise<RouteOption> => {
+    const durationSeconds = route.distance / WALKING_SPEED;
+    const departure = arriveBy ? new Date(tripDate.getTime() - durationSeconds * 1000) : tripDate;
+    const shadeAnalysis = await analyzeRouteShade(route.path, departure, cloud, false, durationSeconds, features);
+
+    return {
+      ...option,
+      totalDistance: formatDistance(route.distance),
+      totalDuration: formatDuration(durationSeconds),
+      durationSeconds,
+      averageShadePercentage: shadeAnalysis.avgShade,
+      thermalComfort: conditions
+        ? analyzeThermalComfort(shadeAnalysis.samplePoints, shadeAnalysis.profile, departure, conditions)
+        : undefined,
+      radiationDose: computeRadiationDose(shadeAnalysis.samplePoints, shadeAnalysis.profile, departure, cloud, conditions?.uvIndex),
+      departureTime: formatZonedTime(departure, timeZone),
+      arrivalTime: formatZonedTime(new Date(departure.getTime() + durationSeconds * 1000), timeZone),
+      shadeProfile: shadeAnalysis.profile,
+      samplePoints: shadeAnalysis.samplePoints,
+      steps: await analyzeSteps(
+        route.segments.map(seg => ({
+          instruction: seg.name ? `Walk along ${seg.name}` : "Follow the footpath",
+          distance: formatDistance(seg.distance),
+          duration: formatDuration(seg.distance / WALKING_SPEED),
+          durationSeconds: seg.distance / WALKING_SPEED,
+          path: seg.path,
+          streetName: seg.name
+        })),
+        departure,
+        cloud,
+        features,
+        graph
+      ),
+      path: route.path
+    };
+  };
+
+  // Scores the loops of the current loop search, best first by shade and greenery
+  const processLoopWalks = async (
+    timeVal: string,
+    override: number | null,
+    day: TripDay,
+    features: ShadeFeature[],
+    arriveBy: boolean = timeMode === 'arrive'
+  ): Promise<RouteOption[]> => {
+    const search = loopSearchRef.current;
+    if (!search) return [];
+
+    const tripDate = resolveTripDate(timeVal, day);
+    const conditions = await getWeatherAt(search.start, tripDate);
+    const cloud = override ?? conditions?.cloudCover ?? 0;
+
+    const scored = await Promise.all(search.loops.map(async (loop, index) => {
+      const mainStreets = getMainStreets(loop);
+      const option = await buildGraphRouteOption(
+        loop,
+        {
+          id: `loop-${index}`,
+          name: `${getLoopDirection(loop)} Loop`,
+          summary: [
+            mainStreets.length > 0 ? `Via ${mainStreets.join(' and ')}` : "Round trip on footpaths",
+            loop.greenShare >= 0.05 ? `${Math.round(loop.greenShare * 100)}% through green space` : null
+          ].filter(Boolean).join(' · '),
+          tags: ["Loop"]
+        },
+        tripDate,
+        day.timeZone,
+        arriveBy,
+        cloud,
+        conditions,
+        features,
+        cachedGraphRef.current
+      );
+      return { option, score: scoreLoopWalk(option.averageShadePercentage, loop.greenShare), greenShare: loop.greenShare };
+    }));
+
+    scored.sort((a, b) => b.score - a.score);
+    const mostShaded = scored.reduce((best, s) => s.option.averageShadePercentage > best.option.averageShadePercentage ? s : best, scored[0]);
+    if (mostShaded) mostShaded.option.tags.push("Most Shaded");
+    const greenest = scored.reduce((best, s) => s.greenShare > best.greenShare ? s : best, scored[0]);
+    if (greenest && greenest.greenShare > 0 && scored.length > 1) greenest.option.tags.push("Greenest");
+
+    return scored.map(s => s.option);
+  };
+
+  // Shows re-scored loops with the same loop still selected
+  const showRescoredLoops = (uiRoutes: RouteOption[]) => {
+    setRoutes(uiRoutes);
+    setSelectedRouteIndex(Math.max(0, uiRoutes.findIndex(r => r.id === selectedRouteIdRef.current)));
+  };
+
+  // Generates loops around the origin, fetching features and the walking graph for their reach
+  const searchLoopWalks = async (params: SearchParams, loopTarget: LoopTarget) => {
+    const start = await geocodeAddress(params.origin);
+    const targetMeters = loopTarget.unit === 'km' ? loopTarget.value * 1000 : loopTarget.value * 60 * WALKING_SPEED;
+    // Loops end where they start, so the start's time zone is the trip's
+    const day = { date: params.date, timeZone: getTimeZoneAt(start) };
+    setTripDay(day);
+    const tripDate = resolveTripDate(params.time, day);
+
+    const reach = targetMeters * LOOP_REACH + LOOP_MARGIN;
+    const northEast = offsetByMeters(start, reach, reach);
+    const southWest = offsetByMeters(start, -reach, -reach);
+    const bounds = { north: northEast.lat, south: southWest.lat, east: northEast.lng, west: southWest.lng };
+
+    const [features, graph] = await Promise.all([
+      getCachedShadeFeatures(bounds, tripDate),
+      fetchWalkableGraph(bounds)
+    ]);
+    cachedFeaturesRef.current = features;
+    cachedGraphRef.current = graph;
+
+    const sunPos = getSunPosition(start.lat, start.lng, tripDate);
+    const loops = generateLoopWalks(
+      graph,
+      start,
+      targetMeters,
+      computeEdgeExposure(graph, buildShadowIndex(features, sunPos)),
+      computeEdgeGreenery(graph, features),
+      params.shadePreference
+    );
+    if (loops.length === 0) throw new Error("No loop walks found around the start");
+
+    loopSearchRef.current = { start, bounds, loops };
+    return processLoopWalks(params.time, cloudOverride, day, features, params.timeMode === 'arrive');
+  };
+
   const handleSearch = async (params: SearchParams) => {
     setAppState(AppState.LOADING);
     setError(null);
@@ -162,20 +546,55 @@ const App: React.FC = () => {
     setHighlightedFeature(null);
     setSelectedFeatureIds([]);
     setSimulationTime(params.time);
+    setShadePreference(params.shadePreference);
+    setTimeMode(params.timeMode ?? 'depart');
     cachedFeaturesRef.current = null; // Clear cache on new search
+    cachedGraphRef.current = null;
+    tripStopsRef.current = params.waypoints || [];
+    loopSearchRef.current = null;
+    lastSearchRef.current = params;
+    setCommuteSchedule(null);
+
+    const store = getUserDataStore();
+    if (store && account) {
+      store.addHistory(params)
+        .then(entry => setTripHistory(prev => [entry, ...prev].slice(0, HISTORY_LIMIT)))
+        .catch(err => console.error("Failed to record search:", err));
+    }
 
     try {
-      const result = await getDirections(params.origin, params.destination);
+      if (params.loopTarget) {
+        setDirectionsResponse(null);
+        setRoutes(await searchLoopWalks(params, params.loopTarget));
+        setSelectedRouteIndex(0);
+        setAppState(AppState.RESULTS);
+        return;
+      }
+
+      const result = await getDirections(
+        params.origin,
+        params.destination,
+        google.maps.TravelMode.WALKING,
+        tripStopsRef.current.map(stop => stop.location)
+      );
       setDirectionsResponse(result);
 
+      // Times are the destination's local time
+      const legs = result.routes[0]?.legs || [];
+      const end = legs[legs.length - 1]?.end_location;
+      const day = { date: params.date, timeZone: end ? getTimeZoneAt({ lat: end.lat(), lng: end.lng() }) : getBrowserTimeZone() };
+      setTripDay(day);
+
       // This will trigger the initial fetch and cache
       const { routes: uiRoutes, debug } = await processRoutesWithShade(
         result,
         params.time,
-        cloudCoverage,
+        cloudOverride,
         debugMode,
-        useSummerDate,
-        null
+        day,
+        null,
+        params.shadePreference,
+        params.timeMode === 'arrive'
       );
 
       setRoutes(uiRoutes);
@@ -190,37 +609,303 @@ const App: React.FC = () => {
     }
   };
 
+  // Label for times shown in the trip's zone, e.g. "JST" when planning a walk in Tokyo from elsewhere
+  const timeZoneLabel = getTimeZoneLabel(tripDay.timeZone, resolveTripDate(simulationTime, tripDay));
+
+  const heatmapTooWide = !!mapBounds &&
+    (mapBounds.north - mapBounds.south > MAX_HEATMAP_SPAN || mapBounds.east - mapBounds.west > MAX_HEATMAP_SPAN);
+
+  // Recomputes the area heatmap for the visible map
+  // Features are reused while the view stays inside the area fetched last time
+  const updateHeatmap = useCallback(async (timeVal: string) => {
+    if (!mapBounds || heatmapTooWide) {
+      setHeatmap(null);
+      return;
+    }
+
+    const tripDate = resolveTripDate(timeVal, tripDay);
+    const area = areaFeaturesRef.current;
+    const covered = area &&
+      area.bounds.south <= mapBounds.south && area.bounds.north >= mapBounds.north &&
+      area.bounds.west <= mapBounds.west && area.bounds.east >= mapBounds.east;
+
+    let features = area?.features || [];
+    if (!covered) {
+      const bounds = {
+        south: mapBounds.south - HEATMAP_FEATURE_MARGIN,
+        north: mapBounds.north + HEATMAP_FEATURE_MARGIN,
+        west: mapBounds.west - HEATMAP_FEATURE_MARGIN,
+        east: mapBounds.east + HEATMAP_FEATURE_MARGIN
+      };
+      features = await getCachedShadeFeatures(bounds, tripDate);
+      areaFeaturesRef.current = { bounds, features };
+    }
+
+    const center = { lat: (mapBounds.north + mapBounds.south) / 2, lng: (mapBounds.east + mapBounds.west) / 2 };
+    const cloud = await resolveCloudCover(center, tripDate, cloudOverride);
+    setHeatmap(computeShadeHeatmap(features, mapBounds, tripDate, cloud));
+  }, [mapBounds, heatmapTooWide, tripDay, cloudOverride]);
+
+  // Time changes come through the scrubber; everything else re-renders the heatmap here
+  useEffect(() => {
+    if (heatmapMode) updateHeatmap(simulationTime);
+    else setHeatmap(null);
+  }, [heatmapMode, updateHeatmap]);
+
   // Handle time scrubber changes with debounced recalculation
   const handleScrubberTimeChange = useCallback((newTime: string) => {
     setSimulationTime(newTime);
 
+    if (heatmapMode) {
+      if (heatmapTimeoutRef.current) clearTimeout(heatmapTimeoutRef.current);
+      heatmapTimeoutRef.current = setTimeout(() => updateHeatmap(newTime), isAnimating ? 50 : 100);
+    }
+
     // Debounce recalculation to avoid excessive API calls during animation
     if (recalcTimeoutRef.current) {
       clearTimeout(recalcTimeoutRef.current);
     }
 
-    if (directionsResponse && appState === AppState.RESULTS) {
+    if (loopSearchRef.current && appState === AppState.RESULTS) {
+      recalcTimeoutRef.current = setTimeout(async () => {
+        showRescoredLoops(await processLoopWalks(newTime, cloudOverride, tripDay, cachedFeaturesRef.current || []));
+      }, isAnimating ? 50 : 100);
+    } else if (directionsResponse && appState === AppState.RESULTS) {
       recalcTimeoutRef.current = setTimeout(async () => {
         // Re-analyze with new time, REUSING CACHED FEATURES
         const { routes: uiRoutes, debug } = await processRoutesWithShade(
           directionsResponse,
           newTime,
-          cloudCoverage,
+          cloudOverride,
           debugMode,
-          useSummerDate,
-          cachedFeaturesRef.current // Pass cached features
+          tripDay,
+          cachedFeaturesRef.current, // Pass cached features
+          shadePreference
         );
         setRoutes(uiRoutes);
         if (debug) setDebugData(debug);
       }, isAnimating ? 50 : 100); // Faster debounce when animating since we have local data!
     }
-  }, [directionsResponse, appState, cloudCoverage, debugMode, useSummerDate, isAnimating]);
+  }, [directionsResponse, appState, cloudOverride, debugMode, tripDay, isAnimating, shadePreference, timeMode, heatmapMode, updateHeatmap]);
 
   // Handle route selection from RouteList - updates map view
   const handleRouteSelect = useCallback((routeId: string, routeIndex: number) => {
     setSelectedRouteIndex(routeIndex);
   }, []);
 
+  // Route geometry and walking time of every alternative, for planning departures
+  const getDepartureInputs = (): DepartureRouteInput[] => routes
+    .filter(r => (r.samplePoints || r.path) && r.durationSeconds)
+    .map(r => ({ id: r.id, name: r.name, points: r.samplePoints || r.path!, durationSeconds: r.durationSeconds! }));
+
+  // Sweep departure times over a window using the features already fetched for this search
+  const handleDepartureSweep = async (start: string, end: string) => {
+    const features = cachedFeaturesRef.current;
+    if (!features) return null;
+
+    const windowStart = resolveTripDate(start, tripDay);
+    const windowEnd = resolveTripDate(end, tripDay);
+    if (windowEnd < windowStart) windowEnd.setDate(windowEnd.getDate() + 1); // Window crosses midnight
+
+    const inputs = getDepartureInputs();
+
+    // Each departure slot uses the forecast for its own hour
+    const startLocation = directionsResponse?.routes[0]?.legs[0]?.start_location;
+    const origin = startLocation
+      ? { lat: startLocation.lat(), lng: startLocation.lng() }
+      : loopSearchRef.current?.start ?? userLocation;
+    const cloud = origin
+      ? (departure: Date) => resolveCloudCover(origin, departure, cloudOverride)
+      : cloudOverride ?? 0;
+
+    return sweepDepartureTimes(inputs, windowStart, windowEnd, cloud, features);
+  };
+
+  // Shadiest route on each day of a recurring trip, starting today
+  // Forecasts don't reach weeks ahead, so every trip uses the manual cloud cover or a clear sky
+  const handleCommuteCalendar = async (schedule: CommuteSchedule) => {
+    const features = cachedFeaturesRef.current;
+    if (!features) return null;
+    return computeCommuteCalendar(getDepartureInputs(), schedule, new Date(), tripDay.timeZone, cloudOverride ?? 0, features);
+  };
+
+  // Saves the selected route with its schedule, so the commute can be planned again later
+  const handleSaveCommute = async (schedule: CommuteSchedule) => {
+    const store = getUserDataStore();
+    const route = routes[selectedRouteIndex];
+    if (!store || !lastSearchRef.current || !route) return;
+    const saved = await store.saveRoute({ name: route.name, params: lastSearchRef.current, route, schedule });
+    setSavedRoutes(prev => [saved, ...prev]);
+  };
+
+  // Re-runs a saved route or past search; saved commutes also reopen their calendar
+  const handleOpenSaved = (params: SearchParams, schedule?: CommuteSchedule) => {
+    handleSearch(params);
+    setCommuteSchedule(schedule ?? null);
+  };
+
+  // Re-run the analysis for the recommended departure and select the recommended route
+  const handleApplyDeparture = async (time: string, routeId: string) => {
+    // The advisor picks departure times, so the trip switches to departing at that time
+    setTimeMode('depart');
+    if (loopSearchRef.current) {
+      setSimulationTime(time);
+      const uiRoutes = await processLoopWalks(time, cloudOverride, tripDay, cachedFeaturesRef.current || [], false);
+      setRoutes(uiRoutes);
+      setSelectedRouteIndex(Math.max(0, uiRoutes.findIndex(r => r.id === routeId)));
+      return;
+    }
+    if (!directionsResponse) return;
+    setSimulationTime(time);
+    const { routes: uiRoutes, debug } = await processRoutesWithShade(
+      directionsResponse,
+      time,
+      cloudOverride,
+      debugMode,
+      tripDay,
+      cachedFeaturesRef.current,
+      shadePreference,
+      false
+    );
+    setRoutes(uiRoutes);
+    setSelectedRouteIndex(Math.max(0, uiRoutes.findIndex(r => r.id === routeId)));
+    if (debug) setDebugData(debug);
+  };
+
+  // Live weather for the panel: at the route origin after a search, otherwise the map centre
+  useEffect(() => {
+    const start = directionsResponse?.routes[0]?.legs[0]?.start_location;
+    const location = start
+      ? { lat: start.lat(), lng: start.lng() }
+      : mapBounds && { lat: (mapBounds.north + mapBounds.south) / 2, lng: (mapBounds.east + mapBounds.west) / 2 };
+    if (!location) return;
+
+    let cancelled = false;
+    getWeatherAt(location, resolveTripDate(simulationTime, tripDay)).then(conditions => {
+      if (!cancelled) setWeather(conditions);
+    });
+    return () => { cancelled = true; };
+  }, [directionsResponse, mapBounds, simulationTime, tripDay]);
+
+  // Follow sign-in state, then load the user's places, routes and history
+  useEffect(() => {
+    const store = getUserDataStore();
+    if (!store) return;
+    store.getUser().then(setAccount);
+    return store.onUserChange(setAccount);
+  }, []);
+
+  useEffect(() => {
+    const store = getUserDataStore();
+    if (!store || !account) {
+      setSavedPlaces([]);
+      setSavedRoutes([]);
+      setTripHistory([]);
+      return;
+    }
+    Promise.all([store.listPlaces(), store.listRoutes(), store.listHistory()])
+      .then(([places, routes, history]) => {
+        setSavedPlaces(places);
+        setSavedRoutes(routes);
+        setTripHistory(history);
+      })
+      .catch(err => console.error("Failed to load saved data:", err));
+  }, [account?.id]);
+
+  const handleSavePlace = async (place: Omit<SavedPlace, 'id'>) => {
+    const store = getUserDataStore();
+    if (!store) return;
+    try {
+      await store.savePlace(place);
+      setSavedPlaces(await store.listPlaces()); // Re-list: a new home or work replaces the old one
+    } catch (err) {
+      console.error("Failed to save place:", err);
+    }
+  };
+
+  const handleDeletePlace = async (id: string) => {
+    try {
+      await getUserDataStore()?.deletePlace(id);
+      setSavedPlaces(prev => prev.filter(p => p.id !== id));
+    } catch (err) {
+      console.error("Failed to delete place:", err);
+    }
+  };
+
+  const handleSaveRoute = async (route: RouteOption) => {
+    const store = getUserDataStore();
+    if (!store || !lastSearchRef.current) return;
+    const saved = await store.saveRoute({ name: route.name, params: lastSearchRef.current, route });
+    setSavedRoutes(prev => [saved, ...prev]);
+  };
+
+  const handleDeleteRoute = async (id: string) => {
+    try {
+      await getUserDataStore()?.deleteRoute(id);
+      setSavedRoutes(prev => prev.filter(r => r.id !== id));
+    } catch (err) {
+      console.error("Failed to delete route:", err);
+    }
+  };
+
+  const handleClearHistory = async () => {
+    try {
+      await getUserDataStore()?.clearHistory();
+      setTripHistory([]);
+    } catch (err) {
+      console.error("Failed to clear history:", err);
+    }
+  };
+
+  // Keep the cache coverage view current while debugging
+  useEffect(() => {
+    if (debugMode) getCachedCoverage().then(setCachedTiles);
+  }, [debugMode, routes]);
+
+  // Refetch this search's tiles regardless of age, then re-run the analysis on fresh data
+  const handleRefreshCache = async () => {
+    const loopSearch = loopSearchRef.current;
+    if (loopSearch) {
+      await refreshCachedTiles(loopSearch.bounds, new Date());
+      const features = await getCachedShadeFeatures(loopSearch.bounds, resolveTripDate(simulationTime, tripDay));
+      cachedFeaturesRef.current = features;
+      showRescoredLoops(await processLoopWalks(simulationTime, cloudOverride, tripDay, features));
+      return;
+    }
+    if (!directionsResponse) return;
+    await refreshCachedTiles(getUnionBbox(directionsResponse.routes), new Date());
+    const { routes: uiRoutes, debug } = await processRoutesWithShade(
+      directionsResponse,
+      simulationTime,
+      cloudOverride,
+      debugMode,
+      tripDay,
+      null,
+      shadePreference
+    );
+    setRoutes(uiRoutes);
+    if (debug) setDebugData(debug);
+  };
+
+  // Direct sun through a year at an address, or along the straight stretch of street between two
+  const handleSunExposure = async (from: string, to: string, year: number): Promise<SunExposureReport | null> => {
+    try {
+      const start = await geocodeAddress(from);
+      const points = to.trim() ? sampleSegment(start, await geocodeAddress(to)) : [start];
+      // Features are re-seasoned per month by the report, so the fetch date doesn't matter
+      const features = await getCachedShadeFeatures(getSunExposureBounds(points), new Date(year, 6, 15));
+      return await computeSunExposureReport(points, year, getTimeZoneAt(start), features);
+    } catch (err) {
+      console.error("Sun exposure report failed:", err);
+      return null;
+    }
+  };
+
+  const handleClearCache = async () => {
+    await clearFeatureCache();
+    setCachedTiles(await getCachedCoverage());
+  };
+
   if (loadError) {
     return <div>Error loading Maps API</div>;
   }
@@ -251,32 +936,68 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            {/* Debug Toggle */}
-            <button
-              onClick={() => setDebugMode(!debugMode)}
-              className={`p-2 rounded-lg transition-colors ${debugMode
-                ? 'bg-amber-100 text-amber-600'
-                : 'bg-slate-100 text-slate-400 hover:bg-slate-200'
-                }`}
-              title={debugMode ? "Debug mode ON" : "Enable debug mode"}
-            >
-              <Bug size={16} />
-            </button>
+            <div className="flex items-center gap-2">
+              {/* Area Heatmap Toggle */}
+              <button
+                onClick={() => setHeatmapMode(!heatmapMode)}
+                className={`p-2 rounded-lg transition-colors ${heatmapMode
+                  ? 'bg-blue-100 text-blue-600'
+                  : 'bg-slate-100 text-slate-400 hover:bg-slate-200'
+                  }`}
+                title={heatmapMode ? "Hide area shade" : "Show shade for the whole map area"}
+              >
+                <Grid3x3 size={16} />
+              </button>
+
+              {/* Sun Exposure Report Toggle */}
+              <button
+                onClick={() => setExposureMode(!exposureMode)}
+                className={`p-2 rounded-lg transition-colors ${exposureMode
+                  ? 'bg-orange-100 text-orange-600'
+                  : 'bg-slate-100 text-slate-400 hover:bg-slate-200'
+                  }`}
+                title={exposureMode ? "Hide sun report" : "Sun through the year at an address"}
+              >
+                <CalendarRange size={16} />
+              </button>
+
+              {/* Debug Toggle */}
+              <button
+                onClick={() => setDebugMode(!debugMode)}
+                className={`p-2 rounded-lg transition-colors ${debugMode
+                  ? 'bg-amber-100 text-amber-600'
+                  : 'bg-slate-100 text-slate-400 hover:bg-slate-200'
+                  }`}
+                title={debugMode ? "Debug mode ON" : "Enable debug mode"}
+              >
+                <Bug size={16} />
+              </button>
+            </div>
           </div>
 
           <WeatherControls
-            cloudCoverage={cloudCoverage}
-            onChange={setCloudCoverage}
-            debugMode={debugMode}
-            useSummerDate={useSummerDate}
-            onSummerToggle={setUseSummerDate}
+            cloudCoverage={cloudOverride ?? weather?.cloudCover ?? 0}
+            conditions={weather}
+            override={cloudOverride}
+            onOverrideChange={setCloudOverride}
+            providerName={getWeatherProvider().name}
           />
 
-          {/* Time Scrubber - Debug mode only, after initial search */}
-          {debugMode && appState === AppState.RESULTS && (
+          {heatmapMode && heatmapTooWide && (
+            <p className="mb-3 text-xs text-slate-500">Zoom in on the map to see area shade.</p>
+          )}
+          {heatmapMode && heatmap && heatmap.failedShadows > 0 && (
+            <p className="mb-3 text-xs text-amber-600">
+              {heatmap.failedShadows === 1 ? "A shadow" : `${heatmap.failedShadows} shadows`} couldn't be drawn, so parts of the map may look sunnier than they are.
+            </p>
+          )}
+
+          {/* Time Scrubber - area heatmap, or debug mode after initial search */}
+          {(heatmapMode || (debugMode && appState === AppState.RESULTS)) && (
             <div className="mb-4">
               <TimeScrubber
                 currentTime={simulationTime}
+                timeZoneLabel={timeZoneLabel}
                 onTimeChange={handleScrubberTimeChange}
                 isPlaying={isAnimating}
                 onPlayToggle={setIsAnimating}
@@ -284,14 +1005,33 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {getUserDataStore() && (
+            <AccountPanel
+              account={account}
+              places={savedPlaces}
+              routes={savedRoutes}
+              history={tripHistory}
+              onSignIn={(email) => getUserDataStore()!.signIn(email)}
+              onSignOut={() => getUserDataStore()?.signOut().catch(err => console.error(err))}
+              onSavePlace={handleSavePlace}
+              onDeletePlace={handleDeletePlace}
+              onDeleteRoute={handleDeleteRoute}
+              onClearHistory={handleClearHistory}
+              onSearch={handleOpenSaved}
+            />
+          )}
+
           <SearchForm
             onSearch={handleSearch}
             isLoading={appState === AppState.LOADING}
+            savedPlaces={savedPlaces}
           />
         </header>
 
         {/* Content Area */}
         <div className="p-4 pb-20 md:pb-4">
+          {exposureMode && <SunExposurePanel onCompute={handleSunExposure} />}
+
           {appState === AppState.LOADING && (
             <div className="flex flex-col items-center justify-center py-12 text-slate-400">
               <Loader2 size={32} className="animate-spin text-blue-500 mb-4" />
@@ -326,11 +1066,33 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {appState === AppState.RESULTS && (
+            <DepartureAdvisor
+              key={directionsResponse?.routes[0]?.overview_polyline}
+              defaultStart={simulationTime}
+              timeZone={tripDay.timeZone}
+              onSweep={handleDepartureSweep}
+              onApply={handleApplyDeparture}
+            />
+          )}
+
+          {appState === AppState.RESULTS && (
+            <CommuteCalendar
+              key={`${directionsResponse?.routes[0]?.overview_polyline}|${commuteSchedule ? 'saved' : 'new'}`}
+              defaultTime={simulationTime}
+              initialSchedule={commuteSchedule}
+              onCompute={handleCommuteCalendar}
+              onSave={account ? handleSaveCommute : undefined}
+            />
+          )}
+
           {appState === AppState.RESULTS && (
             <RouteList
               routes={routes}
               selectedRouteId={routes[selectedRouteIndex]?.id}
               onRouteSelect={handleRouteSelect}
+              onSaveRoute={account ? handleSaveRoute : undefined}
+              timeZoneLabel={timeZoneLabel}
             />
           )}
         </div>
@@ -344,6 +1106,9 @@ const App: React.FC = () => {
           userLocation={userLocation}
           analyzedRoutes={routes}
           debugData={debugMode ? debugData : null}
+          cachedTiles={cachedTiles}
+          heatmap={heatmapMode ? heatmap : null}
+          onBoundsChange={setMapBounds}
           highlightedFeature={highlightedFeature}
           selectedFeatureIds={selectedFeatureIds}
           onMapClick={() => setHighlightedFeature(null)}
@@ -360,6 +1125,9 @@ const App: React.FC = () => {
           highlightedFeatureId={highlightedFeature?.id}
           selectedFeatureIds={selectedFeatureIds}
           onSelectionChange={setSelectedFeatureIds}
+          cachedTiles={cachedTiles}
+          onRefreshCache={handleRefreshCache}
+          onClearCache={handleClearCache}
         />
       )}
     </div>
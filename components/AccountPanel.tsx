@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { Briefcase, History, Home, Loader2, LogOut, Mail, Repeat, Route, Star, Trash2, User } from 'lucide-react';
+import { CommuteSchedule, SavedPlace, SavedPlaceKind, SavedRoute, SearchParams, TripHistoryEntry } from '../types';
+import { UserAccount } from '../services/userDataStore';
+
+interface AccountPanelProps {
+    account: UserAccount | null;
+    places: SavedPlace[];
+    routes: SavedRoute[];
+    history: TripHistoryEntry[];
+    onSignIn: (email: string) => Promise<void>;
+    onSignOut: () => void;
+    onSavePlace: (place: Omit<SavedPlace, 'id'>) => Promise<void>;
+    onDeletePlace: (id: string) => void;
+    onDeleteRoute: (id: string) => void;
+    onClearHistory: () => void;
+    onSearch: (params: SearchParams, schedule?: CommuteSchedule) => void; // Re-runs a saved route or past search
+}
+
+type AccountTab = 'places' | 'routes' | 'history';
+
+const PLACE_ICONS: Record<SavedPlaceKind, React.ReactNode> = {
+    home: <Home size={12} />,
+    work: <Briefcase size={12} />,
+    favourite: <Star size={12} />
+};
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// e.g. "Mon–Fri 08:30, 17:45"
+const formatSchedule = (schedule: CommuteSchedule) => {
+    const days = [...schedule.weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+    const consecutive = days.every((day, i) => i === 0 || day === (days[i - 1] + 1) % 7);
+    const dayText = days.length > 2 && consecutive
+        ? `${DAY_NAMES[days[0]]}–${DAY_NAMES[days[days.length - 1]]}`
+        : days.map(day => DAY_NAMES[day]).join(', ');
+    return `${dayText} ${schedule.trips.map(trip => trip.time).join(', ')}`;
+};
+
+const formatWhen = (iso: string) =>
+    new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const AccountPanel: React.FC<AccountPanelProps> = ({
+    account,
+    places,
+    routes,
+    history,
+    onSignIn,
+    onSignOut,
+    onSavePlace,
+    onDeletePlace,
+    onDeleteRoute,
+    onClearHistory,
+    onSearch
+}) => {
+    const [open, setOpen] = useState(false);
+    const [tab, setTab] = useState<AccountTab>('places');
+    const [email, setEmail] = useState('');
+    const [status, setStatus] = useState<'idle' | 'sending' | 'sent' | 'error'>('idle');
+    const [newPlace, setNewPlace] = useState<Omit<SavedPlace, 'id'>>({ kind: 'favourite', label: '', address: '' });
+
+    const handleSignIn = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setStatus('sending');
+        try {
+            await onSignIn(email);
+            setStatus('sent');
+        } catch (err) {
+            console.error(err);
+            setStatus('error');
+        }
+    };
+
+    const handleAddPlace = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newPlace.address.trim()) return;
+        await onSavePlace({ ...newPlace, label: newPlace.label.trim() || newPlace.address });
+        setNewPlace({ kind: 'favourite', label: '', address: '' });
+    };
+
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 p-3 mb-4 shadow-sm">
+            <button onClick={() => setOpen(!open)} className="w-full flex items-center gap-2">
+                <User size={14} className="text-blue-500" />
+                <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                    {account ? 'My Places & Routes' : 'Sign in to save places'}
+                </span>
+                {account && <span className="ml-auto text-[10px] text-slate-400 truncate">{account.email}</span>}
+            </button>
+
+            {open && !account && (
+                <form onSubmit={handleSignIn} className="mt-3 flex items-center gap-2 text-xs">
+                    <input
+                        type="email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        placeholder="you@example.com"
+                        className="flex-1 px-2 py-1.5 rounded-lg border border-slate-200 focus:border-blue-400 focus:outline-none"
+                        required
+                    />
+                    <button
+                        type="submit"
+                        disabled={status === 'sending'}
+                        className="px-3 py-1.5 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:opacity-60 flex items-center gap-1"
+                    >
+                        {status === 'sending' ? <Loader2 size={12} className="animate-spin" /> : <Mail size={12} />}
+                        Send link
+                    </button>
+                </form>
+            )}
+            {open && !account && status === 'sent' && (
+                <p className="mt-2 text-xs text-emerald-600">Check your inbox for a sign-in link.</p>
+            )}
+            {open && !account && status === 'error' && (
+                <p className="mt-2 text-xs text-red-600">Couldn't send the link. Please try again.</p>
+            )}
+
+            {open && account && (
+                <div className="mt-3">
+                    <div className="flex bg-slate-100 rounded-lg p-0.5 text-[11px] font-medium mb-3">
+                        {([
+                            { id: 'places', label: 'Places', icon: <Star size={12} /> },
+                            { id: 'routes', label: 'Routes', icon: <Route size={12} /> },
+                            { id: 'history', label: 'History', icon: <History size={12} /> }
+                        ] as { id: AccountTab; label: string; icon: React.ReactNode }[]).map(option => (
+                            <button
+                                key={option.id}
+                                onClick={() => setTab(option.id)}
+                                className={`flex-1 py-1 rounded-md flex items-center justify-center gap-1 transition-all ${tab === option.id ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                                    }`}
+                            >
+                                {option.icon} {option.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {tab === 'places' && (
+                        <div className="space-y-1">
+                            {places.map(place => (
+                                <div key={place.id} className="flex items-center gap-2 text-xs py-1">
+                                    <span className="text-slate-400">{PLACE_ICONS[place.kind]}</span>
+                                    <span className="font-medium text-slate-700">{place.label}</span>
+                                    <span className="text-slate-400 truncate flex-1" title={place.address}>{place.address}</span>
+                                    <button onClick={() => onDeletePlace(place.id)} className="text-slate-300 hover:text-red-500" title="Remove place">
+                                        <Trash2 size={12} />
+                                    </button>
+                                </div>
+                            ))}
+                            <form onSubmit={handleAddPlace} className="flex items-center gap-1 pt-2 text-xs">
+                                <select
+                                    value={newPlace.kind}
+                                    onChange={(e) => setNewPlace({ ...newPlace, kind: e.target.value as SavedPlaceKind })}
+                                    className="px-1 py-1.5 rounded-lg border border-slate-200 focus:outline-none"
+                                >
+                                    <option value="home">Home</option>
+                                    <option value="work">Work</option>
+                                    <option value="favourite">Favourite</option>
+                                </select>
+                                <input
+                                    value={newPlace.label}
+                                    onChange={(e) => setNewPlace({ ...newPlace, label: e.target.value })}
+                                    placeholder="Name"
+                                    className="w-20 px-2 py-1.5 rounded-lg border border-slate-200 focus:border-blue-400 focus:outline-none"
+                                />
+                                <input
+                                    value={newPlace.address}
+                                    onChange={(e) => setNewPlace({ ...newPlace, address: e.target.value })}
+                                    placeholder="Address"
+                                    className="flex-1 min-w-0 px-2 py-1.5 rounded-lg border border-slate-200 focus:border-blue-400 focus:outline-none"
+                                    required
+                                />
+                                <button type="submit" className="px-2 py-1.5 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700">
+                                    Save
+                                </button>
+                            </form>
+                        </div>
+                    )}
+
+                    {tab === 'routes' && (
+                        <div className="space-y-1">
+                            {routes.length === 0 && <p className="text-xs text-slate-400">Save a route from its details to find it here.</p>}
+                            {routes.map(saved => (
+                                <div key={saved.id} className="flex items-center gap-2 text-xs py-1">
+                                    <button
+                                        onClick={() => onSearch(saved.params, saved.schedule)}
+                                        className="flex-1 min-w-0 text-left hover:text-blue-600"
+                                        title={`${saved.params.origin} → ${saved.params.destination || 'loop walk'}`}
+                                    >
+                                        {saved.schedule && <Repeat size={11} className="inline mr-1 text-blue-500" />}
+                                        <span className="font-medium text-slate-700">{saved.name}</span>
+                                        <span className="text-slate-400">
+                                            {' · '}{saved.schedule ? formatSchedule(saved.schedule) : `${saved.route.averageShadePercentage}% shade`}
+                                            {' · '}{formatWhen(saved.savedAt)}
+                                        </span>
+                                    </button>
+                                    <button onClick={() => onDeleteRoute(saved.id)} className="text-slate-300 hover:text-red-500" title="Remove route">
+                                        <Trash2 size={12} />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {tab === 'history' && (
+                        <div className="space-y-1">
+                            {history.length === 0 && <p className="text-xs text-slate-400">Your searches will show up here.</p>}
+                            {history.map(entry => (
+                                <button
+                                    key={entry.id}
+                                    onClick={() => onSearch(entry.params)}
+                                    className="w-full text-left text-xs py-1 hover:text-blue-600 truncate block"
+                                >
+                                    <span className="text-slate-700">
+                                        {entry.params.origin} → {entry.params.loopTarget ? 'loop walk' : entry.params.destination}
+                                    </span>
+                                    <span className="text-slate-400">
+                                        {' · '}{entry.params.date ? `${entry.params.date} ` : ''}{entry.params.time} · {formatWhen(entry.searchedAt)}
+                                    </span>
+                                </button>
+                            ))}
+                            {history.length > 0 && (
+                                <button onClick={onClearHistory} className="text-[11px] text-slate-400 hover:text-red-500 pt-1">
+                                    Clear history
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    <button onClick={onSignOut} className="mt-3 text-[11px] text-slate-400 hover:text-slate-600 flex items-center gap-1">
+                        <LogOut size={11} /> Sign out
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
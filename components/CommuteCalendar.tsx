@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarDays, Loader2, Repeat, Save, Sparkles } from 'lucide-react';
+import { CommuteSchedule } from '../types';
+import { CommuteCalendar as CommuteCalendarResult, CommuteDay, MAX_COMMUTE_WEEKS } from '../services/commutePlanner';
+import { ROUTE_COLORS } from './DepartureAdvisor';
+
+interface CommuteCalendarProps {
+    defaultTime: string; // HH:MM, used for the outbound trip of a new schedule
+    initialSchedule?: CommuteSchedule | null; // Planned straight away, e.g. when opening a saved commute
+    onCompute: (schedule: CommuteSchedule) => Promise<CommuteCalendarResult | null>;
+    onSave?: (schedule: CommuteSchedule) => Promise<void>; // Only passed when signed in
+}
+
+// Monday-first week, with Date.getDay() numbers
+const WEEKDAYS = [
+    { day: 1, label: 'M' },
+    { day: 2, label: 'T' },
+    { day: 3, label: 'W' },
+    { day: 4, label: 'T' },
+    { day: 5, label: 'F' },
+    { day: 6, label: 'S' },
+    { day: 0, label: 'S' }
+];
+
+const WEEK_OPTIONS = [4, 8, 12, MAX_COMMUTE_WEEKS];
+
+const formatDay = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// Splits scheduled days into Monday-first weeks, leaving unscheduled days empty
+const toWeeks = (days: CommuteDay[]): (CommuteDay | null)[][] => {
+    const weeks: (CommuteDay | null)[][] = [];
+    let weekStart = -1;
+    days.forEach(day => {
+        const monday = new Date(day.date);
+        monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+        if (monday.getTime() !== weekStart) {
+            weeks.push(Array(7).fill(null));
+            weekStart = monday.getTime();
+        }
+        weeks[weeks.length - 1][(day.date.getDay() + 6) % 7] = day;
+    });
+    return weeks;
+};
+
+export const CommuteCalendar: React.FC<CommuteCalendarProps> = ({ defaultTime, initialSchedule, onCompute, onSave }) => {
+    const [weekdays, setWeekdays] = useState<number[]>(initialSchedule?.weekdays ?? [1, 2, 3, 4, 5]);
+    const [outbound, setOutbound] = useState(initialSchedule?.trips.find(t => t.direction === 'outbound')?.time ?? defaultTime);
+    const [returnTime, setReturnTime] = useState(initialSchedule?.trips.find(t => t.direction === 'return')?.time ?? '17:45');
+    const [hasReturn, setHasReturn] = useState(initialSchedule ? initialSchedule.trips.some(t => t.direction === 'return') : true);
+    const [weeks, setWeeks] = useState(initialSchedule?.weeks ?? 8);
+    const [loading, setLoading] = useState(false);
+    const [planFailed, setPlanFailed] = useState(false);
+    const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+    const [calendar, setCalendar] = useState<CommuteCalendarResult | null>(null);
+
+    const buildSchedule = (): CommuteSchedule => ({
+        weekdays,
+        trips: [
+            { time: outbound, direction: 'outbound' },
+            ...(hasReturn ? [{ time: returnTime, direction: 'return' as const }] : [])
+        ],
+        weeks
+    });
+
+    const runPlan = async (schedule: CommuteSchedule) => {
+        setLoading(true);
+        setPlanFailed(false);
+        try {
+            setCalendar(await onCompute(schedule));
+        } catch (err) {
+            console.error(err);
+            setCalendar(null);
+            setPlanFailed(true);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // A saved commute opens with its calendar already planned
+    useEffect(() => {
+        if (initialSchedule) runPlan(initialSchedule);
+    }, []);
+
+    const handleSave = async () => {
+        if (!onSave) return;
+        setSaveStatus('saving');
+        try {
+            await onSave(buildSchedule());
+            setSaveStatus('saved');
+        } catch (err) {
+            console.error(err);
+            setSaveStatus('error');
+        }
+    };
+
+    const toggleWeekday = (day: number) => {
+        setWeekdays(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]));
+    };
+
+    const colorOf = (routeId: string) => {
+        const index = calendar ? calendar.routes.findIndex(r => r.id === routeId) : 0;
+        return ROUTE_COLORS[Math.max(0, index) % ROUTE_COLORS.length];
+    };
+    const nameOf = (routeId: string) => calendar?.routes.find(r => r.id === routeId)?.name ?? routeId;
+    const flips = calendar?.days.filter(day => day.flipped) ?? [];
+
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 p-3 mb-4 shadow-sm">
+            <div className="flex items-center gap-2 mb-2">
+                <CalendarDays size={14} className="text-blue-500" />
+                <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Commute calendar</span>
+            </div>
+
+            <div className="flex items-center gap-1 mb-2">
+                {WEEKDAYS.map(({ day, label }) => (
+                    <button
+                        key={day}
+                        onClick={() => toggleWeekday(day)}
+                        className={`w-7 h-7 rounded-full text-[11px] font-semibold transition-colors ${weekdays.includes(day) ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+                            }`}
+                    >
+                        {label}
+                    </button>
+                ))}
+                <select
+                    value={weeks}
+                    onChange={(e) => setWeeks(Number(e.target.value))}
+                    className="ml-auto px-1 py-1 rounded-lg border border-slate-200 text-xs focus:outline-none"
+                >
+                    {WEEK_OPTIONS.map(option => (
+                        <option key={option} value={option}>{option} weeks</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="flex items-center gap-2 text-xs">
+                <span className="text-slate-400">Leave</span>
+                <input
+                    type="time"
+                    value={outbound}
+                    onChange={(e) => setOutbound(e.target.value)}
+                    className="flex-1 px-2 py-1.5 rounded-lg border border-slate-200 focus:border-blue-400 focus:outline-none"
+                />
+                <label className="flex items-center gap-1 text-slate-400" title="Walk the route back later in the day">
+                    <input type="checkbox" checked={hasReturn} onChange={(e) => setHasReturn(e.target.checked)} />
+                    <Repeat size={12} />
+                </label>
+                <input
+                    type="time"
+                    value={returnTime}
+                    onChange={(e) => setReturnTime(e.target.value)}
+                    disabled={!hasReturn}
+                    className="flex-1 px-2 py-1.5 rounded-lg border border-slate-200 focus:border-blue-400 focus:outline-none disabled:opacity-50"
+                />
+            </div>
+
+            <div className="flex items-center gap-2 mt-2">
+                <button
+                    onClick={() => runPlan(buildSchedule())}
+                    disabled={loading || weekdays.length === 0}
+                    className="flex-1 px-3 py-1.5 rounded-lg bg-blue-600 text-white text-xs font-medium hover:bg-blue-700 disabled:opacity-60 flex items-center justify-center gap-1"
+                >
+                    {loading ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+                    Plan
+                </button>
+                {onSave && (
+                    <button
+                        onClick={handleSave}
+                        disabled={saveStatus === 'saving' || weekdays.length === 0}
+                        className="px-3 py-1.5 rounded-lg border border-slate-200 text-xs font-medium text-slate-600 hover:border-blue-300 hover:text-blue-600 disabled:opacity-60 flex items-center gap-1"
+                    >
+                        <Save size={12} />
+                        {saveStatus === 'saved' ? 'Saved' : 'Save commute'}
+                    </button>
+                )}
+            </div>
+            {planFailed && <p className="mt-2 text-xs text-red-600">Couldn't plan the commute. Please try again.</p>}
+            {saveStatus === 'error' && <p className="mt-2 text-xs text-red-600">Couldn't save the commute. Please try again.</p>}
+
+            {calendar && calendar.days.length > 0 && (
+                <div className="mt-3">
+                    <div className="grid grid-cols-7 gap-1 text-[10px] text-slate-400 text-center mb-1">
+                        {WEEKDAYS.map(({ day, label }) => <span key={day}>{label}</span>)}
+                    </div>
+                    <div className="space-y-1">
+                        {toWeeks(calendar.days).map((week, i) => (
+                            <div key={i} className="grid grid-cols-7 gap-1">
+                                {week.map((day, j) => day ? (
+                                    <div
+                                        key={j}
+                                        className={`h-7 rounded-md flex items-center justify-center text-[10px] font-semibold text-white ${day.flipped ? 'ring-2 ring-offset-1 ring-slate-700' : ''}`}
+                                        style={{ backgroundColor: colorOf(day.winnerId) }}
+                                        title={`${formatDay(day.date)}: ${nameOf(day.winnerId)}, ${day.sunMinutes} min in direct sun`}
+                                    >
+                                        {day.date.getDate()}
+                                    </div>
+                                ) : (
+                                    <div key={j} className="h-7 rounded-md bg-slate-50" />
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2">
+                        {calendar.routes.map(route => (
+                            <span key={route.id} className="flex items-center gap-1 text-[10px] text-slate-600">
+                                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: colorOf(route.id) }} />
+                                {route.name}
+                            </span>
+                        ))}
+                    </div>
+
+                    <div className="mt-2 text-xs text-slate-600">
+                        {flips.length === 0
+                            ? <>Take <span className="font-semibold">{nameOf(calendar.days[0].winnerId)}</span> every day.</>
+                            : flips.map(day => (
+                                <div key={day.date.getTime()}>
+                                    From <span className="font-semibold">{formatDay(day.date)}</span>, switch to{' '}
+                                    <span className="font-semibold">{nameOf(day.winnerId)}</span>
+                                </div>
+                            ))}
+                    </div>
+                </div>
+            )}
+            {calendar && calendar.days.length === 0 && (
+                <p className="mt-2 text-xs text-slate-400">No trips fall in the coming weeks.</p>
+            )}
+        </div>
+    );
+};
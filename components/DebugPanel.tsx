@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { ShadeAnalysisDebug, ShadeFeature } from '../types';
-import { Bug, X, ChevronDown, ChevronRight, Building2, TreePine, Trees, Flower2, Tent, MapPin, Sun, Search, CheckSquare, Square } from 'lucide-react';
+import { CachedTileInfo } from '../services/featureCache';
+import { getLeafCycle, LeafCycle } from '../services/shadeEngine';
+import { Bug, X, ChevronDown, ChevronRight, Building2, TreePine, Trees, Flower2, Tent, MapPin, Sun, Search, CheckSquare, Square, Database, RefreshCw, Trash2 } from 'lucide-react';
 import clsx from 'clsx';
 
 interface DebugPanelProps {
@@ -11,6 +13,9 @@ interface DebugPanelProps {
     highlightedFeatureId?: number;
     selectedFeatureIds?: number[];
     onSelectionChange?: (ids: number[]) => void;
+    cachedTiles?: CachedTileInfo[];
+    onRefreshCache?: () => void;
+    onClearCache?: () => void;
 }
 
 const FeatureTypeIcon = ({ type }: { type: ShadeFeature['type'] }) => {
@@ -25,6 +30,14 @@ const FeatureTypeIcon = ({ type }: { type: ShadeFeature['type'] }) => {
     }
 };
 
+const LEAF_CYCLE_LABELS: Record<LeafCycle, string> = {
+    deciduous: 'Deciduous',
+    semi_deciduous: 'Semi-deciduous',
+    mixed: 'Mixed',
+    semi_evergreen: 'Semi-evergreen',
+    evergreen: 'Evergreen'
+};
+
 const FeatureTypeLabel = ({ type }: { type: ShadeFeature['type'] }) => {
     const labels: Record<ShadeFeature['type'], string> = {
         building: 'Buildings',
@@ -44,7 +57,10 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({
     onFeatureClick,
     highlightedFeatureId,
     selectedFeatureIds = [],
-    onSelectionChange
+    onSelectionChange,
+    cachedTiles = [],
+    onRefreshCache,
+    onClearCache
 }) => {
     const [expandedTypes, setExpandedTypes] = useState<Set<string>>(new Set(['building']));
     const [searchQuery, setSearchQuery] = useState('');
@@ -86,6 +102,9 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({
 
     const typeOrder: ShadeFeature['type'][] = ['building', 'tree', 'tree_row', 'park', 'forest', 'covered'];
 
+    const staleTiles = cachedTiles.filter(t => t.stale).length;
+    const oldestFetch = cachedTiles.length > 0 ? Math.min(...cachedTiles.map(t => t.fetchedAt)) : null;
+
     return (
         <div className="fixed bottom-4 right-4 w-96 max-h-[70vh] bg-white rounded-2xl shadow-2xl border border-slate-200 z-[100] overflow-hidden flex flex-col">
             {/* Header */}
@@ -143,6 +162,37 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({
                 </div>
             </div>
 
+            {/* Feature Cache */}
+            <div className="p-3 border-b border-slate-100">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <Database size={14} className="text-emerald-600" />
+                        <span className="text-xs font-semibold text-slate-600">Feature Cache</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={onRefreshCache}
+                            className="p-1 hover:bg-slate-100 rounded transition-colors"
+                            title="Refetch tiles for this search"
+                        >
+                            <RefreshCw size={12} className="text-slate-500" />
+                        </button>
+                        <button
+                            onClick={onClearCache}
+                            className="p-1 hover:bg-slate-100 rounded transition-colors"
+                            title="Clear cached tiles"
+                        >
+                            <Trash2 size={12} className="text-slate-500" />
+                        </button>
+                    </div>
+                </div>
+                <div className="mt-1 text-[10px] text-slate-500">
+                    {cachedTiles.length === 0
+                        ? 'No cached tiles'
+                        : `${cachedTiles.length} tiles · ${cachedTiles.reduce((sum, t) => sum + t.featureCount, 0)} features${staleTiles ? ` · ${staleTiles} stale` : ''} · oldest ${new Date(oldestFetch!).toLocaleDateString()}`}
+                </div>
+            </div>
+
             {/* Stats Summary */}
             <div className="p-3 bg-slate-50 border-b border-slate-100">
                 <div className="text-xs font-semibold text-slate-600 mb-2">Features Found</div>
@@ -232,7 +282,17 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({
                                                     </span>
                                                 </div>
                                                 <div className="flex items-center gap-2 text-slate-400">
-                                                    <span title="Height">{feature.height.toFixed(0)}m</span>
+                                                    <span title="Height">
+                                                        {feature.minHeight ? `${feature.minHeight.toFixed(0)}–` : ''}{feature.height.toFixed(0)}m
+                                                    </span>
+                                                    {feature.seasonalFoliage !== undefined && (
+                                                        <span
+                                                            title={`${LEAF_CYCLE_LABELS[getLeafCycle(feature)]}${feature.leafCycle ? '' : ' (assumed)'} · seasonal foliage`}
+                                                            className="text-[10px]"
+                                                        >
+                                                            {getLeafCycle(feature) === 'evergreen' ? '🌲' : '🍂'} ×{feature.seasonalFoliage.toFixed(2)}
+                                                        </span>
+                                                    )}
                                                     <span title="Foliage Density" className="text-green-600">
                                                         {(feature.foliageDensity * 100).toFixed(0)}%
                                                     </span>
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Clock, Loader2, Sparkles } from 'lucide-react';
+import { DepartureSweep } from '../services/departurePlanner';
+import { formatZonedTime } from '../services/tripTime';
+
+interface DepartureAdvisorProps {
+    defaultStart: string; // HH:MM, usually the searched departure time
+    timeZone: string; // Trip's time zone, which departures are shown in
+    onSweep: (start: string, end: string) => Promise<DepartureSweep | null>;
+    onApply: (time: string, routeId: string) => void;
+}
+
+// One line colour per route alternative
+export const ROUTE_COLORS = ['#2563eb', '#f97316', '#10b981', '#a855f7', '#ef4444', '#64748b'];
+
+const addHours = (time: string, hours: number) => {
+    const [h, m] = time.split(':').map(Number);
+    return `${Math.min(23, h + hours).toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+};
+
+export const DepartureAdvisor: React.FC<DepartureAdvisorProps> = ({ defaultStart, timeZone, onSweep, onApply }) => {
+    const [start, setStart] = useState(defaultStart);
+    const [end, setEnd] = useState(() => addHours(defaultStart, 3));
+    const [loading, setLoading] = useState(false);
+    const [failed, setFailed] = useState(false);
+    const [sweep, setSweep] = useState<DepartureSweep | null>(null);
+
+    const runSweep = async () => {
+        setLoading(true);
+        setFailed(false);
+        try {
+            setSweep(await onSweep(start, end));
+        } catch (err) {
+            console.error(err);
+            setSweep(null);
+            setFailed(true);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const chartData = sweep?.departures.map((departure, i) => {
+        const row: Record<string, string | number> = { time: formatZonedTime(departure, timeZone) };
+        sweep.routes.forEach(route => { row[route.id] = route.sunMinutes[i]; });
+        return row;
+    }) || [];
+
+    const best = sweep?.best;
+    const bestRoute = best && sweep.routes.find(r => r.id === best.routeId);
+
+    // Compare against leaving at the start of the window on the same route
+    const firstSlotMinutes = bestRoute?.sunMinutes[0];
+
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 p-3 mb-4 shadow-sm">
+            <div className="flex items-center gap-2 mb-2">
+                <Clock size={14} className="text-blue-500" />
+                <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">When should I leave?</span>
+            </div>
+
+            <div className="flex items-center gap-2 text-xs">
+                <input
+                    type="time"
+                    value={start}
+                    onChange={(e) => setStart(e.target.value)}
+                    className="flex-1 px-2 py-1.5 rounded-lg border border-slate-200 focus:border-blue-400 focus:outline-none"
+                />
+                <span className="text-slate-400">to</span>
+                <input
+                    type="time"
+                    value={end}
+                    onChange={(e) => setEnd(e.target.value)}
+                    className="flex-1 px-2 py-1.5 rounded-lg border border-slate-200 focus:border-blue-400 focus:outline-none"
+                />
+                <button
+                    onClick={runSweep}
+                    disabled={loading}
+                    className="px-3 py-1.5 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:opacity-60 flex items-center gap-1"
+                >
+                    {loading ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+                    Find
+                </button>
+            </div>
+            {failed && <p className="mt-2 text-xs text-red-600">Couldn't compare departure times. Please try again.</p>}
+
+            {best && bestRoute && (
+                <div className="mt-3 flex items-center justify-between bg-blue-50 border border-blue-100 rounded-lg px-3 py-2">
+                    <div className="text-xs text-blue-800">
+                        Leave at <span className="font-bold">{formatZonedTime(best.departure, timeZone)}</span> via <span className="font-semibold">{bestRoute.name}</span>
+                        <div className="text-[10px] text-blue-600">
+                            {best.sunMinutes.toFixed(1)} min in direct sun
+                            {firstSlotMinutes !== undefined && firstSlotMinutes > best.sunMinutes && ` (vs ${firstSlotMinutes} min at ${start})`}
+                        </div>
+                    </div>
+                    <button
+                        onClick={() => onApply(formatZonedTime(best.departure, timeZone), best.routeId)}
+                        className="text-xs font-medium text-blue-700 hover:text-blue-900"
+                    >
+                        Use
+                    </button>
+                </div>
+            )}
+
+            {sweep && sweep.departures.length > 1 && (
+                <div className="h-48 w-full mt-3">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={chartData} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                            <XAxis dataKey="time" tick={{ fontSize: 10, fill: '#64748b' }} axisLine={false} tickLine={false} />
+                            <YAxis tick={{ fontSize: 10, fill: '#64748b' }} axisLine={false} tickLine={false} unit="m" />
+                            <Tooltip
+                                contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e2e8f0' }}
+                                itemStyle={{ fontSize: '12px', fontWeight: 600 }}
+                                labelStyle={{ fontSize: '12px', color: '#64748b' }}
+                                formatter={(value) => [`${value} min`, undefined]}
+                            />
+                            <Legend wrapperStyle={{ fontSize: '10px' }} />
+                            {best && <ReferenceLine x={formatZonedTime(best.departure, timeZone)} stroke="#2563eb" strokeDasharray="4 4" />}
+                            {sweep.routes.map((route, i) => (
+                                <Line
+                                    key={route.id}
+                                    type="monotone"
+                                    dataKey={route.id}
+                                    name={route.name}
+                                    stroke={ROUTE_COLORS[i % ROUTE_COLORS.length]}
+                                    strokeWidth={2}
+                                    dot={false}
+                                />
+                            ))}
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,6 +1,9 @@
-import React, { useState, useCallback, useEffect, useMemo } from 'react';
-import { GoogleMap, DirectionsRenderer, Polyline, Marker, Polygon } from '@react-google-maps/api';
-import { Coordinates, ShadeAnalysisDebug, ShadeFeature } from '../types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { GoogleMap, DirectionsRenderer, Polyline, Marker, Polygon, Rectangle, GroundOverlay } from '@react-google-maps/api';
+import { Coordinates, RouteOption, ShadeAnalysisDebug, ShadeFeature } from '../types';
+import { CachedTileInfo } from '../services/featureCache';
+import { GeoBounds } from '../services/featureSource';
+import { ShadeHeatmap } from '../services/shadeHeatmap';
 import { Layers, Eye, EyeOff, Sun } from 'lucide-react';
 
 const containerStyle = {
@@ -9,6 +12,13 @@ const containerStyle = {
     borderRadius: '1rem'
 };
 
+// Heatmap colour ramp: full sun (orange) to full shade (blue)
+const HEATMAP_SUN = [251, 146, 60];
+const HEATMAP_SHADE = [37, 99, 235];
+
+// Halo colours for the legs of a trip with stops, in order
+export const LEG_COLORS = ['#8b5cf6', '#ec4899', '#14b8a6', '#f59e0b', '#6366f1', '#84cc16'];
+
 const defaultCenter = {
     lat: 47.1585, // Iași, Romania - homebase for testing
     lng: 27.6014
@@ -18,8 +28,11 @@ interface MapContainerProps {
     routes?: google.maps.DirectionsResult | null;
     selectedRouteIndex?: number;
     userLocation?: Coordinates;
-    analyzedRoutes?: any[]; // RouteOption[]
+    analyzedRoutes?: RouteOption[]; // Google routes first, then locally routed ones
     debugData?: ShadeAnalysisDebug | null;
+    cachedTiles?: CachedTileInfo[]; // Feature cache coverage, shown in debug mode
+    heatmap?: ShadeHeatmap | null; // Area shade layer
+    onBoundsChange?: (bounds: GeoBounds) => void; // Reports the visible area after panning/zooming
     highlightedFeature?: ShadeFeature | null;
     selectedFeatureIds?: number[];
     onMapClick?: () => void; // Clear highlight when clicking map
@@ -32,6 +45,9 @@ export const MapContainer: React.FC<MapContainerProps> = ({
     userLocation,
     analyzedRoutes,
     debugData,
+    cachedTiles,
+    heatmap,
+    onBoundsChange,
     highlightedFeature,
     selectedFeatureIds,
     onMapClick,
@@ -66,14 +82,29 @@ export const MapContainer: React.FC<MapContainerProps> = ({
     }, [map, highlightedFeature]);
 
     // Center map on selected route when it changes
+    // Reanalysis (scrubbing, cloud override, a new departure) replaces analyzedRoutes without
+    // changing the route, so the fit keys on the route's id and start instead of the array;
+    // otherwise every tick would throw away the user's pan and zoom
+    const selectedRoute = analyzedRoutes?.[selectedRouteIndex];
+    const selectedStart = selectedRoute?.path?.[0];
+    const selectedRouteKey = selectedRoute ? `${selectedRoute.id}|${selectedStart?.lat},${selectedStart?.lng}` : null;
+    const selectedRouteRef = useRef(selectedRoute);
+    selectedRouteRef.current = selectedRoute;
+
     useEffect(() => {
+        const path = selectedRouteRef.current?.path;
         if (map && routes && routes.routes[selectedRouteIndex]) {
             const route = routes.routes[selectedRouteIndex];
             if (route.bounds) {
                 map.fitBounds(route.bounds, { top: 50, bottom: 50, left: 50, right: 50 });
             }
+        } else if (map && path) {
+            // Locally routed option - no DirectionsRoute bounds available
+            const bounds = new google.maps.LatLngBounds();
+            path.forEach(c => bounds.extend(c));
+            map.fitBounds(bounds, { top: 50, bottom: 50, left: 50, right: 50 });
         }
-    }, [map, routes, selectedRouteIndex]);
+    }, [map, routes, selectedRouteIndex, selectedRouteKey]);
 
     // Helpers for coloring
     const getSegmentColor = (shadeLevel: number) => {
@@ -97,25 +128,28 @@ export const MapContainer: React.FC<MapContainerProps> = ({
 
     // Prepare polyline segments if we have analysis
     const renderPolylines = () => {
-        if (!routes || !analyzedRoutes || !analyzedRoutes[selectedRouteIndex]) return null;
+        if (!analyzedRoutes || !analyzedRoutes[selectedRouteIndex]) return null;
 
         const routeData = analyzedRoutes[selectedRouteIndex];
-        const path = routes.routes[selectedRouteIndex].overview_path;
+        // Prefer the densified samples the profile was computed on
+        const path: google.maps.LatLngLiteral[] = routeData.samplePoints
+            || routeData.path
+            || routes?.routes[selectedRouteIndex]?.overview_path.map(p => p.toJSON())
+            || [];
         const profile = routeData.shadeProfile;
 
-        if (!profile || profile.length !== path.length) {
-            // Fallback if mismatch
-        }
-
+        // Merge consecutive samples of the same colour into one polyline
         const segments = [];
-        for (let i = 0; i < path.length - 1; i++) {
-            const shade = profile && profile[i] ? profile[i].shadeLevel : 0;
-            const color = getSegmentColor(shade);
+        let runStart = 0;
+        for (let i = 1; i < path.length; i++) {
+            const color = getSegmentColor(profile[runStart]?.shadeLevel ?? 0);
+            const nextColor = getSegmentColor(profile[i]?.shadeLevel ?? 0);
+            if (nextColor === color && i < path.length - 1) continue;
 
             segments.push(
                 <Polyline
-                    key={`seg-${i}`}
-                    path={[path[i], path[i + 1]]}
+                    key={`seg-${runStart}`}
+                    path={path.slice(runStart, i + 1)}
                     options={{
                         strokeColor: color,
                         strokeWeight: 6,
@@ -125,7 +159,47 @@ export const MapContainer: React.FC<MapContainerProps> = ({
                     }}
                 />
             );
+            runStart = i;
         }
+
+        // Trips with stops get a wide halo per leg, so each errand's walk reads apart
+        routeData.legs?.forEach((leg, idx) => {
+            const end = routeData.legs![idx + 1]?.sampleStart ?? path.length - 1;
+            segments.push(
+                <Polyline
+                    key={`leg-${idx}`}
+                    path={path.slice(leg.sampleStart, end + 1)}
+                    options={{
+                        strokeColor: LEG_COLORS[idx % LEG_COLORS.length],
+                        strokeWeight: 14,
+                        strokeOpacity: 0.3,
+                        clickable: false,
+                        zIndex: 5
+                    }}
+                />
+            );
+        });
+
+        // Advised pavements as dashed lines beside the route
+        routeData.steps.forEach((step, idx) => {
+            if (!step.sidewalkPath || step.sidewalkPath.length < 2) return;
+            segments.push(
+                <Polyline
+                    key={`sidewalk-${idx}`}
+                    path={step.sidewalkPath}
+                    options={{
+                        strokeOpacity: 0,
+                        clickable: false,
+                        zIndex: 60,
+                        icons: [{
+                            icon: { path: 'M 0,-1 0,1', strokeColor: '#059669', strokeOpacity: 1, strokeWeight: 3, scale: 2 },
+                            offset: '0',
+                            repeat: '10px'
+                        }]
+                    }}
+                />
+            );
+        });
         return segments;
     };
 
@@ -158,7 +232,7 @@ export const MapContainer: React.FC<MapContainerProps> = ({
                 return (
                     <Polygon
                         key={`shadow-${s.feature.id}-${idx}`}
-                        paths={s.shadow.polygon}
+                        paths={[s.shadow.polygon, ...(s.shadow.holes || [])]}
                         options={{
                             fillColor: '#2563eb', // Blue
                             fillOpacity: s.shadow.opacity * 0.3,
@@ -180,7 +254,7 @@ export const MapContainer: React.FC<MapContainerProps> = ({
                 components.push(
                     <Polygon
                         key={`highlight-shadow-${highlightedFeature.id}`}
-                        paths={shadowEntry.shadow.polygon}
+                        paths={[shadowEntry.shadow.polygon, ...(shadowEntry.shadow.holes || [])]}
                         options={{
                             fillColor: '#f97316', // Orange-500
                             fillOpacity: 0.6,
@@ -203,7 +277,7 @@ export const MapContainer: React.FC<MapContainerProps> = ({
                     return (
                         <Polygon
                             key={`selected-shadow-${s.feature.id}-${idx}`}
-                            paths={s.shadow.polygon}
+                            paths={[s.shadow.polygon, ...(s.shadow.holes || [])]}
                             options={{
                                 fillColor: '#f97316', // Orange-500
                                 fillOpacity: 0.6,
@@ -226,7 +300,7 @@ export const MapContainer: React.FC<MapContainerProps> = ({
 
         return (
             <Polygon
-                paths={highlightedFeature.coordinates}
+                paths={[highlightedFeature.coordinates, ...(highlightedFeature.holes || [])]}
                 options={{
                     fillColor: getFeatureColor(highlightedFeature.type),
                     fillOpacity: 0.4,
@@ -296,9 +370,48 @@ export const MapContainer: React.FC<MapContainerProps> = ({
         );
     }, [debugData]);
 
+    // Paint the heatmap grid into an image for a ground overlay (one pixel per cell)
+    const heatmapUrl = useMemo(() => {
+        if (!heatmap) return null;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = heatmap.cols;
+        canvas.height = heatmap.rows;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return null;
+
+        const image = ctx.createImageData(heatmap.cols, heatmap.rows);
+        heatmap.values.forEach((shade, i) => {
+            for (let ch = 0; ch < 3; ch++) {
+                image.data[i * 4 + ch] = HEATMAP_SUN[ch] + (HEATMAP_SHADE[ch] - HEATMAP_SUN[ch]) * shade;
+            }
+            image.data[i * 4 + 3] = 255;
+        });
+        ctx.putImageData(image, 0, 0);
+        return canvas.toDataURL();
+    }, [heatmap]);
+
+    const handleIdle = useCallback(() => {
+        const bounds = map?.getBounds()?.toJSON();
+        if (bounds) onBoundsChange?.(bounds);
+    }, [map, onBoundsChange]);
+
     return (
         <div className="relative w-full h-full">
             {renderSunOverlay}
+            {heatmap && (
+                <div className="absolute bottom-4 left-4 z-10 bg-white/90 backdrop-blur-sm rounded-lg shadow px-3 py-2 text-[10px] text-slate-600">
+                    <div className="font-semibold mb-1">Area shade</div>
+                    <div className="flex items-center gap-2">
+                        <span>Sun</span>
+                        <div
+                            className="w-20 h-2 rounded"
+                            style={{ background: `linear-gradient(to right, rgb(${HEATMAP_SUN.join(',')}), rgb(${HEATMAP_SHADE.join(',')}))` }}
+                        />
+                        <span>Shade</span>
+                    </div>
+                </div>
+            )}
             <GoogleMap
                 mapContainerStyle={containerStyle}
                 center={userLocation || defaultCenter}
@@ -306,6 +419,7 @@ export const MapContainer: React.FC<MapContainerProps> = ({
                 onLoad={onLoad}
                 onUnmount={onUnmount}
                 onClick={onMapClick}
+                onIdle={handleIdle}
                 options={{
                     mapTypeControl: false,
                     streetViewControl: false,
@@ -316,12 +430,40 @@ export const MapContainer: React.FC<MapContainerProps> = ({
                     ]
                 }}
             >
+                {/* Area shade heatmap (below everything else) */}
+                {heatmap && heatmapUrl && (
+                    <GroundOverlay
+                        key={heatmapUrl}
+                        url={heatmapUrl}
+                        bounds={heatmap.bounds}
+                        opacity={0.5}
+                        options={{ clickable: false }}
+                    />
+                )}
+
                 {/* Shadow Overlay (rendered first, below routes) */}
                 {renderShadowOverlay}
 
                 {/* Highlighted Feature Footprint */}
                 {renderHighlightedFeature}
 
+                {/* Cached feature tiles (stale ones in orange) */}
+                {debugData && showShadeOverlay && cachedTiles?.map(tile => (
+                    <Rectangle
+                        key={tile.key}
+                        bounds={tile.bounds}
+                        options={{
+                            strokeColor: tile.stale ? '#f97316' : '#10b981',
+                            strokeOpacity: 0.6,
+                            strokeWeight: 1,
+                            fillColor: tile.stale ? '#f97316' : '#10b981',
+                            fillOpacity: 0.04,
+                            clickable: false,
+                            zIndex: 1
+                        }}
+                    />
+                ))}
+
                 {/* Sun Position is now rendered as overlay outside GoogleMap */}
 
                 {/* Render ALL routes */}
@@ -351,6 +493,27 @@ export const MapContainer: React.FC<MapContainerProps> = ({
                     );
                 })}
 
+                {/* Render locally routed options and loop walks (not part of the DirectionsResult) */}
+                {analyzedRoutes && analyzedRoutes.map((route, index) => {
+                    if (!route.path || index < (routes?.routes.length ?? 0)) return null;
+                    if (index === selectedRouteIndex) {
+                        return <React.Fragment key={route.id}>{renderPolylines()}</React.Fragment>;
+                    }
+                    return (
+                        <Polyline
+                            key={route.id}
+                            path={route.path}
+                            options={{
+                                strokeColor: '#94a3b8',
+                                strokeWeight: 5,
+                                strokeOpacity: 0.4,
+                                zIndex: 10,
+                                clickable: false
+                            }}
+                        />
+                    );
+                })}
+
                 {userLocation && (
                     <Marker
                         position={userLocation}
@@ -1,6 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { MapPin, Loader2, Navigation } from 'lucide-react';
-import { Coordinates } from '../types';
+import { MapPin, Loader2, Navigation, Home, Briefcase, Star } from 'lucide-react';
+import { Coordinates, SavedPlace } from '../types';
+
+// Saved places offered before any Places API results
+const MAX_SAVED_SUGGESTIONS = 5;
+
+const SAVED_PLACE_ICONS = { home: Home, work: Briefcase, favourite: Star };
 
 interface PlaceInputProps {
   label: string;
@@ -10,6 +15,7 @@ interface PlaceInputProps {
   userLocation?: Coordinates;
   onUseCurrentLocation?: () => void;
   onPlaceSelected?: (placeId: string) => void;
+  savedPlaces?: SavedPlace[]; // The signed-in user's places, matched by name or address
 }
 
 export const PlaceInput: React.FC<PlaceInputProps> = ({
@@ -19,7 +25,8 @@ export const PlaceInput: React.FC<PlaceInputProps> = ({
   placeholder,
   userLocation,
   onUseCurrentLocation,
-  onPlaceSelected
+  onPlaceSelected,
+  savedPlaces = []
 }) => {
   // Simplifed suggestion type
   interface Suggestion {
@@ -32,6 +39,12 @@ export const PlaceInput: React.FC<PlaceInputProps> = ({
   const [showSuggestions, setShowSuggestions] = useState(false);
   const wrapperRef = useRef<HTMLDivElement>(null);
 
+  const query = value.trim().toLowerCase();
+  const savedMatches = savedPlaces
+    .filter(place => !query || place.label.toLowerCase().includes(query) || place.address.toLowerCase().includes(query))
+    .filter(place => place.address !== value) // Already picked
+    .slice(0, MAX_SAVED_SUGGESTIONS);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (wrapperRef.current && !wrapperRef.current.contains(event.target as Node)) {
@@ -86,7 +99,7 @@ export const PlaceInput: React.FC<PlaceInputProps> = ({
 
     if (newVal.length < 3) {
       setSuggestions([]);
-      setShowSuggestions(false);
+      setShowSuggestions(savedPlaces.length > 0); // Saved places match from the first letter
       return;
     }
 
@@ -116,7 +129,7 @@ export const PlaceInput: React.FC<PlaceInputProps> = ({
           type="text"
           value={value}
           onChange={handleInput}
-          onFocus={() => { if (suggestions.length > 0) setShowSuggestions(true); }}
+          onFocus={() => { if (suggestions.length > 0 || savedMatches.length > 0) setShowSuggestions(true); }}
           placeholder={placeholder}
           className="w-full pl-10 pr-10 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-slate-700 placeholder:text-slate-400"
           autoComplete="off"
@@ -140,8 +153,28 @@ export const PlaceInput: React.FC<PlaceInputProps> = ({
         )}
       </div>
 
-      {showSuggestions && suggestions.length > 0 && (
+      {showSuggestions && (suggestions.length > 0 || savedMatches.length > 0) && (
         <div className="absolute z-20 w-full bg-white rounded-xl shadow-lg border border-slate-100 mt-1 overflow-hidden animate-in fade-in zoom-in-95 duration-200 max-h-60 overflow-y-auto">
+          {savedMatches.map((place) => {
+            const Icon = SAVED_PLACE_ICONS[place.kind];
+            return (
+              <button
+                key={`saved-${place.id}`}
+                type="button"
+                onClick={() => {
+                  onChange(place.address);
+                  setShowSuggestions(false);
+                }}
+                className="w-full text-left px-4 py-3 hover:bg-blue-50 text-sm text-slate-700 border-b border-slate-50 last:border-0 transition-colors flex items-start gap-2"
+              >
+                <Icon size={14} className="text-blue-500 shrink-0 mt-1" />
+                <span className="whitespace-normal break-words leading-tight">
+                  <span className="font-medium">{place.label}</span>
+                  {place.label !== place.address && <span className="text-slate-400"> · {place.address}</span>}
+                </span>
+              </button>
+            );
+          })}
           {suggestions.map((suggestion) => (
             <button
               key={suggestion.id}
@@ -153,9 +186,11 @@ export const PlaceInput: React.FC<PlaceInputProps> = ({
               <span className="whitespace-normal break-words leading-tight">{suggestion.description}</span>
             </button>
           ))}
-          <div className="px-2 py-1 flex justify-end">
-            <img src="https://developers.google.com/maps/documentation/images/powered_by_google_on_white.png" alt="Powered by Google" className="h-4 object-contain opacity-70" />
-          </div>
+          {suggestions.length > 0 && (
+            <div className="px-2 py-1 flex justify-end">
+              <img src="https://developers.google.com/maps/documentation/images/powered_by_google_on_white.png" alt="Powered by Google" className="h-4 object-contain opacity-70" />
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -1,21 +1,59 @@
-import React from 'react';
-import { RouteOption } from '../types';
+import React, { useState } from 'react';
+import { HeatStress, RouteOption } from '../types';
 import { ShadeChart } from './ShadeChart';
-import { Sun, CloudSun, Cloud, ArrowRight, Navigation, ThermometerSun } from 'lucide-react';
+import { LEG_COLORS } from './MapContainer';
+import { Sun, CloudSun, Cloud, ArrowRight, ArrowLeftRight, Navigation, ThermometerSun, MapPin, Clock, Star } from 'lucide-react';
 import clsx from 'clsx';
 
+type RouteRanking = 'suggested' | 'shade' | 'comfort';
+
+const HEAT_STRESS_LABELS: Record<HeatStress, string> = {
+  'none': 'Comfortable',
+  'moderate': 'Warm',
+  'strong': 'Hot',
+  'very-strong': 'Very hot',
+  'extreme': 'Extreme heat'
+};
+
 interface RouteListProps {
   routes: RouteOption[];
   selectedRouteId?: string;
   onRouteSelect?: (routeId: string, routeIndex: number) => void;
+  onSaveRoute?: (route: RouteOption) => Promise<void>; // Only passed when signed in
+  timeZoneLabel?: string | null; // Zone of departure and arrival times, when it isn't the browser's
 }
 
-export const RouteList: React.FC<RouteListProps> = ({ routes, selectedRouteId: controlledSelectedId, onRouteSelect }) => {
+// Route ids repeat between searches; name and summary tell saved routes apart
+const routeKey = (route: RouteOption) => `${route.name}|${route.summary}`;
+
+export const RouteList: React.FC<RouteListProps> = ({ routes, selectedRouteId: controlledSelectedId, onRouteSelect, onSaveRoute, timeZoneLabel }) => {
   // Use controlled selection if provided, otherwise fallback to first route
   const selectedRouteId = controlledSelectedId || routes[0]?.id;
 
   const selectedRoute = routes.find(r => r.id === selectedRouteId);
 
+  // Ranking only reorders the list; callbacks still receive the original index
+  const [ranking, setRanking] = useState<RouteRanking>('suggested');
+  const [savedKeys, setSavedKeys] = useState<string[]>([]);
+
+  const handleSave = async (route: RouteOption) => {
+    if (!onSaveRoute) return;
+    try {
+      await onSaveRoute(route);
+      setSavedKeys(keys => [...keys, routeKey(route)]);
+    } catch (err) {
+      console.error("Failed to save route:", err);
+    }
+  };
+  const hasComfort = routes.some(r => r.thermalComfort);
+  const rankedRoutes = [...routes].sort((a, b) => {
+    if (ranking === 'shade') return b.averageShadePercentage - a.averageShadePercentage;
+    if (ranking === 'comfort' && hasComfort) {
+      return (a.thermalComfort?.avgFeelsLike ?? Infinity) - (b.thermalComfort?.avgFeelsLike ?? Infinity);
+    }
+    return 0;
+  });
+
   const getShadeIcon = (percentage: number) => {
     if (percentage > 70) return <Cloud className="text-blue-600" />;
     if (percentage > 40) return <CloudSun className="text-blue-400" />;
@@ -28,15 +66,40 @@ export const RouteList: React.FC<RouteListProps> = ({ routes, selectedRouteId: c
     return 'text-orange-500 bg-orange-50 border-orange-100';
   };
 
+  const getHeatColor = (stress: HeatStress) => {
+    if (stress === 'none') return 'text-emerald-600';
+    if (stress === 'moderate') return 'text-amber-500';
+    if (stress === 'strong') return 'text-orange-500';
+    return 'text-red-600';
+  };
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
       {/* List of Options */}
       <div className="lg:col-span-4 space-y-4">
-        <h3 className="text-lg font-bold text-slate-800">Suggested Routes</h3>
-        {routes.map((route, index) => (
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-800">Suggested Routes</h3>
+          <div className="flex bg-slate-100 p-1 rounded-lg gap-1">
+            {([['suggested', 'Default'], ['shade', 'Shade'], ['comfort', 'Feels like']] as [RouteRanking, string][])
+              .filter(([value]) => value !== 'comfort' || hasComfort)
+              .map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setRanking(value)}
+                  className={clsx(
+                    "px-2 py-1 rounded-md text-[10px] font-medium transition-all",
+                    ranking === value ? "bg-white text-blue-600 shadow-sm" : "text-slate-500 hover:bg-slate-200"
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+          </div>
+        </div>
+        {rankedRoutes.map(route => (
           <div
             key={route.id}
-            onClick={() => onRouteSelect?.(route.id, index)}
+            onClick={() => onRouteSelect?.(route.id, routes.indexOf(route))}
             className={clsx(
               "cursor-pointer rounded-xl p-4 border transition-all duration-200",
               selectedRouteId === route.id
@@ -60,6 +123,22 @@ export const RouteList: React.FC<RouteListProps> = ({ routes, selectedRouteId: c
                 <ArrowRight size={12} />
                 {route.totalDuration}
               </span>
+              {route.departureTime && route.arrivalTime && (
+                <span className="flex items-center gap-1">
+                  <Clock size={12} />
+                  {route.departureTime}–{route.arrivalTime}
+                  {timeZoneLabel && <span className="text-slate-400">{timeZoneLabel}</span>}
+                </span>
+              )}
+              {route.thermalComfort && (
+                <span
+                  className={clsx("flex items-center gap-1", getHeatColor(route.thermalComfort.heatStress))}
+                  title={`Peaks at ${route.thermalComfort.peakFeelsLike}°C`}
+                >
+                  <ThermometerSun size={12} />
+                  Feels {Math.round(route.thermalComfort.avgFeelsLike)}°C
+                </span>
+              )}
             </div>
 
             {/* Tags */}
@@ -80,7 +159,19 @@ export const RouteList: React.FC<RouteListProps> = ({ routes, selectedRouteId: c
           <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
             <div className="flex flex-col md:flex-row justify-between md:items-center mb-6 pb-6 border-b border-slate-100">
               <div>
-                <h2 className="text-2xl font-bold text-slate-900">{selectedRoute.name}</h2>
+                <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+                  {selectedRoute.name}
+                  {onSaveRoute && (
+                    <button
+                      onClick={() => handleSave(selectedRoute)}
+                      disabled={savedKeys.includes(routeKey(selectedRoute))}
+                      className="text-slate-300 hover:text-amber-500 disabled:text-amber-500 transition-colors"
+                      title={savedKeys.includes(routeKey(selectedRoute)) ? "Saved" : "Save route"}
+                    >
+                      <Star size={20} fill={savedKeys.includes(routeKey(selectedRoute)) ? 'currentColor' : 'none'} />
+                    </button>
+                  )}
+                </h2>
                 <p className="text-slate-500 mt-1">{selectedRoute.summary}</p>
               </div>
               <div className="mt-4 md:mt-0 flex gap-4">
@@ -101,6 +192,30 @@ export const RouteList: React.FC<RouteListProps> = ({ routes, selectedRouteId: c
                     </p>
                   </div>
                 </div>
+                {selectedRoute.thermalComfort && (
+                  <div className="text-center pl-4 border-l border-slate-100">
+                    <p className="text-xs text-slate-400 uppercase font-semibold">Feels Like</p>
+                    <p className={clsx("text-xl font-bold", getHeatColor(selectedRoute.thermalComfort.heatStress))}>
+                      {Math.round(selectedRoute.thermalComfort.avgFeelsLike)}°C
+                    </p>
+                    <p className="text-[10px] text-slate-400">{HEAT_STRESS_LABELS[selectedRoute.thermalComfort.heatStress]}</p>
+                  </div>
+                )}
+                {selectedRoute.radiationDose && (
+                  <div
+                    className="text-center pl-4 border-l border-slate-100"
+                    title={`UV: ${selectedRoute.radiationDose.uvSed} SED, ${Math.round(selectedRoute.radiationDose.medFraction * 100)}% of a sunburn dose for fair skin`}
+                  >
+                    <p className="text-xs text-slate-400 uppercase font-semibold">Sun Dose</p>
+                    <p className="text-xl font-bold text-slate-800">
+                      {Math.round(selectedRoute.radiationDose.solarKjPerM2)}<span className="text-xs font-medium text-slate-400"> kJ/m²</span>
+                    </p>
+                    <p className={clsx("text-[10px]", selectedRoute.radiationDose.medFraction >= 1 ? "text-red-600 font-semibold" : "text-slate-400")}>
+                      UV {selectedRoute.radiationDose.uvSed} SED
+                      {selectedRoute.radiationDose.medFraction >= 1 && ' · burn risk'}
+                    </p>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -108,13 +223,48 @@ export const RouteList: React.FC<RouteListProps> = ({ routes, selectedRouteId: c
             <div className="mb-8">
               <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Shade Comfort Level</h4>
               <div className="h-24 w-full">
-                <ShadeChart data={selectedRoute.shadeProfile} color='#3b82f6' />
+                <ShadeChart
+                  data={selectedRoute.shadeProfile}
+                  color='#3b82f6'
+                  startTime={selectedRoute.departureTime}
+                  timeZoneLabel={timeZoneLabel}
+                />
               </div>
               <p className="text-xs text-slate-400 mt-2 text-center italic">
                 *Higher percentage means more shade (cooler).
               </p>
             </div>
 
+            {/* Legs */}
+            {selectedRoute.legs && (
+              <div className="mb-8">
+                <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
+                  <MapPin size={18} className="text-blue-600" />
+                  Stops
+                </h3>
+                <div className="space-y-2">
+                  {selectedRoute.legs.map((leg, idx) => (
+                    <div key={idx} className="flex items-center gap-3 p-3 rounded-lg border border-slate-100 bg-slate-50">
+                      <span
+                        className="w-3 h-3 rounded-full shrink-0"
+                        style={{ backgroundColor: LEG_COLORS[idx % LEG_COLORS.length] }}
+                      ></span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-slate-800 truncate" title={leg.to}>{leg.to}</p>
+                        <p className="text-xs text-slate-500">
+                          {leg.departure} → {leg.arrival} · {leg.distance}
+                          {leg.dwellMinutes > 0 && ` · stay ${leg.dwellMinutes} min`}
+                        </p>
+                      </div>
+                      <span className={clsx("text-xs font-bold px-2 py-1 rounded-full border whitespace-nowrap", getShadeColor(leg.averageShadePercentage))}>
+                        {leg.averageShadePercentage}% Shade
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Steps */}
             <div>
               <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
@@ -145,8 +295,17 @@ export const RouteList: React.FC<RouteListProps> = ({ routes, selectedRouteId: c
                       <div>
                         <p className="text-sm text-slate-600 font-medium">
                           {step.shadeQuality === 'shady' ? 'Shaded' : step.shadeQuality === 'partial' ? 'Partially Shaded' : 'Exposed to Sun'}
+                          {step.shadePercentage !== undefined && (
+                            <span className="ml-1 text-xs font-normal text-slate-400">· {step.shadePercentage}% shade</span>
+                          )}
                         </p>
                         <p className="text-xs text-slate-500 mt-0.5">{step.description}</p>
+                        {step.sidewalkAdvice && (
+                          <p className="text-xs text-emerald-700 font-medium mt-1 flex items-center gap-1">
+                            <ArrowLeftRight size={12} className="shrink-0" />
+                            {step.sidewalkAdvice}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -1,16 +1,23 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Clock } from 'lucide-react';
-import { SearchParams, Coordinates } from '../types';
+import { Search, Clock, Umbrella, Plus, X, Coffee, Repeat, ArrowRight, CalendarDays } from 'lucide-react';
+import { SearchParams, Coordinates, Waypoint, LoopTarget, TimeMode, SavedPlace } from '../types';
 import { PlaceInput } from './PlaceInput';
 
+// Google Directions allows more, but longer errand lists get unwieldy on a walk
+const MAX_STOPS = 5;
+
 interface SearchFormProps {
   onSearch: (params: SearchParams) => void;
   isLoading: boolean;
+  savedPlaces?: SavedPlace[];
 }
 
-export const SearchForm: React.FC<SearchFormProps> = ({ onSearch, isLoading }) => {
+export const SearchForm: React.FC<SearchFormProps> = ({ onSearch, isLoading, savedPlaces }) => {
   const [origin, setOrigin] = useState('');
   const [destination, setDestination] = useState('');
+  const [stops, setStops] = useState<Waypoint[]>([]);
+  const [isLoop, setIsLoop] = useState(false);
+  const [loopTarget, setLoopTarget] = useState<LoopTarget>({ value: 30, unit: 'min' });
   const [userLocation, setUserLocation] = useState<Coordinates | undefined>(undefined);
   
   // Default to nearest hour
@@ -18,6 +25,13 @@ export const SearchForm: React.FC<SearchFormProps> = ({ onSearch, isLoading }) =
     const now = new Date();
     return `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
   });
+  // Calendar day of the trip, read at the destination like the time
+  const [date, setDate] = useState(() => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  });
+  const [timeMode, setTimeMode] = useState<TimeMode>('depart');
+  const [shadePreference, setShadePreference] = useState(0.5); // 0 = shortest, 1 = max shade
 
   useEffect(() => {
     // Get user location on mount if available
@@ -36,11 +50,20 @@ export const SearchForm: React.FC<SearchFormProps> = ({ onSearch, isLoading }) =
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (origin && destination && time) {
-      onSearch({ origin, destination, time });
+    if (isLoop) {
+      if (origin && time && loopTarget.value > 0) {
+        onSearch({ origin, destination: '', date, time, timeMode, shadePreference, loopTarget });
+      }
+    } else if (origin && destination && time) {
+      const waypoints = stops.filter(stop => stop.location.trim());
+      onSearch({ origin, destination, date, time, timeMode, shadePreference, waypoints: waypoints.length ? waypoints : undefined });
     }
   };
 
+  const updateStop = (index: number, update: Partial<Waypoint>) => {
+    setStops(prev => prev.map((stop, i) => (i === index ? { ...stop, ...update } : stop)));
+  };
+
   const handleUseCurrentLocation = () => {
     if (userLocation) {
         setOrigin(`${userLocation.lat.toFixed(5)}, ${userLocation.lng.toFixed(5)}`);
@@ -63,6 +86,24 @@ export const SearchForm: React.FC<SearchFormProps> = ({ onSearch, isLoading }) =
         Find a Shady Route
       </h2>
       <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex bg-slate-100 rounded-xl p-1 text-sm font-medium">
+          {[
+            { loop: false, label: 'A to B', icon: <ArrowRight size={14} /> },
+            { loop: true, label: 'Loop Walk', icon: <Repeat size={14} /> }
+          ].map(option => (
+            <button
+              key={option.label}
+              type="button"
+              onClick={() => setIsLoop(option.loop)}
+              className={`flex-1 py-2 rounded-lg flex items-center justify-center gap-1 transition-all ${
+                isLoop === option.loop ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {option.icon} {option.label}
+            </button>
+          ))}
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <PlaceInput 
             label="From"
@@ -70,29 +111,160 @@ export const SearchForm: React.FC<SearchFormProps> = ({ onSearch, isLoading }) =
             onChange={setOrigin}
             placeholder="e.g. Times Square or Current Location"
             userLocation={userLocation}
+            savedPlaces={savedPlaces}
             onUseCurrentLocation={handleUseCurrentLocation}
           />
-          <PlaceInput 
-            label="To"
-            value={destination}
-            onChange={setDestination}
-            placeholder="e.g. Central Park Zoo"
-            userLocation={userLocation}
+          {isLoop ? (
+            <div className="space-y-1">
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider ml-1">Walk For</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={loopTarget.unit === 'min' ? 5 : 0.5}
+                  max={loopTarget.unit === 'min' ? 180 : 15}
+                  step={loopTarget.unit === 'min' ? 5 : 0.5}
+                  value={loopTarget.value}
+                  onChange={(e) => setLoopTarget({ ...loopTarget, value: parseFloat(e.target.value) || 0 })}
+                  className="flex-1 min-w-0 px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-slate-700"
+                  required
+                />
+                <select
+                  value={loopTarget.unit}
+                  onChange={(e) => setLoopTarget(e.target.value === 'km' ? { value: 2, unit: 'km' } : { value: 30, unit: 'min' })}
+                  className="px-3 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none text-slate-700"
+                >
+                  <option value="min">min</option>
+                  <option value="km">km</option>
+                </select>
+              </div>
+            </div>
+          ) : (
+            <PlaceInput 
+              label="To"
+              value={destination}
+              onChange={setDestination}
+              placeholder="e.g. Central Park Zoo"
+              userLocation={userLocation}
+              savedPlaces={savedPlaces}
+            />
+          )}
+        </div>
+
+        {!isLoop && stops.map((stop, index) => (
+          <div key={index} className="flex gap-2 items-end">
+            <div className="flex-1">
+              <PlaceInput
+                label={`Stop ${index + 1}`}
+                value={stop.location}
+                onChange={(location) => updateStop(index, { location })}
+                placeholder="e.g. Pharmacy or Post Office"
+                userLocation={userLocation}
+                savedPlaces={savedPlaces}
+              />
+            </div>
+            <div className="space-y-1 w-24">
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider ml-1 flex items-center gap-1">
+                <Coffee size={12} /> Stay
+              </label>
+              <div className="relative">
+                <input
+                  type="number"
+                  min={0}
+                  max={240}
+                  value={stop.dwellMinutes}
+                  onChange={(e) => updateStop(index, { dwellMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-full pl-3 pr-9 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-slate-700"
+                  title="Minutes spent at this stop"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-slate-400">min</span>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => setStops(prev => prev.filter((_, i) => i !== index))}
+              className="p-3 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-xl transition-colors"
+              title="Remove stop"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        ))}
+
+        {!isLoop && stops.length < MAX_STOPS && (
+          <button
+            type="button"
+            onClick={() => setStops(prev => [...prev, { location: '', dwellMinutes: 10 }])}
+            className="text-sm font-medium text-blue-600 hover:text-blue-700 flex items-center gap-1"
+          >
+            <Plus size={14} /> Add a stop
+          </button>
+        )}
+
+        <div className="space-y-1">
+          <div className="flex justify-between items-center">
+            <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider ml-1 flex items-center gap-1">
+              <Umbrella size={12} /> Shade Priority
+            </label>
+            <span className="text-xs font-medium text-slate-400">
+              {shadePreference < 0.25 ? 'Shortest' : shadePreference < 0.75 ? 'Balanced' : 'Max Shade'}
+            </span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={shadePreference}
+            onChange={(e) => setShadePreference(parseFloat(e.target.value))}
+            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            title="Trade extra walking distance for shade"
           />
         </div>
 
         <div className="flex flex-col md:flex-row gap-4 items-end">
           <div className="space-y-1 flex-1">
-            <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider ml-1">Start Time</label>
-            <div className="relative">
-              <Clock className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
-              <input
-                type="time"
-                value={time}
-                onChange={(e) => setTime(e.target.value)}
-                className="w-full pl-10 pr-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-slate-700"
-                required
-              />
+            <div className="flex justify-between items-center">
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider ml-1">
+                {timeMode === 'arrive' ? 'Arrive By' : 'Start Time'}
+              </label>
+              <div className="flex bg-slate-100 rounded-lg p-0.5 text-[11px] font-medium">
+                {(['depart', 'arrive'] as TimeMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setTimeMode(mode)}
+                    className={`px-2 py-0.5 rounded-md transition-all ${
+                      timeMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                    }`}
+                  >
+                    {mode === 'depart' ? 'Depart' : 'Arrive'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <CalendarDays className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+                <input
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="w-full pl-10 pr-2 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-slate-700"
+                  title="Local date at the destination"
+                  required
+                />
+              </div>
+              <div className="relative flex-1">
+                <Clock className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+                <input
+                  type="time"
+                  value={time}
+                  onChange={(e) => setTime(e.target.value)}
+                  className="w-full pl-10 pr-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-slate-700"
+                  title="Local time at the destination"
+                  required
+                />
+              </div>
             </div>
           </div>
           
@@ -105,7 +277,7 @@ export const SearchForm: React.FC<SearchFormProps> = ({ onSearch, isLoading }) =
                 : 'bg-blue-600 hover:bg-blue-700 hover:shadow-lg active:scale-95'
               }`}
           >
-            {isLoading ? 'Calculating Sun Angles...' : 'Find Routes'}
+            {isLoading ? 'Calculating Sun Angles...' : isLoop ? 'Find Loops' : 'Find Routes'}
           </button>
         </div>
       </form>
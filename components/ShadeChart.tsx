@@ -5,19 +5,31 @@ import { RouteOption } from '../types';
 interface ShadeChartProps {
   data: RouteOption['shadeProfile'];
   color?: string;
+  startTime?: string; // HH:MM the profile starts at; labels fall back to minutes from the start
+  timeZoneLabel?: string | null; // Zone of startTime, when it isn't the browser's
 }
 
-export const ShadeChart: React.FC<ShadeChartProps> = ({ data, color = "#3b82f6" }) => {
+// Wall-clock time a number of minutes after an HH:MM time, wrapping past midnight
+const addMinutes = (clock: string, minutes: number) => {
+  const [hours, mins] = clock.split(':').map(Number);
+  const total = (((hours * 60 + mins + Math.round(minutes)) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+export const ShadeChart: React.FC<ShadeChartProps> = ({ data, color = "#3b82f6", startTime, timeZoneLabel }) => {
   // Normalize data for chart
   const chartData = data.map(point => ({
-    time: `${point.timeOffset}m`,
+    time: startTime ? addMinutes(startTime, point.timeOffset) : `${point.timeOffset}m`,
     shade: point.shadeLevel,
     exposure: 100 - point.shadeLevel
   }));
 
   return (
     <div className="h-48 w-full mt-4 bg-white rounded-xl p-2 border border-slate-100">
-      <h4 className="text-xs font-semibold text-slate-500 mb-2 uppercase tracking-wide ml-2">Sun Exposure Timeline</h4>
+      <h4 className="text-xs font-semibold text-slate-500 mb-2 uppercase tracking-wide ml-2">
+        Sun Exposure Timeline
+        {startTime && timeZoneLabel && <span className="ml-1 normal-case font-medium text-slate-400">({timeZoneLabel})</span>}
+      </h4>
       <ResponsiveContainer width="100%" height="100%">
         <AreaChart
           data={chartData}
@@ -0,0 +1,52 @@
+import React from 'react';
+
+interface SunExposureChartProps {
+  hourly: number[][]; // [month][hour] average minutes of direct sun
+  timeZoneLabel?: string | null; // Zone the hours are read in, when it isn't the browser's
+}
+
+const MONTH_LABELS = ['J', 'F', 'M', 'A', 'M', 'J', 'J', 'A', 'S', 'O', 'N', 'D'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Slate for no sun through to orange for a full hour of it
+const cellColor = (minutes: number) =>
+  minutes <= 0 ? '#f1f5f9' : `rgba(249, 115, 22, ${0.15 + 0.85 * Math.min(1, minutes / 60)})`;
+
+export const SunExposureChart: React.FC<SunExposureChartProps> = ({ hourly, timeZoneLabel }) => {
+  // Only hours that get sun in some month, so the grid isn't mostly night
+  const sunnyHours = Array.from({ length: 24 }, (_, hour) => hour).filter(hour => hourly.some(month => month[hour] > 0));
+  if (sunnyHours.length === 0) return null;
+
+  return (
+    <div className="w-full bg-white rounded-xl p-2 border border-slate-100">
+      <h4 className="text-xs font-semibold text-slate-500 mb-2 uppercase tracking-wide ml-2">
+        Direct Sun by Month and Hour
+        {timeZoneLabel && <span className="ml-1 normal-case font-medium text-slate-400">({timeZoneLabel})</span>}
+      </h4>
+      <div
+        className="grid gap-px"
+        style={{ gridTemplateColumns: `1rem repeat(${sunnyHours.length}, minmax(0, 1fr))` }}
+      >
+        {hourly.map((month, m) => (
+          <React.Fragment key={m}>
+            <span className="text-[10px] text-slate-400 leading-4">{MONTH_LABELS[m]}</span>
+            {sunnyHours.map(hour => (
+              <div
+                key={hour}
+                className="h-4 rounded-sm"
+                style={{ backgroundColor: cellColor(month[hour]) }}
+                title={`${MONTH_NAMES[m]}, ${String(hour).padStart(2, '0')}:00: ${Math.round(month[hour])} min of sun`}
+              />
+            ))}
+          </React.Fragment>
+        ))}
+        <span />
+        {sunnyHours.map(hour => (
+          <span key={hour} className="text-[9px] text-slate-400 text-center">
+            {hour % 3 === 0 ? hour : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
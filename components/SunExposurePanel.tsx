@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Download, Loader2, MapPin, Sparkles, Sunrise, Sunset } from 'lucide-react';
+import { SunExposureReport, sunExposureToCsv } from '../services/sunExposure';
+import { getTimeZoneLabel } from '../services/tripTime';
+import { SunExposureChart } from './SunExposureChart';
+
+interface SunExposurePanelProps {
+    // Resolves to null when an address can't be found or features fail to load
+    onCompute: (from: string, to: string, year: number) => Promise<SunExposureReport | null>;
+}
+
+export const SunExposurePanel: React.FC<SunExposurePanelProps> = ({ onCompute }) => {
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const [year, setYear] = useState(new Date().getFullYear());
+    const [loading, setLoading] = useState(false);
+    const [failed, setFailed] = useState(false);
+    const [report, setReport] = useState<SunExposureReport | null>(null);
+    const [selectedDate, setSelectedDate] = useState('');
+
+    const runReport = async () => {
+        setLoading(true);
+        setFailed(false);
+        try {
+            const result = await onCompute(from, to, year);
+            setReport(result);
+            setFailed(!result);
+            // Same calendar day as today, in the report's year
+            if (result) setSelectedDate(`${year}${new Date().toISOString().slice(4, 10)}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleDownload = () => {
+        if (!report) return;
+        const url = URL.createObjectURL(new Blob([sunExposureToCsv(report)], { type: 'text/csv' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `sun-exposure-${report.year}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const day = report?.days.find(d => d.date === selectedDate) ?? report?.days[0];
+    const averageHours = report && report.days.length > 0
+        ? report.days.reduce((sum, d) => sum + d.sunHours, 0) / report.days.length
+        : 0;
+    const timeZoneLabel = report ? getTimeZoneLabel(report.timeZone, new Date()) : null;
+
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 p-3 mb-4 shadow-sm">
+            <div className="flex items-center gap-2 mb-2">
+                <MapPin size={14} className="text-orange-500" />
+                <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Sun through the year</span>
+            </div>
+
+            <div className="space-y-2 text-xs">
+                <input
+                    type="text"
+                    value={from}
+                    onChange={(e) => setFrom(e.target.value)}
+                    placeholder="Address, e.g. a café terrace"
+                    className="w-full px-2 py-1.5 rounded-lg border border-slate-200 focus:border-blue-400 focus:outline-none"
+                />
+                <input
+                    type="text"
+                    value={to}
+                    onChange={(e) => setTo(e.target.value)}
+                    placeholder="Along the street to... (optional)"
+                    className="w-full px-2 py-1.5 rounded-lg border border-slate-200 focus:border-blue-400 focus:outline-none"
+                />
+                <div className="flex items-center gap-2">
+                    <input
+                        type="number"
+                        value={year}
+                        onChange={(e) => setYear(Number(e.target.value))}
+                        className="w-20 px-2 py-1.5 rounded-lg border border-slate-200 focus:border-blue-400 focus:outline-none"
+                    />
+                    <button
+                        onClick={runReport}
+                        disabled={loading || !from.trim()}
+                        className="flex-1 px-3 py-1.5 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:opacity-60 flex items-center justify-center gap-1"
+                    >
+                        {loading ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+                        Analyse
+                    </button>
+                </div>
+            </div>
+            {failed && <p className="mt-2 text-xs text-red-600">Couldn't analyse that place. Check the address and try again.</p>}
+
+            {report && day && (
+                <div className="mt-3 space-y-3">
+                    <div className="flex items-center gap-2 text-xs">
+                        <input
+                            type="date"
+                            value={day.date}
+                            min={report.days[0].date}
+                            max={report.days[report.days.length - 1].date}
+                            onChange={(e) => setSelectedDate(e.target.value)}
+                            className="px-2 py-1 rounded-lg border border-slate-200 focus:outline-none"
+                        />
+                        <span className="text-slate-600">
+                            <span className="font-semibold">{day.sunHours} h</span> of {day.daylightHours} h daylight
+                        </span>
+                    </div>
+                    <div className="flex items-center gap-4 text-xs text-slate-600">
+                        {day.firstSun ? (
+                            <>
+                                <span className="flex items-center gap-1"><Sunrise size={12} className="text-orange-500" />{day.firstSun}</span>
+                                <span className="flex items-center gap-1"><Sunset size={12} className="text-orange-500" />{day.lastSun}</span>
+                            </>
+                        ) : (
+                            <span className="text-slate-400">No direct sun on this day</span>
+                        )}
+                        <span className="ml-auto text-slate-400">{averageHours.toFixed(1)} h a day over the year</span>
+                    </div>
+
+                    <SunExposureChart hourly={report.hourly} timeZoneLabel={timeZoneLabel} />
+
+                    <div className="flex items-center justify-between">
+                        <p className="text-[10px] text-slate-400 italic">*Clear skies; clouds aren't included.</p>
+                        <button
+                            onClick={handleDownload}
+                            className="px-3 py-1.5 rounded-lg border border-slate-200 text-xs font-medium text-slate-600 hover:border-blue-300 hover:text-blue-600 flex items-center gap-1"
+                        >
+                            <Download size={12} />
+                            CSV
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
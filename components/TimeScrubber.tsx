@@ -3,7 +3,8 @@ import { Play, Pause, RotateCcw, Clock } from 'lucide-react';
 import clsx from 'clsx';
 
 interface TimeScrubberProps {
-    currentTime: string; // HH:MM format
+    currentTime: string; // HH:MM format, local time of the trip's time zone
+    timeZoneLabel?: string | null; // Shown when the trip's zone isn't the browser's
     onTimeChange: (time: string) => void;
     isPlaying?: boolean;
     onPlayToggle?: (playing: boolean) => void;
@@ -11,6 +12,7 @@ interface TimeScrubberProps {
 
 export const TimeScrubber: React.FC<TimeScrubberProps> = ({
     currentTime,
+    timeZoneLabel,
     onTimeChange,
     isPlaying = false,
     onPlayToggle
@@ -109,6 +111,7 @@ export const TimeScrubber: React.FC<TimeScrubberProps> = ({
                 </div>
                 <span className="text-sm font-mono font-bold text-sky-900">
                     {formatTime(internalTime)}
+                    {timeZoneLabel && <span className="ml-1 text-[10px] font-sans font-medium text-sky-500">{timeZoneLabel}</span>}
                 </span>
             </div>
 
@@ -1,82 +1,89 @@
 import React from 'react';
-import { Sun, Cloud as CloudIcon, CloudRain, Thermometer } from 'lucide-react';
+import { Sun, Cloud as CloudIcon, Thermometer, Droplets, Radio, SlidersHorizontal } from 'lucide-react';
 import clsx from 'clsx';
+import { WeatherConditions } from '../services/weatherService';
 
 interface WeatherControlsProps {
-    cloudCoverage: number;
-    onChange: (coverage: number) => void;
-    debugMode?: boolean;
-    useSummerDate?: boolean;
-    onSummerToggle?: (enabled: boolean) => void;
+    cloudCoverage: number; // Effective cover used by the analysis
+    conditions?: WeatherConditions | null; // Provider weather for the trip's place and time
+    override: number | null; // Manual cloud cover, null = use live weather
+    onOverrideChange: (coverage: number | null) => void;
+    providerName?: string;
 }
 
 export const WeatherControls: React.FC<WeatherControlsProps> = ({
     cloudCoverage,
-    onChange,
-    debugMode = false,
-    useSummerDate = false,
-    onSummerToggle
+    conditions,
+    override,
+    onOverrideChange,
+    providerName
 }) => {
+    const isManual = override !== null;
+
     return (
         <div className="bg-white rounded-xl border border-slate-200 p-3 mb-4 shadow-sm">
             <div className="flex justify-between items-center mb-2">
                 <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Weather Conditions</span>
                 <span className="text-xs font-medium text-slate-400">
-                    {cloudCoverage < 30 ? 'Sunny' : cloudCoverage < 70 ? 'Partly Cloudy' : 'Overcast'}
+                    {cloudCoverage < 30 ? 'Sunny' : cloudCoverage < 70 ? 'Partly Cloudy' : 'Overcast'} · {Math.round(cloudCoverage)}% cloud
                 </span>
             </div>
-            <div className="flex bg-slate-100 p-1 rounded-lg gap-1">
-                <button
-                    onClick={() => onChange(0)}
-                    className={clsx(
-                        "flex-1 flex items-center justify-center gap-1 py-1.5 rounded-md text-xs font-medium transition-all",
-                        cloudCoverage < 30 ? "bg-white text-orange-600 shadow-sm" : "text-slate-500 hover:bg-slate-200"
-                    )}
-                >
-                    <Sun size={14} /> Sunny
-                </button>
-                <button
-                    onClick={() => onChange(50)}
-                    className={clsx(
-                        "flex-1 flex items-center justify-center gap-1 py-1.5 rounded-md text-xs font-medium transition-all",
-                        cloudCoverage >= 30 && cloudCoverage < 70 ? "bg-white text-blue-600 shadow-sm" : "text-slate-500 hover:bg-slate-200"
-                    )}
-                >
-                    <CloudIcon size={14} /> Partly
-                </button>
-                <button
-                    onClick={() => onChange(100)}
-                    className={clsx(
-                        "flex-1 flex items-center justify-center gap-1 py-1.5 rounded-md text-xs font-medium transition-all",
-                        cloudCoverage >= 70 ? "bg-white text-slate-700 shadow-sm" : "text-slate-500 hover:bg-slate-200"
-                    )}
-                >
-                    <CloudRain size={14} /> Cloudy
-                </button>
-            </div>
 
-            {/* July Mode Toggle (Debug only) */}
-            {debugMode && onSummerToggle && (
-                <div className="mt-3 pt-3 border-t border-slate-100">
+            {/* Provider conditions */}
+            {conditions ? (
+                <div className={clsx("grid grid-cols-4 gap-1 text-xs", isManual && "opacity-50")} title={providerName}>
+                    <span className="flex items-center justify-center gap-1 bg-slate-50 rounded-md py-1.5 text-slate-600">
+                        <CloudIcon size={12} /> {Math.round(conditions.cloudCover)}%
+                    </span>
+                    <span className="flex items-center justify-center gap-1 bg-slate-50 rounded-md py-1.5 text-slate-600">
+                        <Thermometer size={12} /> {Math.round(conditions.temperature)}°C
+                    </span>
+                    <span className="flex items-center justify-center gap-1 bg-slate-50 rounded-md py-1.5 text-slate-600">
+                        <Sun size={12} /> UV {conditions.uvIndex.toFixed(0)}
+                    </span>
+                    <span className="flex items-center justify-center gap-1 bg-slate-50 rounded-md py-1.5 text-slate-600">
+                        <Droplets size={12} /> {Math.round(conditions.humidity)}%
+                    </span>
+                </div>
+            ) : (
+                <p className="text-[10px] text-slate-400">Live weather appears once a place and time are known.</p>
+            )}
+
+            {/* Live vs manual cloud cover */}
+            <div className="mt-2 flex items-center gap-2">
+                <div className="flex bg-slate-100 p-1 rounded-lg gap-1">
+                    <button
+                        onClick={() => onOverrideChange(null)}
+                        className={clsx(
+                            "flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium transition-all",
+                            !isManual ? "bg-white text-blue-600 shadow-sm" : "text-slate-500 hover:bg-slate-200"
+                        )}
+                    >
+                        <Radio size={12} /> Live
+                    </button>
                     <button
-                        onClick={() => onSummerToggle(!useSummerDate)}
+                        onClick={() => onOverrideChange(Math.round(cloudCoverage))}
                         className={clsx(
-                            "w-full flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-semibold transition-all",
-                            useSummerDate
-                                ? "bg-amber-100 text-amber-700 border border-amber-200"
-                                : "bg-slate-50 text-slate-500 border border-slate-200 hover:bg-slate-100"
+                            "flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium transition-all",
+                            isManual ? "bg-white text-slate-700 shadow-sm" : "text-slate-500 hover:bg-slate-200"
                         )}
                     >
-                        <Thermometer size={14} />
-                        {useSummerDate ? '☀️ July 20th Mode ON' : 'Enable July Mode'}
+                        <SlidersHorizontal size={12} /> Manual
                     </button>
-                    {useSummerDate && (
-                        <p className="text-[10px] text-amber-600 text-center mt-1">
-                            Simulating summer sun position (July 20th)
-                        </p>
-                    )}
                 </div>
-            )}
+                {isManual && (
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        step={5}
+                        value={override}
+                        onChange={(e) => onOverrideChange(Number(e.target.value))}
+                        className="flex-1 accent-blue-600"
+                        aria-label="Cloud cover"
+                    />
+                )}
+            </div>
         </div>
     );
 };
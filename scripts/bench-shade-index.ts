@@ -0,0 +1,102 @@
+import { buildShadowIndex, computeShadows, densifyPath, getShadeAtPoint, getSunPosition, ShadeFeature } from '../services/shadeEngine';
+import { Coordinates } from '../types';
+
+// Benchmark: linear shadow scan vs grid-indexed lookup on a synthetic city
+// Run with: npx tsx scripts/bench-shade-index.ts
+
+const ORIGIN = { lat: 47.1585, lng: 27.6014 }; // Iași
+const BLOCKS = 60; // 60x60 city blocks
+const BLOCK_SIZE = 0.0008; // ~90 m
+const BUILDING_SIZE = 0.0005; // ~55 m, leaving streets in between
+
+// Deterministic pseudo-random numbers so runs are comparable
+let seed = 42;
+const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return (seed - 1) / 2147483646;
+};
+
+const buildSyntheticCity = (): ShadeFeature[] => {
+    const features: ShadeFeature[] = [];
+    let id = 1;
+
+    for (let row = 0; row < BLOCKS; row++) {
+        for (let col = 0; col < BLOCKS; col++) {
+            const south = ORIGIN.lat + row * BLOCK_SIZE;
+            const west = ORIGIN.lng + col * BLOCK_SIZE;
+
+            // One building per block
+            features.push({
+                id: id++,
+                type: 'building',
+                height: 8 + random() * 40,
+                foliageDensity: 1,
+                coordinates: [
+                    { lat: south, lng: west },
+                    { lat: south + BUILDING_SIZE, lng: west },
+                    { lat: south + BUILDING_SIZE, lng: west + BUILDING_SIZE },
+                    { lat: south, lng: west + BUILDING_SIZE }
+                ]
+            });
+
+            // A couple of street trees along the block edge
+            for (let t = 0; t < 2; t++) {
+                const lat = south + BUILDING_SIZE + 0.00008;
+                const lng = west + random() * BUILDING_SIZE;
+                const r = 0.00003;
+                features.push({
+                    id: id++,
+                    type: 'tree',
+                    height: 8,
+                    foliageDensity: 0.9,
+                    coordinates: [
+                        { lat: lat + r, lng: lng + r },
+                        { lat: lat - r, lng: lng + r },
+                        { lat: lat - r, lng: lng - r },
+                        { lat: lat + r, lng: lng - r }
+                    ]
+                });
+            }
+        }
+    }
+
+    return features;
+};
+
+const time = (label: string, fn: () => number[]) => {
+    const start = performance.now();
+    const result = fn();
+    const elapsed = performance.now() - start;
+    console.log(`${label}: ${elapsed.toFixed(1)} ms`);
+    return { result, elapsed };
+};
+
+const runBenchmark = () => {
+    console.log("--- Shadow Index Benchmark ---");
+    const features = buildSyntheticCity();
+    console.log(`Synthetic city: ${features.length} features`);
+
+    // Diagonal walk across town, sampled every 5 m
+    const route: Coordinates[] = densifyPath([
+        { lat: ORIGIN.lat + BLOCK_SIZE * 5 + BUILDING_SIZE + 0.00015, lng: ORIGIN.lng },
+        { lat: ORIGIN.lat + BLOCK_SIZE * 5 + BUILDING_SIZE + 0.00015, lng: ORIGIN.lng + BLOCK_SIZE * 30 },
+        { lat: ORIGIN.lat + BLOCK_SIZE * 40, lng: ORIGIN.lng + BLOCK_SIZE * 30 + BUILDING_SIZE + 0.00015 }
+    ], 5);
+    console.log(`Route samples: ${route.length}`);
+
+    const sunPos = getSunPosition(ORIGIN.lat, ORIGIN.lng, new Date("2025-06-20T14:00:00Z"));
+    const shadows = computeShadows(features, sunPos);
+
+    const indexBuild = performance.now();
+    const index = buildShadowIndex(features, sunPos);
+    console.log(`Index build (incl. shadow projection): ${(performance.now() - indexBuild).toFixed(1)} ms`);
+
+    const naive = time("Linear scan", () => route.map(p => getShadeAtPoint(p, shadows).shadeLevel));
+    const indexed = time("Grid index ", () => route.map(p => getShadeAtPoint(p, index).shadeLevel));
+
+    const mismatches = naive.result.filter((level, i) => level !== indexed.result[i]).length;
+    console.log(`Speedup: ${(naive.elapsed / indexed.elapsed).toFixed(1)}x`);
+    console.log("Identical results:", mismatches === 0 ? "PASS" : `FAIL (${mismatches} differ)`);
+};
+
+runBenchmark();
@@ -0,0 +1,14 @@
+// PASS/FAIL reporting shared by the test scripts
+
+/**
+ * Logs a labelled result, with a detail to help debug failures
+ */
+export const check = (label: string, ok: boolean, detail = '') => console.log(`${label}:`, ok ? "PASS" : `FAIL ${detail}`);
+
+/**
+ * Checks a number is within a tolerance of the expected value, logging both
+ */
+export const checkClose = (label: string, actual: number, expected: number, tolerance = 0.01, unit = '') => {
+    const ok = Math.abs(actual - expected) <= tolerance;
+    console.log(`${label}: ${actual.toFixed(2)}${unit} (expected ${expected})`, ok ? "PASS" : "FAIL");
+};
@@ -0,0 +1,92 @@
+import { computeCommuteCalendar, getCommuteDays } from '../services/commutePlanner';
+import { applySeasonalFoliage, removeSeasonalFoliage, ShadeFeature } from '../services/shadeEngine';
+import { offsetByMeters } from '../services/geoProjection';
+import { formatZonedTime } from '../services/tripTime';
+import { CommuteSchedule } from '../types';
+import { check } from './check';
+
+// Checks commute scheduling and that the shadiest route flips with the seasons
+// Run with: npx tsx scripts/test-commute.ts
+
+const CENTER = { lat: 47.1600, lng: 27.5900 };
+const TIME_ZONE = 'Europe/Bucharest';
+
+// Two parallel 400 m streets running north, 200 m apart
+const street = (east: number) => Array.from({ length: 9 }, (_, i) => offsetByMeters(CENTER, east, i * 50));
+
+// A strip of woodland along each street, wider than the street on both sides
+const woodland = (id: number, east: number, leafType: ShadeFeature['leafType'], foliageDensity: number): ShadeFeature => ({
+    id,
+    type: 'forest',
+    height: 15,
+    foliageDensity,
+    leafType,
+    coordinates: [
+        offsetByMeters(CENTER, east - 40, -40),
+        offsetByMeters(CENTER, east + 40, -40),
+        offsetByMeters(CENTER, east + 40, 440),
+        offsetByMeters(CENTER, east - 40, 440)
+    ]
+});
+
+// Dense deciduous trees on one street, thinner pines on the other
+const FEATURES = [woodland(1, 0, 'broadleaved', 0.85), woodland(2, 200, 'needleleaved', 0.5)];
+
+const ROUTES = [
+    { id: 'route-0', name: 'Oak Avenue', points: street(0), durationSeconds: 300 },
+    { id: 'route-1', name: 'Pine Street', points: street(200), durationSeconds: 300 }
+];
+
+const WEEKDAYS: CommuteSchedule = {
+    weekdays: [1, 2, 3, 4, 5],
+    trips: [{ time: '17:45', direction: 'return' }, { time: '08:30', direction: 'outbound' }],
+    weeks: 2
+};
+
+const runTests = async () => {
+    console.log("--- Testing Schedules ---");
+    const wednesday = new Date(2026, 9, 21, 14);
+    const days = getCommuteDays(WEEKDAYS, wednesday, TIME_ZONE);
+    check("Two weeks of weekdays", days.length === 10, `${days.length}`);
+    check("Starts on the start date", days[0].date.getDate() === 21);
+    check("Skips weekends", days.every(day => day.date.getDay() !== 0 && day.date.getDay() !== 6));
+    check("Trips run in time order", days.every(day =>
+        formatZonedTime(day.departures[0], TIME_ZONE) === '08:30' && formatZonedTime(day.departures[1], TIME_ZONE) === '17:45'));
+    check("Times stay local across the clock change", formatZonedTime(days[days.length - 1].departures[0], TIME_ZONE) === '08:30');
+    check("Weeks are capped", getCommuteDays({ ...WEEKDAYS, weeks: 100 }, wednesday, TIME_ZONE).length === 26 * 5);
+
+    console.log("--- Testing Seasonal Foliage ---");
+    const july = applySeasonalFoliage(FEATURES, new Date(2026, 6, 15));
+    const january = applySeasonalFoliage(removeSeasonalFoliage(july), new Date(2026, 0, 15));
+    check("Removing the season restores the density",
+        removeSeasonalFoliage(january).every((f, i) => Math.abs(f.foliageDensity - FEATURES[i].foliageDensity) < 1e-9));
+    check("Re-seasoned oaks lose their leaves", january[0].foliageDensity < 0.2, `${january[0].foliageDensity}`);
+
+    console.log("--- Testing Calendar ---");
+    // Late summer into winter, from features seasoned for July as the app would hold them
+    const schedule: CommuteSchedule = { ...WEEKDAYS, trips: [{ time: '12:30', direction: 'outbound' }], weeks: 20 };
+    const calendar = await computeCommuteCalendar(ROUTES, schedule, new Date(2026, 7, 3), TIME_ZONE, 0, july);
+    const first = calendar.days[0];
+    const last = calendar.days[calendar.days.length - 1];
+
+    check("One day per scheduled weekday", calendar.days.length === 100, `${calendar.days.length}`);
+    check("Oaks are shadiest in August", first.winnerId === 'route-0', first.winnerId);
+    check("Pines are shadiest in December", last.winnerId === 'route-1', last.winnerId);
+    check("The recommendation flips once", calendar.flips === 1, `${calendar.flips}`);
+    const flip = calendar.days.find(day => day.flipped);
+    check("The flip comes in autumn", !!flip && flip.date.getMonth() >= 8 && flip.date.getMonth() <= 10, flip?.date.toDateString());
+
+    const returnTrip = await computeCommuteCalendar(
+        ROUTES, { ...schedule, trips: [{ time: '12:30', direction: 'return' }], weeks: 1 }, new Date(2026, 7, 3), TIME_ZONE, 0, july
+    );
+    check("Return trips are analysed too", returnTrip.days[0].trips[0].direction === 'return'
+        && returnTrip.days[0].trips[0].routes.length === 2);
+
+    // Timers only run if the calendar hands control back between days
+    let timerRan = false;
+    setTimeout(() => { timerRan = true; }, 0);
+    await computeCommuteCalendar(ROUTES, { ...schedule, weeks: 1 }, new Date(2026, 7, 3), TIME_ZONE, 0, july);
+    check("The page stays responsive while planning", timerRan);
+};
+
+runTests();
@@ -0,0 +1,201 @@
+import { readFileSync } from 'fs';
+import { parseOsmPbf } from '../services/osmExtract';
+import { createLocalExtractSource, OsmElement, setFeatureSource } from '../services/featureSource';
+import { applySeasonalFoliage, fetchShadeFeatures, parseOverpassData, ShadeFeature } from '../services/shadeEngine';
+import { fetchWalkableGraph } from '../services/routingEngine';
+import { check } from './check';
+
+// Checks that local OSM extracts produce the same features as Overpass JSON
+// Run with: npx tsx scripts/test-feature-sources.ts
+
+const BBOX = { south: 47.1580, west: 27.6000, north: 47.1620, east: 27.6060 };
+const DATE = new Date("2025-07-15T12:00:00Z");
+
+// What Overpass returns for the bbox: a building, a courtyard block (multipolygon),
+// a tree and a tree row, plus the nodes they reference
+const OVERPASS_ELEMENTS: OsmElement[] = [
+    { type: 'node', id: 1, lat: 47.1590, lon: 27.6010 },
+    { type: 'node', id: 2, lat: 47.1590, lon: 27.6015 },
+    { type: 'node', id: 3, lat: 47.1595, lon: 27.6015 },
+    { type: 'node', id: 4, lat: 47.1595, lon: 27.6010 },
+    { type: 'way', id: 100, nodes: [1, 2, 3, 4, 1], tags: { building: 'yes', 'building:levels': '4', name: 'Casa Pogor' } },
+
+    { type: 'node', id: 10, lat: 47.1600, lon: 27.6020 },
+    { type: 'node', id: 11, lat: 47.1600, lon: 27.6030 },
+    { type: 'node', id: 12, lat: 47.1610, lon: 27.6030 },
+    { type: 'node', id: 13, lat: 47.1610, lon: 27.6020 },
+    { type: 'node', id: 14, lat: 47.1603, lon: 27.6023 },
+    { type: 'node', id: 15, lat: 47.1603, lon: 27.6027 },
+    { type: 'node', id: 16, lat: 47.1607, lon: 27.6027 },
+    { type: 'node', id: 17, lat: 47.1607, lon: 27.6023 },
+    { type: 'way', id: 200, nodes: [10, 11, 12, 13, 10] },
+    { type: 'way', id: 201, nodes: [14, 15, 16, 17, 14] },
+    {
+        type: 'relation', id: 300,
+        members: [{ type: 'way', ref: 200, role: 'outer' }, { type: 'way', ref: 201, role: 'inner' }],
+        tags: { type: 'multipolygon', building: 'apartments', height: '18' }
+    },
+
+    { type: 'node', id: 20, lat: 47.1585, lon: 27.6040, tags: { natural: 'tree', height: '12' } },
+
+    { type: 'node', id: 30, lat: 47.1612, lon: 27.6005 },
+    { type: 'node', id: 31, lat: 47.1613, lon: 27.6028 },
+    { type: 'node', id: 32, lat: 47.1612, lon: 27.6050 },
+    { type: 'way', id: 400, nodes: [30, 31, 32], tags: { natural: 'tree_row', name: 'Bulevardul Carol I' } }
+];
+
+// The same data as an extract, plus things a bbox query must drop:
+// a shop (not a shade feature) and a building outside the bbox
+const OSM_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<osm version="0.6" generator="test">
+  <node id="1" lat="47.1590" lon="27.6010"/>
+  <node id="2" lat="47.1590" lon="27.6015"/>
+  <node id="3" lat="47.1595" lon="27.6015"/>
+  <node id="4" lat="47.1595" lon="27.6010"/>
+  <way id="100">
+    <nd ref="1"/><nd ref="2"/><nd ref="3"/><nd ref="4"/><nd ref="1"/>
+    <tag k="building" v="yes"/><tag k="building:levels" v="4"/><tag k="name" v="Casa Pogor"/>
+  </way>
+  <node id="10" lat="47.1600" lon="27.6020"/>
+  <node id="11" lat="47.1600" lon="27.6030"/>
+  <node id="12" lat="47.1610" lon="27.6030"/>
+  <node id="13" lat="47.1610" lon="27.6020"/>
+  <node id="14" lat="47.1603" lon="27.6023"/>
+  <node id="15" lat="47.1603" lon="27.6027"/>
+  <node id="16" lat="47.1607" lon="27.6027"/>
+  <node id="17" lat="47.1607" lon="27.6023"/>
+  <way id="200"><nd ref="10"/><nd ref="11"/><nd ref="12"/><nd ref="13"/><nd ref="10"/></way>
+  <way id="201"><nd ref="14"/><nd ref="15"/><nd ref="16"/><nd ref="17"/><nd ref="14"/></way>
+  <relation id="300">
+    <member type="way" ref="200" role="outer"/>
+    <member type="way" ref="201" role="inner"/>
+    <tag k="type" v="multipolygon"/><tag k="building" v="apartments"/><tag k="height" v="18"/>
+  </relation>
+  <node id="20" lat="47.1585" lon="27.6040">
+    <tag k="natural" v="tree"/><tag k="height" v="12"/>
+  </node>
+  <node id="21" lat="47.1586" lon="27.6041">
+    <tag k="shop" v="bakery"/><tag k="name" v="Cuptor &amp; Co"/>
+  </node>
+  <node id="30" lat="47.1612" lon="27.6005"/>
+  <node id="31" lat="47.1613" lon="27.6028"/>
+  <node id="32" lat="47.1612" lon="27.6050"/>
+  <way id="400">
+    <nd ref="30"/><nd ref="31"/><nd ref="32"/>
+    <tag k="natural" v="tree_row"/><tag k="name" v="Bulevardul Carol I"/>
+  </way>
+  <node id="40" lat="47.1700" lon="27.6200"/>
+  <node id="41" lat="47.1700" lon="27.6205"/>
+  <node id="42" lat="47.1705" lon="27.6205"/>
+  <way id="500">
+    <nd ref="40"/><nd ref="41"/><nd ref="42"/><nd ref="40"/>
+    <tag k="building" v="yes"/>
+  </way>
+  <node id="50" lat="47.1588" lon="27.6000"/>
+  <node id="51" lat="47.1588" lon="27.6060"/>
+  <node id="52" lat="47.1615" lon="27.6000"/>
+  <node id="53" lat="47.1615" lon="27.6060"/>
+  <way id="600"><nd ref="50"/><nd ref="51"/><tag k="highway" v="footway"/></way>
+  <way id="601"><nd ref="52"/><nd ref="53"/><tag k="highway" v="footway"/><tag k="access" v="private"/></way>
+</osm>`;
+
+const ring = (ids: number[]) => ids.map(id => {
+    const node = OVERPASS_ELEMENTS.find(el => el.type === 'node' && el.id === id)!;
+    return [node.lon!, node.lat!];
+});
+
+const GEOJSON = {
+    type: 'FeatureCollection',
+    features: [
+        {
+            type: 'Feature', id: 'way/100',
+            properties: { building: 'yes', 'building:levels': '4', name: 'Casa Pogor' },
+            geometry: { type: 'Polygon', coordinates: [ring([1, 2, 3, 4, 1])] }
+        },
+        {
+            type: 'Feature', id: 'relation/300',
+            properties: { type: 'multipolygon', building: 'apartments', height: '18' },
+            geometry: { type: 'Polygon', coordinates: [ring([10, 11, 12, 13, 10]), ring([14, 15, 16, 17, 14])] }
+        },
+        {
+            type: 'Feature', id: 'node/20',
+            properties: { natural: 'tree', height: '12' },
+            geometry: { type: 'Point', coordinates: [27.6040, 47.1585] }
+        },
+        {
+            type: 'Feature', id: 'node/21',
+            properties: { shop: 'bakery' },
+            geometry: { type: 'Point', coordinates: [27.6041, 47.1586] }
+        },
+        {
+            type: 'Feature', id: 'way/400',
+            properties: { natural: 'tree_row', name: 'Bulevardul Carol I' },
+            geometry: { type: 'LineString', coordinates: ring([30, 31, 32]) }
+        },
+        {
+            type: 'Feature', id: 'way/500',
+            properties: { building: 'yes' },
+            geometry: { type: 'Polygon', coordinates: [[[27.6200, 47.1700], [27.6205, 47.1700], [27.6205, 47.1705], [27.6200, 47.1700]]] }
+        }
+    ]
+};
+
+// The same extract as OSM XML, encoded as .osm.pbf: an OSMHeader block, then DenseNodes (with tags)
+// in a zlib-compressed blob and ways plus the multipolygon in a raw one, with delta-coded refs
+// and non-zero lat/lon offsets
+const readPbfFixture = () => {
+    const file = readFileSync(new URL('./fixtures/iasi-extract.osm.pbf', import.meta.url));
+    return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+};
+
+const normalize = (features: ShadeFeature[]) =>
+    JSON.stringify([...features].sort((a, b) => a.id - b.id));
+
+const testSource = async (label: string, extract: ArrayBuffer | string, expected: string) => {
+    setFeatureSource(createLocalExtractSource(extract, label));
+    const features = await fetchShadeFeatures(BBOX, DATE);
+    const ok = normalize(features) === expected;
+    check(`${label} (${features.length} features)`, ok);
+    return ok;
+};
+
+const runTests = async () => {
+    console.log("--- Testing Local Feature Sources ---");
+    const reference = applySeasonalFoliage(parseOverpassData({ elements: OVERPASS_ELEMENTS }), DATE);
+    const expected = normalize(reference);
+    console.log(`Overpass JSON: ${reference.length} features`);
+
+    await testSource("OSM XML", OSM_XML, expected);
+    await testSource("GeoJSON", JSON.stringify(GEOJSON), expected);
+    await testSource("OSM PBF", readPbfFixture(), expected);
+
+    console.log("--- Testing PBF Decoding ---");
+    const elements = await parseOsmPbf(readPbfFixture());
+    const find = (type: string, id: number) => elements.find(el => el.type === type && el.id === id);
+    check("Every element decoded", elements.length === 32, `${elements.length}`);
+    check("Dense node tags", JSON.stringify(find('node', 21)?.tags) === JSON.stringify({ shop: 'bakery', name: 'Cuptor & Co' }));
+    check("Untagged dense nodes stay untagged", find('node', 1)?.tags === undefined);
+    check("Coordinates with offsets", find('node', 12)?.lat === 47.1610 && find('node', 12)?.lon === 27.6030);
+    check("Delta-coded way refs", JSON.stringify(find('way', 201)?.nodes) === JSON.stringify([14, 15, 16, 17, 14]));
+    check("Relation members", JSON.stringify(find('relation', 300)?.members) === JSON.stringify(
+        OVERPASS_ELEMENTS.find(el => el.type === 'relation')!.members
+    ));
+
+    console.log("--- Testing Local Walkways ---");
+    setFeatureSource(createLocalExtractSource(OSM_XML));
+    const graph = await fetchWalkableGraph(BBOX);
+    const wayIds = [...new Set(graph.edges.map(e => e.wayId))];
+    check("Private footway excluded", wayIds.length === 1 && wayIds[0] === 600, `${wayIds}`);
+
+    console.log("--- Testing Failed Downloads ---");
+    let attempts = 0;
+    const flaky = createLocalExtractSource(async () => {
+        if (++attempts === 1) throw new Error("Network down");
+        return OSM_XML;
+    });
+    const firstTry = await flaky.fetchElements(BBOX, 'walkways').then(() => 'loaded', () => 'failed');
+    const retried = await flaky.fetchElements(BBOX, 'walkways');
+    check("A failed download is retried", firstTry === 'failed' && attempts === 2 && retried.length > 0, `${firstTry}, ${attempts} attempts`);
+};
+
+runTests();
@@ -0,0 +1,79 @@
+import { applySeasonalFoliage, computeShadows, getSeasonalFoliageDensity, getShadeAtPoint, getSunPosition, parseOverpassData, ShadeFeature } from '../services/shadeEngine';
+import { computeShadeHeatmap } from '../services/shadeHeatmap';
+import { offsetByMeters } from '../services/geoProjection';
+import { check } from './check';
+
+// Checks that foliage follows hemisphere, latitude and leaf cycle, and that the area heatmap draws it
+// Run with: npx tsx scripts/test-foliage.ts
+
+const JANUARY = new Date(2025, 0, 15, 12);
+const JULY = new Date(2025, 6, 15, 12);
+
+const IASI = 47.16;
+const SYDNEY = -33.87;
+const SINGAPORE = 1.35;
+
+const runTests = () => {
+    console.log("--- Testing Hemispheres ---");
+    check("Iași bare in January", getSeasonalFoliageDensity(JANUARY, IASI) < 0.2);
+    check("Iași full in July", getSeasonalFoliageDensity(JULY, IASI) === 1);
+    check("Sydney full in January", getSeasonalFoliageDensity(JANUARY, SYDNEY) === 1);
+    check("Sydney thinner in July", getSeasonalFoliageDensity(JULY, SYDNEY) < 1);
+    check("Sydney winter milder than Iași", getSeasonalFoliageDensity(JULY, SYDNEY) > getSeasonalFoliageDensity(JANUARY, IASI));
+
+    console.log("--- Testing Tropics ---");
+    check("Singapore green in January", getSeasonalFoliageDensity(JANUARY, SINGAPORE) === 1);
+    check("Singapore green in July", getSeasonalFoliageDensity(JULY, SINGAPORE) === 1);
+
+    console.log("--- Testing Leaf Tags ---");
+    const features = parseOverpassData({
+        elements: [
+            { type: 'node', id: 1, lat: IASI, lon: 27.60, tags: { natural: 'tree' } },
+            { type: 'node', id: 2, lat: IASI, lon: 27.61, tags: { natural: 'tree', leaf_type: 'needleleaved' } },
+            { type: 'node', id: 3, lat: IASI, lon: 27.62, tags: { natural: 'tree', leaf_type: 'needleleaved', leaf_cycle: 'deciduous' } },
+            { type: 'node', id: 4, lat: IASI, lon: 27.63, tags: { natural: 'tree', leaf_cycle: 'evergreen' } }
+        ]
+    });
+    const winter = applySeasonalFoliage(features, JANUARY);
+    const density = (id: number) => winter.find(f => f.id === id)!.foliageDensity;
+
+    check("Untagged tree treated as deciduous", density(1) < 0.2);
+    check("Conifer keeps its needles", density(2) === 1);
+    check("Larch (needleleaved, deciduous) loses them", density(3) < 0.2);
+    check("Evergreen broadleaf keeps its leaves", density(4) === 1);
+    check("Seasonal factor recorded for debug", winter.every(f => f.seasonalFoliage !== undefined));
+
+    console.log("--- Testing Area Heatmap ---");
+    // A thin 80 m park, mapped without leaf tags
+    const center = { lat: IASI, lng: 27.60 };
+    const park: ShadeFeature = {
+        id: 10,
+        type: 'park',
+        height: 10,
+        foliageDensity: 0.4,
+        coordinates: [
+            offsetByMeters(center, -40, -40),
+            offsetByMeters(center, 40, -40),
+            offsetByMeters(center, 40, 40),
+            offsetByMeters(center, -40, 40)
+        ]
+    };
+    const southWest = offsetByMeters(center, -100, -100);
+    const northEast = offsetByMeters(center, 100, 100);
+    const bounds = { south: southWest.lat, west: southWest.lng, north: northEast.lat, east: northEast.lng };
+    const heatmapShade = (features: ShadeFeature[], date: Date) => {
+        const heatmap = computeShadeHeatmap(features, bounds, date);
+        return heatmap.values[Math.floor(heatmap.rows / 2) * heatmap.cols + Math.floor(heatmap.cols / 2)];
+    };
+    const pointShade = (features: ShadeFeature[], date: Date) =>
+        getShadeAtPoint(center, computeShadows(features, getSunPosition(center.lat, center.lng, date))).shadeLevel / 100;
+
+    const summerPark = applySeasonalFoliage([park], JULY);
+    const winterPark = applySeasonalFoliage([park], JANUARY);
+    check("Thin parks aren't painted as full shade", Math.abs(heatmapShade(summerPark, JULY) - 0.4) < 0.01);
+    check("Heatmap agrees with point shade in summer", Math.abs(heatmapShade(summerPark, JULY) - pointShade(summerPark, JULY)) < 0.01);
+    check("Heatmap agrees with point shade in winter", Math.abs(heatmapShade(winterPark, JANUARY) - pointShade(winterPark, JANUARY)) < 0.01);
+    check("Bare trees leave the area mostly sunny", heatmapShade(winterPark, JANUARY) < 0.1);
+};
+
+runTests();
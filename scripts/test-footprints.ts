@@ -0,0 +1,86 @@
+import { calculateFeatureShadow, getShadeAtPoint, getSunPosition, parseOverpassData, ShadeFeature } from '../services/shadeEngine';
+import { OsmElement } from '../services/featureSource';
+import { offsetByMeters } from '../services/geoProjection';
+import { check } from './check';
+
+// Checks exact shadows of concave and courtyard footprints, and multipolygon buildings built from their member ways
+// Run with: npx tsx scripts/test-footprints.ts
+
+const ORIGIN = { lat: 47.1600, lng: 27.5900 };
+// Near solar noon at the equinox: the sun is about 43° up in the south, so a 10 m block casts ~11 m northwards
+const NOON = new Date("2025-03-20T10:15:00Z");
+
+const at = (east: number, north: number) => offsetByMeters(ORIGIN, east, north);
+const rect = (west: number, south: number, east: number, north: number) =>
+    [at(west, south), at(east, south), at(east, north), at(west, north)];
+
+const shadeAt = (feature: ShadeFeature, east: number, north: number) => {
+    const sun = getSunPosition(ORIGIN.lat, ORIGIN.lng, NOON);
+    const shadow = calculateFeatureShadow(feature, sun.azimuth, sun.altitude);
+    return getShadeAtPoint(at(east, north), [{ feature, shadow }]).shadeLevel;
+};
+
+// 40 x 40 m L: a 10 m deep wing along the south and another along the west, open to the north-east
+const L_BLOCK: ShadeFeature = {
+    id: 1,
+    type: 'building',
+    height: 10,
+    foliageDensity: 1,
+    coordinates: [at(0, 0), at(40, 0), at(40, 10), at(10, 10), at(10, 40), at(0, 40)]
+};
+
+// 60 x 60 m block around a 30 x 30 m courtyard
+const COURTYARD_BLOCK: ShadeFeature = {
+    id: 2,
+    type: 'building',
+    height: 10,
+    foliageDensity: 1,
+    coordinates: rect(0, 0, 60, 60),
+    holes: [rect(15, 15, 45, 45)]
+};
+
+// The same block as a relation, with its outer ring split into two ways running in opposite directions
+const courtyardRelation = (): OsmElement[] => {
+    const corners = [...rect(0, 0, 60, 60), ...rect(15, 15, 45, 45)];
+    return [
+        ...corners.map((p, i) => ({ type: 'node' as const, id: i + 1, lat: p.lat, lon: p.lng })),
+        { type: 'way', id: 10, nodes: [1, 2, 3] },
+        { type: 'way', id: 11, nodes: [1, 4, 3] },
+        { type: 'way', id: 12, nodes: [5, 6, 7, 8, 5] },
+        {
+            type: 'relation',
+            id: 20,
+            members: [
+                { type: 'way', ref: 10, role: 'outer' },
+                { type: 'way', ref: 11, role: 'outer' },
+                { type: 'way', ref: 12, role: 'inner' }
+            ],
+            tags: { type: 'multipolygon', building: 'yes', height: '10' }
+        }
+    ];
+};
+
+const runTests = async () => {
+    console.log("--- Testing L-Shaped Footprints ---");
+    // Inside the L's convex hull, but past the reach of either wing's shadow
+    check("The notch stays sunlit", shadeAt(L_BLOCK, 25, 30) === 0);
+    check("North of the south wing is shaded", shadeAt(L_BLOCK, 25, 15) === 100);
+    check("The footprint itself is shaded", shadeAt(L_BLOCK, 5, 30) === 100);
+
+    console.log("--- Testing Courtyards ---");
+    check("The courtyard's north side stays sunlit", shadeAt(COURTYARD_BLOCK, 30, 40) === 0);
+    check("The courtyard's south side is shaded", shadeAt(COURTYARD_BLOCK, 30, 18) === 100);
+    check("The shadow reaches past the north wing", shadeAt(COURTYARD_BLOCK, 30, 65) === 100);
+
+    console.log("--- Testing Multipolygon Relations ---");
+    const features = parseOverpassData({ elements: courtyardRelation() });
+    const building = features[0];
+    check("One building from the relation", features.length === 1 && building.type === 'building', `${features.length}`);
+    check("Split outer ways join into one ring", building.coordinates.length === 5, `${building.coordinates.length}`);
+    check("The inner way becomes a courtyard", building.holes?.length === 1);
+    check("The relation's tags apply", building.height === 10, `${building.height}`);
+    check("Its courtyard stays sunlit", shadeAt(building, 30, 40) === 0);
+    check("Its courtyard's south side is shaded", shadeAt(building, 30, 18) === 100);
+};
+
+runTests();
@@ -0,0 +1,62 @@
+import { getDistance } from 'geolib';
+import { bufferLineToPolygon, parseOverpassData } from '../services/shadeEngine';
+import { createLocalFrame, fromLocal, toLocal } from '../services/geoProjection';
+import { checkClose } from './check';
+
+// Checks that geometry is metre-accurate at any latitude
+// Run with: npx tsx scripts/test-geometry.ts
+
+const LATITUDES = [0, 47.16, 60, -33.87];
+
+const meters = (a: { lat: number; lng: number }, b: { lat: number; lng: number }) =>
+    getDistance({ latitude: a.lat, longitude: a.lng }, { latitude: b.lat, longitude: b.lng }, 0.01);
+
+const runTests = () => {
+    console.log("--- Testing Line Buffers ---");
+    LATITUDES.forEach(lat => {
+        // A diagonal line, so both axes matter
+        const line = [{ lat, lng: 27.6 }, { lat: lat + 0.0005, lng: 27.6005 }, { lat: lat + 0.001, lng: 27.6 }];
+        const polygon = bufferLineToPolygon(line, 4);
+        const n = line.length;
+
+        // The polygon is the left side followed by the reversed right side
+        checkClose(`Buffer width at ${lat}°, start`, meters(polygon[0], polygon[2 * n - 1]), 8, 0.1, ' m');
+        checkClose(`Buffer offset at ${lat}°, end`, meters(polygon[n - 1], line[n - 1]), 4, 0.05, ' m');
+    });
+
+    console.log("--- Testing Tree Rows ---");
+    LATITUDES.forEach(lat => {
+        const [row] = parseOverpassData({
+            elements: [
+                { type: 'node', id: 1, lat, lon: 27.6 },
+                { type: 'node', id: 2, lat, lon: 27.601 },
+                { type: 'node', id: 3, lat, lon: 27.602 },
+                { type: 'way', id: 10, nodes: [1, 2, 3], tags: { natural: 'tree_row' } }
+            ]
+        });
+        // East-west row: its width runs north-south
+        checkClose(`Tree row width at ${lat}°`, meters(row.coordinates[1], row.coordinates[4]), 8, 0.1, ' m');
+    });
+
+    console.log("--- Testing Tree Crowns ---");
+    LATITUDES.forEach(lat => {
+        const [tree] = parseOverpassData({
+            elements: [{ type: 'node', id: 1, lat, lon: 27.6, tags: { natural: 'tree', diameter_crown: '10' } }]
+        });
+        const radii = tree.coordinates.map(c => meters(c, { lat, lng: 27.6 }));
+        checkClose(`Crown radius at ${lat}°, min`, Math.min(...radii), 5, 0.05, ' m');
+        checkClose(`Crown radius at ${lat}°, max`, Math.max(...radii), 5, 0.05, ' m');
+    });
+
+    console.log("--- Testing Local Frame ---");
+    LATITUDES.forEach(lat => {
+        const frame = createLocalFrame({ lat, lng: 27.6 });
+        const point = { lat: lat + 0.003, lng: 27.604 };
+        const back = fromLocal(frame, toLocal(frame, point));
+        const local = toLocal(frame, point);
+        checkClose(`Round trip at ${lat}°`, meters(point, back), 0, 0.01, ' m');
+        checkClose(`Local distance at ${lat}°`, Math.hypot(local.x, local.y), meters(frame.origin, point), meters(frame.origin, point) * 0.005, ' m');
+    });
+};
+
+runTests();
@@ -0,0 +1,99 @@
+import { buildWalkableGraph, computeEdgeGreenery, findShadeAwareRoute } from '../services/routingEngine';
+import { generateLoopWalks, scoreLoopWalk } from '../services/loopPlanner';
+import { ShadeFeature } from '../services/shadeEngine';
+import { offsetByMeters } from '../services/geoProjection';
+import { OsmElement } from '../services/featureSource';
+import { getDistance } from 'geolib';
+import { check } from './check';
+
+// Checks loop walk generation on a 2 x 2 km street grid with a park to the north-east
+// Run with: npx tsx scripts/test-loops.ts
+
+const CENTER = { lat: 47.1600, lng: 27.5900 };
+const GRID = 21; // 21 x 21 nodes, 100 m apart
+const SPACING = 100;
+
+const nodeAt = (col: number, row: number) =>
+    offsetByMeters(CENTER, (col - (GRID - 1) / 2) * SPACING, (row - (GRID - 1) / 2) * SPACING);
+
+const buildGrid = () => {
+    const elements: OsmElement[] = [];
+    for (let row = 0; row < GRID; row++) {
+        for (let col = 0; col < GRID; col++) {
+            const p = nodeAt(col, row);
+            elements.push({ type: 'node', id: row * GRID + col + 1, lat: p.lat, lon: p.lng });
+        }
+    }
+    for (let i = 0; i < GRID; i++) {
+        const across = Array.from({ length: GRID }, (_, j) => i * GRID + j + 1);
+        const up = Array.from({ length: GRID }, (_, j) => j * GRID + i + 1);
+        elements.push({ type: 'way', id: 1000 + i, nodes: across, tags: { highway: 'residential', name: `Row ${i}` } });
+        elements.push({ type: 'way', id: 2000 + i, nodes: up, tags: { highway: 'residential', name: `Column ${i}` } });
+    }
+    return buildWalkableGraph({ elements });
+};
+
+// Park over the north-east quadrant, a little beyond the centre lines
+const PARK: ShadeFeature = {
+    id: 1,
+    type: 'park',
+    height: 8,
+    foliageDensity: 0.4,
+    name: 'Park',
+    coordinates: [
+        offsetByMeters(CENTER, 50, 50),
+        offsetByMeters(CENTER, 950, 50),
+        offsetByMeters(CENTER, 950, 950),
+        offsetByMeters(CENTER, 50, 950)
+    ]
+};
+
+const runTests = () => {
+    const graph = buildGrid();
+    const exposure = new Float64Array(graph.edges.length).fill(1);
+
+    // --- Greenery ---
+    const greenery = computeEdgeGreenery(graph, [PARK]);
+    const greenEdges = Array.from(greenery).filter(g => g > 0).length;
+    check("Edges inside the park are green", greenEdges > 0, `${greenEdges}`);
+    check("Edges outside the park are not", greenery.some(g => g === 0));
+
+    // --- Loops ---
+    const target = 2400; // ~30 minutes
+    const loops = generateLoopWalks(graph, CENTER, target, exposure, greenery);
+    console.log(`Loops: ${loops.map(l => `${Math.round(l.distance)} m @${l.heading}° green ${Math.round(l.greenShare * 100)}%`).join(', ')}`);
+
+    check("Several loops are generated", loops.length >= 2, `${loops.length}`);
+    check("Every loop ends where it starts", loops.every(l =>
+        getDistance(l.path[0], l.path[l.path.length - 1]) < 1
+    ));
+    check("Loops are within 30% of the target", loops.every(l => Math.abs(l.distance - target) <= target * 0.3));
+    check("Loops walk away from the start", loops.every(l =>
+        Math.max(...l.path.map(p => getDistance(p, CENTER))) > 300
+    ));
+
+    const green = loops.filter(l => l.greenShare > 0.3);
+    check("Some loop heads through the park", green.length > 0);
+    check("Green loops rank higher at equal shade", green.length > 0 &&
+        scoreLoopWalk(50, green[0].greenShare) > scoreLoopWalk(50, 0));
+
+    // --- Duplicates ---
+    const streets = (l: typeof loops[number]) => new Set(l.path.slice(1).map((p, i) => [l.path[i], p]
+        .map(c => `${c.lat.toFixed(6)},${c.lng.toFixed(6)}`).sort().join('|')));
+    const overlap = (a: typeof loops[number], b: typeof loops[number]) => {
+        const other = streets(b);
+        return Array.from(streets(a)).filter(s => other.has(s)).length * SPACING / Math.min(a.distance, b.distance);
+    };
+    check("Loops don't repeat each other", loops.every((a, i) => loops.slice(i + 1).every(b => overlap(a, b) <= 0.6)));
+    check("At most five loops come back", loops.length <= 5, `${loops.length}`);
+
+    // --- Refactored A-to-B search is unchanged ---
+    const end = nodeAt(GRID - 1, GRID - 1);
+    const route = findShadeAwareRoute(graph, nodeAt(0, 0), end, exposure, 0);
+    check("A-to-B route is still the grid shortest path", !!route && Math.abs(route.distance - 4000) < 5, `${route?.distance}`);
+
+    // --- Unreachable ---
+    check("No loops without a graph", generateLoopWalks(buildWalkableGraph({ elements: [] }), CENTER, target, new Float64Array(), new Float64Array()).length === 0);
+};
+
+runTests();
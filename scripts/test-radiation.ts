@@ -0,0 +1,73 @@
+import { computeRadiationDose } from '../services/radiationDose';
+import { getClearSkyUvIndex } from '../services/solarRadiation';
+import { check, checkClose } from './check';
+
+// Checks the sun and UV dose over a walk, including trips that stop along the way
+// Run with: npx tsx scripts/test-radiation.ts
+
+const IASI = { lat: 47.1585, lng: 27.6014 };
+const NOON = new Date("2025-07-20T09:30:00Z"); // Local solar noon is about 09:50 UTC
+
+// Two 10-minute legs sampled every minute, the second starting after a dwell at the stop
+const twoLegs = (dwellMinutes: number, shadeLevel: number) => {
+    const leg = Array.from({ length: 11 }, (_, i) => i);
+    const profile = [
+        ...leg.map(t => ({ timeOffset: t, shadeLevel })),
+        ...leg.map(t => ({ timeOffset: 10 + dwellMinutes + t, shadeLevel }))
+    ];
+    return { samplePoints: profile.map(() => IASI), profile, legStarts: [0, leg.length] };
+};
+
+// A 20-minute walk sampled every minute at one shade level
+const walk = (shadeLevel: number) => {
+    const profile = Array.from({ length: 21 }, (_, t) => ({ timeOffset: t, shadeLevel }));
+    return { samplePoints: profile.map(() => IASI), profile };
+};
+
+const runTests = async () => {
+    console.log("--- Testing UV Dose ---");
+    checkClose("Clear-sky UV index at 60°", getClearSkyUvIndex(60), 8.83, 0.01);
+    check("No UV at night", getClearSkyUvIndex(-2) === 0);
+
+    // UV index 6 is 0.15 W/m², so 20 minutes in the open is 180 J/m²
+    const open = walk(0);
+    const openDose = computeRadiationDose(open.samplePoints, open.profile, NOON, 0, 6)!;
+    checkClose("SED in the open", openDose.uvSed, 1.8, 0.001);
+    checkClose("MED fraction in the open", openDose.medFraction, 0.72, 0.001);
+
+    // Street shade only blocks the direct half of UV
+    const shaded = walk(100);
+    checkClose("SED in full shade", computeRadiationDose(shaded.samplePoints, shaded.profile, NOON, 0, 6)!.uvSed, 0.9, 0.001);
+
+    // With half the sky clouded, a shade level of 50 is all cloud, which the forecast UV index already includes
+    const cloudy = walk(50);
+    checkClose("Cloud isn't counted as shade", computeRadiationDose(cloudy.samplePoints, cloudy.profile, NOON, 50, 6)!.uvSed, 1.8, 0.001);
+    checkClose("Shade under cloud blocks less",
+        computeRadiationDose(shaded.samplePoints, shaded.profile, NOON, 50, 6)!.uvSed, 1.35, 0.001);
+
+    const night = computeRadiationDose(open.samplePoints, open.profile, new Date("2025-07-20T22:00:00Z"), 0)!;
+    check("Nothing absorbed at night", night.solarKjPerM2 === 0 && night.uvSed === 0 && night.medFraction === 0);
+    check("Mismatched profiles are rejected", computeRadiationDose([IASI], [], NOON, 0) === undefined);
+
+    console.log("--- Testing Dwell Stops ---");
+    // Full shade under a fixed UV index takes the same dose at any time, so only walking time counts
+    const walked = twoLegs(0, 100);
+    const stopped = twoLegs(30, 100);
+    const walkedDose = computeRadiationDose(walked.samplePoints, walked.profile, NOON, 0, 6, walked.legStarts)!;
+    const stoppedDose = computeRadiationDose(stopped.samplePoints, stopped.profile, NOON, 0, 6, stopped.legStarts)!;
+    check("A café stop adds no UV", stoppedDose.uvSed === walkedDose.uvSed, `${stoppedDose.uvSed} vs ${walkedDose.uvSed}`);
+    check("20 minutes of walking is counted", walkedDose.uvSed === 0.9, `${walkedDose.uvSed}`);
+
+    const bridged = computeRadiationDose(stopped.samplePoints, stopped.profile, NOON, 0, 6)!;
+    check("Without leg starts the stop is walked", bridged.uvSed > walkedDose.uvSed * 2, `${bridged.uvSed}`);
+
+    const sunnyWalk = twoLegs(0, 0);
+    const sunnyStop = twoLegs(30, 0);
+    const sunnyWalkDose = computeRadiationDose(sunnyWalk.samplePoints, sunnyWalk.profile, NOON, 0, undefined, sunnyWalk.legStarts)!;
+    const sunnyStopDose = computeRadiationDose(sunnyStop.samplePoints, sunnyStop.profile, NOON, 0, undefined, sunnyStop.legStarts)!;
+    check("Sun on the second leg only shifts with the later time",
+        Math.abs(sunnyStopDose.solarKjPerM2 - sunnyWalkDose.solarKjPerM2) < sunnyWalkDose.solarKjPerM2 * 0.02,
+        `${sunnyStopDose.solarKjPerM2} vs ${sunnyWalkDose.solarKjPerM2}`);
+};
+
+runTests();
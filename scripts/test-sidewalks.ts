@@ -0,0 +1,71 @@
+import { analyzeSidewalks, describeSidewalkAdvice } from '../services/sidewalkAnalysis';
+import { buildWalkableGraph } from '../services/routingEngine';
+import { analyzeRouteShade, ShadeFeature } from '../services/shadeEngine';
+import { offsetByMeters } from '../services/geoProjection';
+import { OsmElement } from '../services/featureSource';
+import { check } from './check';
+
+// Checks pavement-side advice on an east-west street with a tall block to its south
+// Run with: npx tsx scripts/test-sidewalks.ts
+
+const START = { lat: 47.1600, lng: 27.5900 };
+const END = offsetByMeters(START, 200, 0);
+const NOON = new Date("2025-07-20T10:00:00Z"); // ~13:00 local, sun high in the south
+
+// 20 m block from 8 m to 30 m south of the centreline, along the whole street
+const BLOCK: ShadeFeature = {
+    id: 1,
+    type: 'building',
+    height: 20,
+    foliageDensity: 1,
+    name: 'Block',
+    coordinates: [
+        offsetByMeters(START, -20, -8),
+        offsetByMeters(START, 220, -8),
+        offsetByMeters(START, 220, -30),
+        offsetByMeters(START, -20, -30)
+    ]
+};
+
+// The street as one way, with a node every segmentLength metres
+const streetGraph = (sidewalk: string, segmentLength = 50) => {
+    const elements: OsmElement[] = [];
+    const nodes: number[] = [];
+    for (let i = 0; i * segmentLength <= 200; i++) {
+        const p = offsetByMeters(START, i * segmentLength, 0);
+        elements.push({ type: 'node', id: i + 1, lat: p.lat, lon: p.lng });
+        nodes.push(i + 1);
+    }
+    elements.push({ type: 'way', id: 100, nodes, tags: { highway: 'residential', sidewalk } });
+    return buildWalkableGraph({ elements });
+};
+
+const runTests = async () => {
+    const features = [BLOCK];
+    const { samplePoints, profile } = await analyzeRouteShade([START, END], NOON, 0, false, undefined, features);
+
+    console.log("--- Testing Default Pavements ---");
+    const advice = analyzeSidewalks(samplePoints, profile, NOON, 0, features);
+    check("South side advised", advice?.compass === 'south', advice?.compass);
+    check("South side shaded, north sunny", !!advice && advice.shade === 100 && advice.otherShade === 0);
+    check("Covers the street", !!advice && advice.distance > 180, `${advice?.distance}`);
+    console.log(" ", advice && describeSidewalkAdvice(advice));
+    check("Repeated side reads as stay", !!advice && describeSidewalkAdvice(advice, 'south').startsWith('Stay on'));
+
+    console.log("--- Testing Sidewalk Tags ---");
+    const both = analyzeSidewalks(samplePoints, profile, NOON, 0, features, streetGraph('both'));
+    check("sidewalk=both still advises the south side", both?.compass === 'south', both?.compass);
+
+    // The way runs eastwards, so its left is the north side
+    const northOnly = analyzeSidewalks(samplePoints, profile, NOON, 0, features, streetGraph('left'));
+    check("No advice when only the sunny side has a pavement", northOnly === null);
+
+    // Samples in the middle of a 200 m segment are far from both of its nodes
+    const longSegment = analyzeSidewalks(samplePoints, profile, NOON, 0, features, streetGraph('left', 200));
+    check("Tags apply along a single long segment", longSegment === null, longSegment?.compass);
+
+    console.log("--- Testing Overcast ---");
+    check("No advice under full cloud", analyzeSidewalks(samplePoints, profile, NOON, 100, features) === null);
+};
+
+runTests();
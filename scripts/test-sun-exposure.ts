@@ -0,0 +1,77 @@
+import { computeSunExposureReport, sampleSegment, sunExposureToCsv } from '../services/sunExposure';
+import { ShadeFeature } from '../services/shadeEngine';
+import { offsetByMeters } from '../services/geoProjection';
+import { check } from './check';
+
+// Checks the year-round sun report against open ground, a building to the south and a deciduous tree
+// Run with: npx tsx scripts/test-sun-exposure.ts
+
+const TERRACE = { lat: 47.1600, lng: 27.5900 };
+const TIME_ZONE = 'Europe/Bucharest';
+
+const box = (id: number, type: ShadeFeature['type'], height: number, west: number, south: number, east: number, north: number): ShadeFeature => ({
+    id,
+    type,
+    height,
+    foliageDensity: type === 'building' ? 1 : 0.9,
+    coordinates: [
+        offsetByMeters(TERRACE, west, south),
+        offsetByMeters(TERRACE, east, south),
+        offsetByMeters(TERRACE, east, north),
+        offsetByMeters(TERRACE, west, north)
+    ]
+});
+
+// 20 m block across the street to the south: long winter shadows reach the terrace, summer ones don't
+const SOUTH_BLOCK = box(1, 'building', 20, -30, -35, 30, -15);
+// A block close by to the east hides the morning sun
+const EAST_BLOCK = box(2, 'building', 20, 8, -30, 20, 30);
+// Park trees over the terrace itself
+const PARK = box(3, 'park', 12, -20, -20, 20, 20);
+
+const runTests = async () => {
+    console.log("--- Testing Open Ground ---");
+    const open = await computeSunExposureReport([TERRACE], 2026, TIME_ZONE, []);
+    const find = (report: typeof open, date: string) => report.days.find(day => day.date === date)!;
+    const june = find(open, '2026-06-21');
+    const december = find(open, '2026-12-21');
+
+    check("One entry per day", open.days.length === 365, `${open.days.length}`);
+    check("Open ground sees the sun all day", open.days.every(day => Math.abs(day.sunHours - day.daylightHours) < 0.05));
+    check("Midsummer days are about 15.5 h", Math.abs(june.daylightHours - 15.5) < 0.3, `${june.daylightHours}`);
+    // Without refraction, the sun's centre clears the horizon for about 8.3 h at midwinter
+    check("Midwinter days are about 8.3 h", Math.abs(december.daylightHours - 8.3) < 0.3, `${december.daylightHours}`);
+    check("Times are local summer time", june.firstSun! < '05:30' && june.lastSun! >= '20:50', `${june.firstSun}-${june.lastSun}`);
+    check("No sun at night", open.hourly.every(hours => hours[0] === 0 && hours[23] === 0));
+    check("Noon hours are fully sunny", open.hourly.every(hours => Math.abs(hours[12] + hours[13] - 120) < 1), `${open.hourly[0][12]}`);
+
+    console.log("--- Testing Obstructions ---");
+    const south = await computeSunExposureReport([TERRACE], 2026, TIME_ZONE, [SOUTH_BLOCK]);
+    check("The southern block takes the winter noon sun", find(south, '2026-12-21').sunHours < december.sunHours - 2,
+        `${find(south, '2026-12-21').sunHours}`);
+    check("But not the summer noon sun", south.hourly[5][13] > 55, `${south.hourly[5][13]}`);
+
+    const east = await computeSunExposureReport([TERRACE], 2026, TIME_ZONE, [EAST_BLOCK]);
+    check("The eastern block delays first sun", find(east, '2026-06-21').firstSun! > '08:00', find(east, '2026-06-21').firstSun ?? 'none');
+    check("Last sun is unchanged", find(east, '2026-06-21').lastSun === june.lastSun);
+
+    const park = await computeSunExposureReport([TERRACE], 2026, TIME_ZONE, [PARK]);
+    const parkSun = (month: number) => park.hourly[month][13];
+    check("Bare trees let the winter sun through", parkSun(0) > parkSun(6) * 3, `${parkSun(0)} vs ${parkSun(6)}`);
+
+    console.log("--- Testing Segments ---");
+    const points = sampleSegment(offsetByMeters(TERRACE, -50, 0), offsetByMeters(TERRACE, 50, 0));
+    check("A 100 m street gets 11 samples", points.length === 11, `${points.length}`);
+    check("Long streets are capped", sampleSegment(TERRACE, offsetByMeters(TERRACE, 1000, 0)).length === 15);
+    const street = await computeSunExposureReport(points, 2026, TIME_ZONE, [EAST_BLOCK]);
+    const streetJune = find(street, '2026-06-21').sunHours;
+    check("A segment averages its points", streetJune < june.sunHours && streetJune > find(east, '2026-06-21').sunHours, `${streetJune}`);
+
+    console.log("--- Testing CSV ---");
+    const lines = sunExposureToCsv(south).split('\n');
+    check("Daily rows, a blank line and 12 months", lines.length === 1 + 365 + 1 + 1 + 12, `${lines.length}`);
+    check("Rows follow the header", lines[1].startsWith('2026-01-01,') && lines[lines.length - 1].startsWith('Dec,'));
+    check("Month rows cover every hour", lines[lines.length - 1].split(',').length === 25);
+};
+
+runTests();
@@ -0,0 +1,54 @@
+import { getAirMass, getClearSkyDiffuseIrradiance, getClearSkyDirectIrradiance } from '../services/solarRadiation';
+import { analyzeThermalComfort, computeAbsorbedRadiation, computeApparentTemperature, getHeatStress } from '../services/thermalComfort';
+import { check, checkClose } from './check';
+
+// Checks clear-sky irradiance and how hot a walk feels in sun and shade against hand-computed values
+// Run with: npx tsx scripts/test-thermal-comfort.ts
+
+const IASI = { lat: 47.1585, lng: 27.6014 };
+const HOT_AFTERNOON = { temperature: 30, humidity: 40, windSpeed: 2 };
+
+const runTests = async () => {
+    console.log("--- Testing Clear-Sky Irradiance ---");
+    checkClose("Air mass with the sun overhead", getAirMass(90), 1.0, 0.001);
+    checkClose("Air mass at 30°", getAirMass(30), 1.994, 0.001);
+    check("No air mass below the horizon", getAirMass(-5) === Infinity);
+    checkClose("Direct beam overhead", getClearSkyDirectIrradiance(90), 952.8, 0.1, ' W/m²');
+    checkClose("Direct beam at 30°", getClearSkyDirectIrradiance(30), 770.0, 0.1, ' W/m²');
+    checkClose("Direct beam at 10°", getClearSkyDirectIrradiance(10), 433.1, 0.1, ' W/m²');
+    checkClose("Diffuse sky at 30°", getClearSkyDiffuseIrradiance(30), 77.0, 0.1, ' W/m²');
+    check("No sun at night", getClearSkyDirectIrradiance(0) === 0 && computeAbsorbedRadiation(-1, 1) === 0);
+
+    console.log("--- Testing Apparent Temperature ---");
+    const sunny = computeAbsorbedRadiation(60, 1);
+    const shaded = computeAbsorbedRadiation(60, 0);
+    checkClose("Absorbed in full sun at 60°", sunny, 144.2, 0.1, ' W/m²');
+    checkClose("Absorbed in shade at 60°", shaded, 32.2, 0.1, ' W/m²');
+    checkClose("30 °C feels like in the sun", computeApparentTemperature(HOT_AFTERNOON, sunny), 38.65, 0.01, ' °C');
+    checkClose("30 °C feels like in the shade", computeApparentTemperature(HOT_AFTERNOON, shaded), 32.11, 0.01, ' °C');
+    checkClose("Wind cools without sun", computeApparentTemperature({ ...HOT_AFTERNOON, windSpeed: 6 }, 0), 27.44, 0.01, ' °C');
+
+    console.log("--- Testing Heat Stress Bands ---");
+    const bands = [25.9, 26, 31.9, 32, 37.9, 38, 45.9, 46].map(getHeatStress);
+    check("Each band starts at its lower edge", JSON.stringify(bands) === JSON.stringify([
+        'none', 'moderate', 'moderate', 'strong', 'strong', 'very-strong', 'very-strong', 'extreme'
+    ]), bands.join(','));
+
+    console.log("--- Testing Walks ---");
+    // At night only the air counts, whatever the shade
+    const night = new Date("2025-07-20T22:00:00Z");
+    const walk = analyzeThermalComfort([IASI, IASI], [{ timeOffset: 0, shadeLevel: 0 }, { timeOffset: 5, shadeLevel: 100 }], night, HOT_AFTERNOON)!;
+    checkClose("A night walk feels like the air alone", walk.avgFeelsLike, 30.2, 0.001, ' °C');
+    check("So does its peak", walk.peakFeelsLike === walk.avgFeelsLike && walk.heatStress === 'moderate', `${walk.peakFeelsLike}`);
+
+    const noon = new Date("2025-07-20T10:00:00Z");
+    const sunnyWalk = analyzeThermalComfort([IASI], [{ timeOffset: 0, shadeLevel: 0 }], noon, HOT_AFTERNOON)!;
+    const shadyWalk = analyzeThermalComfort([IASI], [{ timeOffset: 0, shadeLevel: 100 }], noon, HOT_AFTERNOON)!;
+    check("Midday sun feels over 6 °C hotter than shade", sunnyWalk.avgFeelsLike - shadyWalk.avgFeelsLike > 6,
+        `${sunnyWalk.avgFeelsLike} vs ${shadyWalk.avgFeelsLike}`);
+    check("And puts it a heat stress band higher", sunnyWalk.heatStress === 'very-strong' && shadyWalk.heatStress === 'strong',
+        `${sunnyWalk.heatStress} vs ${shadyWalk.heatStress}`);
+    check("Mismatched profiles are rejected", analyzeThermalComfort([IASI], [], noon, HOT_AFTERNOON) === undefined);
+};
+
+runTests();
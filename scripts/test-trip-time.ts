@@ -0,0 +1,66 @@
+import {
+    addDays,
+    formatZonedTime,
+    getBrowserTimeZone,
+    getTimeZoneAt,
+    getTimeZoneLabel,
+    getZonedDateString,
+    resolveTripDate,
+    toZonedDate
+} from '../services/tripTime';
+import { check } from './check';
+
+// Checks that trip times are read in the destination's time zone, across daylight saving changes
+// Run with: npx tsx scripts/test-trip-time.ts
+
+const runTests = () => {
+    console.log("--- Testing Zoned Dates ---");
+    const tokyo = toZonedDate('2026-05-10', '14:00', 'Asia/Tokyo');
+    check("14:00 in Tokyo is 05:00 UTC", tokyo.toISOString() === '2026-05-10T05:00:00.000Z', tokyo.toISOString());
+    const winter = toZonedDate('2026-01-15', '08:30', 'Europe/Bucharest');
+    const summer = toZonedDate('2026-07-15', '08:30', 'Europe/Bucharest');
+    check("Bucharest winter time is UTC+2", winter.toISOString() === '2026-01-15T06:30:00.000Z', winter.toISOString());
+    check("Bucharest summer time is UTC+3", summer.toISOString() === '2026-07-15T05:30:00.000Z', summer.toISOString());
+    check("Zoned times format back", formatZonedTime(summer, 'Europe/Bucharest') === '08:30');
+    check("Other zones see their own clock", formatZonedTime(tokyo, 'Europe/Bucharest') === '08:00');
+
+    console.log("--- Testing Daylight Saving Changes ---");
+    // Clocks go from 03:00 to 04:00 on 29 March 2026 in Bucharest
+    const skipped = toZonedDate('2026-03-29', '03:30', 'Europe/Bucharest');
+    check("Skipped times move to the hour after", formatZonedTime(skipped, 'Europe/Bucharest') === '04:30',
+        formatZonedTime(skipped, 'Europe/Bucharest'));
+    const before = toZonedDate('2026-03-29', '02:00', 'Europe/Bucharest');
+    const after = toZonedDate('2026-03-29', '05:00', 'Europe/Bucharest');
+    check("The short night lasts two hours", after.getTime() - before.getTime() === 2 * 3600 * 1000);
+
+    console.log("--- Testing Calendar Days ---");
+    const lateEvening = new Date('2026-10-19T22:30:00Z');
+    check("Calendar day follows the zone", getZonedDateString(lateEvening, 'Asia/Tokyo') === '2026-10-20'
+        && getZonedDateString(lateEvening, 'America/New_York') === '2026-10-19');
+    check("Days roll over months and years", addDays('2026-12-31', 1) === '2027-01-01' && addDays('2026-03-01', -1) === '2026-02-28');
+    const today = resolveTripDate('12:00', { timeZone: 'Asia/Tokyo' });
+    check("No date means today at the destination", getZonedDateString(today, 'Asia/Tokyo') === getZonedDateString(new Date(), 'Asia/Tokyo'));
+
+    console.log("--- Testing Zone Lookup ---");
+    check("Tokyo is in Asia/Tokyo", getTimeZoneAt({ lat: 35.68, lng: 139.69 }) === 'Asia/Tokyo');
+    check("Iași is in Europe/Bucharest", getTimeZoneAt({ lat: 47.16, lng: 27.59 }) === 'Europe/Bucharest');
+    // Madrid sits west of Greenwich but keeps Central European Time
+    const madrid = getTimeZoneAt({ lat: 40.42, lng: -3.70 });
+    check("Zones follow borders, not longitude", madrid === 'Europe/Madrid' && getUtcOffset(madrid) === 60, madrid);
+    check("Invalid coordinates fall back to the browser's zone", getTimeZoneAt({ lat: 95, lng: 0 }) === getBrowserTimeZone());
+
+    console.log("--- Testing Local Times Abroad ---");
+    // A 14:00 walk in Tokyo is 08:00 in Bucharest during summer time
+    const walk = resolveTripDate('14:00', { date: '2026-07-15', timeZone: getTimeZoneAt({ lat: 35.68, lng: 139.69 }) });
+    check("Planned in Tokyo time", formatZonedTime(walk, 'Europe/Bucharest') === '08:00' && formatZonedTime(walk, 'Asia/Tokyo') === '14:00');
+    check("Foreign zones get a label", getTimeZoneLabel('Asia/Tokyo', walk) !== null);
+    check("The browser's zone needs none", getTimeZoneLabel(getBrowserTimeZone(), walk) === null);
+};
+
+// Winter offset in minutes, so daylight saving in the browser's zone doesn't matter
+const getUtcOffset = (timeZone: string) => {
+    const instant = toZonedDate('2026-01-15', '12:00', timeZone);
+    return Math.round((Date.UTC(2026, 0, 15, 12) - instant.getTime()) / 60000);
+};
+
+runTests();
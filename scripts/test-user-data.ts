@@ -0,0 +1,137 @@
+import { createClient } from '@supabase/supabase-js';
+import {
+    createMemoryUserDataStore,
+    createSupabaseUserDataStore,
+    HISTORY_LIMIT,
+    UserDataStore
+} from '../services/userDataStore';
+import { RouteOption, SearchParams } from '../types';
+import { check } from './check';
+
+// Checks saved places, routes and history against the in-memory store, and against a
+// local Supabase when SUPABASE_TEST_URL and SUPABASE_TEST_ANON_KEY are set
+// (`supabase start` then `supabase db reset` applies supabase/migrations)
+// Run with: npx tsx scripts/test-user-data.ts
+
+const ROUTE: RouteOption = {
+    id: 'route-0',
+    name: 'Via Park Lane',
+    summary: 'Via Park Lane',
+    totalDistance: '1.2 km',
+    totalDuration: '15 mins',
+    averageShadePercentage: 64,
+    shadeProfile: [{ timeOffset: 0, shadeLevel: 80 }, { timeOffset: 7.5, shadeLevel: 40 }],
+    steps: [],
+    tags: ['Most Shaded']
+};
+
+const PARAMS: SearchParams = { origin: 'Home', destination: 'Office', time: '08:30', shadePreference: 0.5 };
+
+const runContract = async (label: string, alice: UserDataStore, bob: UserDataStore) => {
+    console.log(`--- ${label} ---`);
+
+    // Places
+    await alice.savePlace({ kind: 'favourite', label: 'Bakery', address: '1 Bread St' });
+    await alice.savePlace({ kind: 'home', label: 'Home', address: '10 Old Rd', location: { lat: 47.16, lng: 27.59 } });
+    await alice.savePlace({ kind: 'home', label: 'Home', address: '22 New Rd' });
+    const places = await alice.listPlaces();
+    check("A new home replaces the old one", places.filter(p => p.kind === 'home').length === 1 &&
+        places.find(p => p.kind === 'home')?.address === '22 New Rd', JSON.stringify(places));
+    check("Home is listed before favourites", places[0]?.kind === 'home');
+
+    const bakery = places.find(p => p.label === 'Bakery')!;
+    await alice.deletePlace(bakery.id);
+    check("Deleted places are gone", !(await alice.listPlaces()).some(p => p.id === bakery.id));
+
+    // Routes
+    const saved = await alice.saveRoute({ name: ROUTE.name, params: PARAMS, route: ROUTE });
+    const routes = await alice.listRoutes();
+    check("Saved routes keep their shade profile",
+        routes[0]?.route.shadeProfile.length === 2 && routes[0].route.shadeProfile[1].shadeLevel === 40);
+    check("Saved routes keep their search", routes[0]?.params.destination === 'Office');
+    check("Saved routes get a timestamp", !isNaN(Date.parse(saved.savedAt)));
+
+    const commute = await alice.saveRoute({
+        name: ROUTE.name,
+        params: PARAMS,
+        route: ROUTE,
+        schedule: { weekdays: [1, 2, 3, 4, 5], trips: [{ time: '08:30', direction: 'outbound' }], weeks: 8 }
+    });
+    const savedCommute = (await alice.listRoutes()).find(r => r.id === commute.id);
+    check("Saved commutes keep their schedule", savedCommute?.schedule?.weekdays.length === 5 && savedCommute.schedule.weeks === 8);
+    check("One-off routes have no schedule", (await alice.listRoutes()).find(r => r.id === saved.id)?.schedule === undefined);
+    await alice.deleteRoute(commute.id);
+
+    // History
+    for (let i = 0; i < HISTORY_LIMIT + 2; i++) {
+        await alice.addHistory({ ...PARAMS, time: `08:${String(i).padStart(2, '0')}` });
+    }
+    const history = await alice.listHistory();
+    check("History is capped", history.length === HISTORY_LIMIT, `${history.length}`);
+    check("History lists the newest search first", history[0]?.params.time === `08:${String(HISTORY_LIMIT + 1).padStart(2, '0')}`,
+        history[0]?.params.time);
+
+    // Isolation
+    check("Other users see none of it",
+        (await bob.listPlaces()).length === 0 && (await bob.listRoutes()).length === 0 && (await bob.listHistory()).length === 0);
+    await bob.deleteRoute(saved.id);
+    check("Other users can't delete it", (await alice.listRoutes()).some(r => r.id === saved.id));
+
+    await alice.clearHistory();
+    check("Clearing history empties it", (await alice.listHistory()).length === 0);
+    await alice.deleteRoute(saved.id);
+    check("Deleted routes are gone", (await alice.listRoutes()).length === 0);
+};
+
+const runTests = async () => {
+    // The memory store holds every user; switching users mirrors separate sessions
+    const memory = createMemoryUserDataStore();
+    check("Signed-out users have no data", (await memory.listPlaces()).length === 0);
+    let rejected = false;
+    await memory.addHistory(PARAMS).catch(() => { rejected = true; });
+    check("Signed-out writes are rejected", rejected);
+
+    const asUser = (email: string): UserDataStore => new Proxy(memory, {
+        get: (target, prop: keyof UserDataStore) => {
+            const value = target[prop];
+            if (typeof value !== 'function' || prop === 'signIn' || prop === 'signOut') return value;
+            return async (...args: unknown[]) => {
+                await target.signIn(email);
+                return (value as (...a: unknown[]) => unknown)(...args);
+            };
+        }
+    });
+    await runContract("Memory", asUser('alice@example.com'), asUser('bob@example.com'));
+
+    const url = process.env.SUPABASE_TEST_URL;
+    const anonKey = process.env.SUPABASE_TEST_ANON_KEY;
+    if (!url || !anonKey) {
+        console.log("Supabase: SKIPPED (set SUPABASE_TEST_URL and SUPABASE_TEST_ANON_KEY)");
+        return;
+    }
+
+    // Each user gets a client of their own, signed up with a throwaway password
+    const signedInStore = async (email: string) => {
+        const client = createClient(url, anonKey, { auth: { persistSession: false } });
+        const password = 'shade-walker-test';
+        const signIn = await client.auth.signInWithPassword({ email, password });
+        if (signIn.error) {
+            const signUp = await client.auth.signUp({ email, password });
+            if (signUp.error) throw signUp.error;
+        }
+        const store = createSupabaseUserDataStore(client);
+        await store.clearHistory();
+        await Promise.all((await store.listRoutes()).map(r => store.deleteRoute(r.id)));
+        await Promise.all((await store.listPlaces()).map(p => store.deletePlace(p.id)));
+        return store;
+    };
+
+    const suffix = Date.now();
+    await runContract(
+        "Supabase",
+        await signedInStore(`alice-${suffix}@example.com`),
+        await signedInStore(`bob-${suffix}@example.com`)
+    );
+};
+
+runTests();
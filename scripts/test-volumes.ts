@@ -0,0 +1,87 @@
+import { calculateFeatureShadow, getShadeAtPoint, getSunPosition, parseOverpassData, ShadeFeature } from '../services/shadeEngine';
+import { OsmElement } from '../services/featureSource';
+import { offsetByMeters } from '../services/geoProjection';
+import { check } from './check';
+
+// Checks building heights and raised volumes read from tags, and the sunlit gap under arcades and canopies
+// Run with: npx tsx scripts/test-volumes.ts
+
+const ORIGIN = { lat: 47.1600, lng: 27.5900 };
+// Near solar noon: the sun is about 19° up at midwinter and 66° at midsummer
+const WINTER_NOON = new Date("2025-12-21T10:15:00Z");
+const SUMMER_NOON = new Date("2025-06-21T10:10:00Z");
+
+const at = (east: number, north: number) => offsetByMeters(ORIGIN, east, north);
+const rect = (west: number, south: number, east: number, north: number) =>
+    [at(west, south), at(east, south), at(east, north), at(west, north)];
+
+// One closed way per outline, with its own nodes
+let nextId = 1;
+const area = (tags: Record<string, string>, west: number, south: number, east: number, north: number): OsmElement[] => {
+    const nodes = rect(west, south, east, north).map(p => ({ type: 'node' as const, id: nextId++, lat: p.lat, lon: p.lng }));
+    return [...nodes, { type: 'way', id: nextId++, nodes: [...nodes.map(n => n.id), nodes[0].id], tags }];
+};
+
+const parseOne = (tags: Record<string, string>) => parseOverpassData({ elements: area(tags, 0, 0, 10, 10) })[0];
+
+const shadeAt = (feature: ShadeFeature, date: Date, east: number, north: number) => {
+    const sun = getSunPosition(ORIGIN.lat, ORIGIN.lng, date);
+    const shadow = calculateFeatureShadow(feature, sun.azimuth, sun.altitude);
+    return getShadeAtPoint(at(east, north), [{ feature, shadow }]).shadeLevel;
+};
+
+const runTests = async () => {
+    console.log("--- Testing Heights ---");
+    const plain = parseOne({ building: 'yes' });
+    check("Untagged buildings are 10 m", plain.height === 10 && plain.minHeight === undefined, `${plain.height}`);
+    check("Levels are 3.5 m each", parseOne({ building: 'yes', 'building:levels': '4' }).height === 14);
+    check("A unit after the number is accepted", parseOne({ building: 'yes', height: '12.5 m' }).height === 12.5);
+
+    console.log("--- Testing Roof Shapes ---");
+    check("A gabled roof counts for half its height",
+        parseOne({ building: 'yes', height: '12', 'roof:shape': 'gabled', 'roof:height': '4' }).height === 10);
+    const hipped = parseOne({ building: 'yes', 'building:levels': '3', 'roof:shape': 'hipped' });
+    check("Pitched roofs without a height get 3 m on top of the levels", Math.abs(hipped.height - 11.85) < 1e-9, `${hipped.height}`);
+    check("Flat roofs count in full", parseOne({ building: 'yes', height: '12', 'roof:shape': 'flat', 'roof:height': '2' }).height === 12);
+    check("Unknown shapes count for half",
+        parseOne({ building: 'yes', height: '12', 'roof:shape': 'crosspitched', 'roof:height': '4' }).height === 10);
+
+    console.log("--- Testing Raised Volumes ---");
+    const overhang = parseOne({ building: 'yes', height: '12', min_height: '4' });
+    check("min_height raises the volume", overhang.height === 12 && overhang.minHeight === 4, `${overhang.minHeight}`);
+    const upperFloors = parseOne({ building: 'yes', 'building:levels': '4', 'building:min_level': '1' });
+    check("building:min_level raises it by whole levels", upperFloors.minHeight === 3.5, `${upperFloors.minHeight}`);
+    const canopy = parseOne({ building: 'roof' });
+    check("Canopies are a thin roof 5 m up", canopy.height === 5 && canopy.minHeight === 4, `${canopy.height}/${canopy.minHeight}`);
+    const bridge = parseOne({ man_made: 'bridge', height: '8' });
+    check("Bridges shade as covered decks", bridge.type === 'covered' && bridge.height === 8 && bridge.minHeight === 6.5,
+        `${bridge.type} ${bridge.height}/${bridge.minHeight}`);
+
+    console.log("--- Testing Building Parts ---");
+    const features = parseOverpassData({
+        elements: [
+            ...area({ building: 'yes', height: '20' }, 0, 0, 30, 30),
+            ...area({ 'building:part': 'yes', height: '30' }, 0, 0, 15, 30),
+            ...area({ 'building:part': 'yes', height: '10' }, 15, 0, 30, 30),
+            ...area({ building: 'yes', height: '8' }, 50, 0, 60, 10)
+        ]
+    });
+    const heights = features.map(f => f.height).sort((a, b) => a - b);
+    check("An outline with parts is replaced by them", JSON.stringify(heights) === JSON.stringify([8, 10, 30]), `${heights}`);
+
+    console.log("--- Testing Sun Under Raised Volumes ---");
+    // 6 m deep arcade under 8 m of upper floors
+    const arcade: ShadeFeature = {
+        id: 1, type: 'building', height: 12, minHeight: 4, foliageDensity: 1, coordinates: rect(0, 0, 40, 6)
+    };
+    check("Low winter sun reaches under an arcade", shadeAt(arcade, WINTER_NOON, 20, 3) === 0);
+    // The upper floors' shadow only starts ~11 m north of the arcade's front
+    check("The ground just north of it stays sunlit", shadeAt(arcade, WINTER_NOON, 20, 9) === 0);
+    check("The upper floors' shadow falls beyond", shadeAt(arcade, WINTER_NOON, 20, 25) === 100);
+
+    const roof = { ...canopy, coordinates: rect(0, 0, 10, 10) };
+    check("Ground under a canopy is shaded at noon", shadeAt(roof, SUMMER_NOON, 5, 5) === 100);
+    check("But not at its sunny edge", shadeAt(roof, SUMMER_NOON, 5, 1) === 0);
+};
+
+runTests();
@@ -0,0 +1,54 @@
+import { readFileSync } from 'fs';
+import { createFixtureWeatherProvider, getWeatherAt, OpenMeteoResponse, parseOpenMeteoHourly, setWeatherProvider } from '../services/weatherService';
+import { analyzeRouteShade } from '../services/shadeEngine';
+import { analyzeSteps } from '../services/stepAnalysis';
+import { check, checkClose } from './check';
+
+// Checks weather parsing, interpolation and how cloud cover dims direct sun
+// Run with: npx tsx scripts/test-weather.ts
+
+const FIXTURE: OpenMeteoResponse = JSON.parse(
+    readFileSync(new URL('./fixtures/open-meteo-iasi.json', import.meta.url), 'utf8')
+);
+
+const IASI = { lat: 47.1585, lng: 27.6014 };
+
+// A short open stretch with no features, so all shade comes from the sky
+const ROUTE = [IASI, { lat: 47.1590, lng: 27.6030 }];
+
+const runTests = async () => {
+    console.log("--- Testing Open-Meteo Parsing ---");
+    const hourly = parseOpenMeteoHourly(FIXTURE);
+    check("24 hourly entries", hourly.length === 24, `${hourly.length}`);
+    check("Times read as UTC", hourly[14].time.toISOString() === "2025-07-20T14:00:00.000Z");
+
+    console.log("--- Testing Interpolation ---");
+    setWeatherProvider(createFixtureWeatherProvider(FIXTURE));
+    const halfPast = await getWeatherAt(IASI, new Date("2025-07-20T14:30:00Z"));
+    checkClose("Cloud cover at 14:30", halfPast!.cloudCover, 67.5);
+    checkClose("Temperature at 14:30", halfPast!.temperature, 31.75);
+    checkClose("UV index at 14:30", halfPast!.uvIndex, 6.5);
+
+    const onTheHour = await getWeatherAt(IASI, new Date("2025-07-20T12:00:00Z"));
+    checkClose("Cloud cover at 12:00", onTheHour!.cloudCover, 35);
+
+    console.log("--- Testing Direct Sun Transmittance ---");
+    const noon = new Date("2025-07-20T10:00:00Z"); // ~13:00 local, sun high
+    for (const cloud of [0, 25, 50, 100]) {
+        const analysis = await analyzeRouteShade(ROUTE, noon, cloud, false, undefined, []);
+        checkClose(`Open route shade at ${cloud}% cloud`, analysis.avgShade, cloud, 0.5);
+    }
+
+    const sunny = await analyzeRouteShade(ROUTE, noon, 0, false, undefined, []);
+    const hazy = await analyzeRouteShade(ROUTE, noon, 60, false, undefined, []);
+    check("Light cloud no longer counts as sun", hazy.avgShade > sunny.avgShade);
+
+    // Step text must agree with the engine: heavy cloud still lets some direct sun through
+    const step = { instruction: 'Head east', distance: '130 m', duration: '2 mins', durationSeconds: 100, path: ROUTE };
+    const [cloudy] = await analyzeSteps([step], noon, 75, []);
+    const [overcast] = await analyzeSteps([step], noon, 100, []);
+    check("75% cloud isn't described as overcast", !cloudy.description.startsWith('Overcast'), `${cloudy.description}`);
+    check("Full cloud is overcast", overcast.description.startsWith('Overcast'), `${overcast.description}`);
+};
+
+runTests();
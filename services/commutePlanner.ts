@@ -0,0 +1,122 @@
+import { CommuteSchedule } from '../types';
+import { DepartureRouteInput } from './departurePlanner';
+import { analyzeRouteShade, applySeasonalFoliage, removeSeasonalFoliage, ShadeFeature } from './shadeEngine';
+import { addDays, getZonedDateString, toZonedDate } from './tripTime';
+
+// Longest schedule the calendar will plan, about half a year of seasons
+export const MAX_COMMUTE_WEEKS = 26;
+
+export interface CommuteTripResult {
+    departure: Date;
+    direction: 'outbound' | 'return';
+    routes: { id: string; avgShade: number; sunMinutes: number }[];
+}
+
+/**
+ * One scheduled day: every trip on every route, and the route with the least sun overall
+ */
+export interface CommuteDay {
+    date: Date; // Calendar day, at the browser's midnight for display
+    trips: CommuteTripResult[];
+    winnerId: string;
+    sunMinutes: number; // Winner's minutes in direct sun across the day's trips
+    flipped: boolean; // The winner differs from the previous scheduled day's
+}
+
+export interface CommuteCalendar {
+    routes: { id: string; name: string }[];
+    days: CommuteDay[];
+    flips: number;
+}
+
+/**
+ * Departure times of a schedule, grouped by day, starting on the day of `from`
+ * Days and times are those of the trip's time zone
+ */
+export const getCommuteDays = (
+    schedule: CommuteSchedule,
+    from: Date,
+    timeZone: string
+): { date: Date; departures: Date[] }[] => {
+    const days: { date: Date; departures: Date[] }[] = [];
+    const trips = [...schedule.trips].sort((a, b) => a.time.localeCompare(b.time));
+    const weeks = Math.min(MAX_COMMUTE_WEEKS, Math.max(1, schedule.weeks));
+    const firstDay = getZonedDateString(from, timeZone);
+
+    for (let offset = 0; offset < weeks * 7; offset++) {
+        const day = addDays(firstDay, offset);
+        const [year, month, dayOfMonth] = day.split('-').map(Number);
+        const date = new Date(year, month - 1, dayOfMonth);
+        if (!schedule.weekdays.includes(date.getDay()) || trips.length === 0) continue;
+        days.push({ date, departures: trips.map(trip => toZonedDate(day, trip.time, timeZone)) });
+    }
+    return days;
+};
+
+/**
+ * Works out which route is shadiest on every day of a recurring trip
+ * Foliage is re-seasoned for each month and the sun follows each departure, so the calendar
+ * shows when the recommendation flips as trees leaf out or the sun climbs. Weeks ahead are
+ * beyond any forecast, so every trip uses the same cloud cover
+ */
+export const computeCommuteCalendar = async (
+    routes: DepartureRouteInput[],
+    schedule: CommuteSchedule,
+    from: Date,
+    timeZone: string,
+    cloudCoverage: number,
+    features: ShadeFeature[]
+): Promise<CommuteCalendar> => {
+    const neutral = removeSeasonalFoliage(features);
+    // Foliage only changes month to month; one array per month also keeps the shadow index cache warm
+    const seasoned = new Map<number, ShadeFeature[]>();
+    const featuresFor = (date: Date) => {
+        if (!seasoned.has(date.getMonth())) seasoned.set(date.getMonth(), applySeasonalFoliage(neutral, date));
+        return seasoned.get(date.getMonth())!;
+    };
+
+    const trips = [...schedule.trips].sort((a, b) => a.time.localeCompare(b.time));
+    const calendar: CommuteCalendar = { routes: routes.map(r => ({ id: r.id, name: r.name })), days: [], flips: 0 };
+    if (routes.length === 0) return calendar;
+
+    for (const { date, departures } of getCommuteDays(schedule, from, timeZone)) {
+        const dayFeatures = featuresFor(date);
+        const totals = new Map<string, number>();
+        const results: CommuteTripResult[] = [];
+
+        for (let i = 0; i < departures.length; i++) {
+            const direction = trips[i].direction;
+            const tripRoutes: CommuteTripResult['routes'] = [];
+            for (const route of routes) {
+                const points = direction === 'return' ? [...route.points].reverse() : route.points;
+                const analysis = await analyzeRouteShade(points, departures[i], cloudCoverage, false, route.durationSeconds, dayFeatures);
+                const sunMinutes = ((100 - analysis.avgShade) / 100) * (route.durationSeconds / 60);
+                tripRoutes.push({ id: route.id, avgShade: analysis.avgShade, sunMinutes: Math.round(sunMinutes * 10) / 10 });
+                totals.set(route.id, (totals.get(route.id) || 0) + sunMinutes);
+            }
+            results.push({ departure: departures[i], direction, routes: tripRoutes });
+        }
+
+        // Ties keep the earlier route, which is the better-ranked alternative
+        let winnerId = routes[0].id;
+        routes.forEach(route => {
+            if (totals.get(route.id)! < totals.get(winnerId)!) winnerId = route.id;
+        });
+
+        const previous = calendar.days[calendar.days.length - 1];
+        const flipped = !!previous && previous.winnerId !== winnerId;
+        if (flipped) calendar.flips++;
+        calendar.days.push({
+            date,
+            trips: results,
+            winnerId,
+            sunMinutes: Math.round(totals.get(winnerId)! * 10) / 10,
+            flipped
+        });
+
+        // Months of trips take a while; yielding between days lets the page repaint and respond
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    return calendar;
+};
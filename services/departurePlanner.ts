@@ -0,0 +1,76 @@
+import { Coordinates } from '../types';
+import { analyzeRouteShade, ShadeFeature } from './shadeEngine';
+
+// Spacing between candidate departure times (minutes)
+export const DEFAULT_DEPARTURE_STEP = 15;
+
+export interface DepartureRouteInput {
+    id: string;
+    name: string;
+    points: Coordinates[];
+    durationSeconds: number;
+}
+
+export interface DepartureOption {
+    departure: Date;
+    routeId: string;
+    sunMinutes: number; // Minutes walked in direct sun
+    avgShade: number;
+}
+
+/**
+ * Exposure of every route at every candidate departure time
+ */
+export interface DepartureSweep {
+    departures: Date[];
+    routes: { id: string; name: string; sunMinutes: number[]; avgShade: number[] }[];
+    best: DepartureOption | null;
+}
+
+// Fixed cloud cover, or a lookup so each departure can use its own forecast hour
+export type CloudCoverInput = number | ((departure: Date) => Promise<number>);
+
+/**
+ * Sweeps departure times across a window and finds the departure and route with the least sun
+ * Each route keeps its geometry; sun position follows the walk through analyzeRouteShade's
+ * time-aware sampling. Exposure is counted in minutes so longer routes don't look better
+ * just because their shade percentage is similar
+ */
+export const sweepDepartureTimes = async (
+    routes: DepartureRouteInput[],
+    windowStart: Date,
+    windowEnd: Date,
+    cloudCoverage: CloudCoverInput,
+    features: ShadeFeature[],
+    stepMinutes: number = DEFAULT_DEPARTURE_STEP
+): Promise<DepartureSweep> => {
+    const departures: Date[] = [];
+    for (let t = windowStart.getTime(); t <= windowEnd.getTime(); t += stepMinutes * 60 * 1000) {
+        departures.push(new Date(t));
+    }
+
+    const sweep: DepartureSweep = {
+        departures,
+        routes: routes.map(r => ({ id: r.id, name: r.name, sunMinutes: [], avgShade: [] })),
+        best: null
+    };
+
+    for (const departure of departures) {
+        const cloud = typeof cloudCoverage === 'number' ? cloudCoverage : await cloudCoverage(departure);
+        for (let i = 0; i < routes.length; i++) {
+            const route = routes[i];
+            const analysis = await analyzeRouteShade(route.points, departure, cloud, false, route.durationSeconds, features);
+            const sunMinutes = ((100 - analysis.avgShade) / 100) * (route.durationSeconds / 60);
+
+            sweep.routes[i].sunMinutes.push(Math.round(sunMinutes * 10) / 10);
+            sweep.routes[i].avgShade.push(analysis.avgShade);
+
+            // Strict comparison keeps the earliest departure among ties
+            if (!sweep.best || sunMinutes < sweep.best.sunMinutes) {
+                sweep.best = { departure, routeId: route.id, sunMinutes, avgShade: analysis.avgShade };
+            }
+        }
+    }
+
+    return sweep;
+};
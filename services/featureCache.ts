@@ -0,0 +1,254 @@
+import { GeoBounds, getFeatureSource } from './featureSource';
+import { applySeasonalFoliage, fetchShadeFeatures, parseOverpassData, ShadeFeature } from './shadeEngine';
+import { getBoundingBox } from './spatialIndex';
+
+// Fixed tile grid (~1.1 km north-south); every search is served from whole tiles
+export const TILE_SIZE = 0.01;
+
+// Tiles older than this are refetched; OSM buildings and trees change slowly
+const MAX_TILE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Least recently used tiles are evicted beyond this many
+const MAX_CACHED_TILES = 400;
+
+// Bumped whenever parsing changes what features hold, so tiles parsed the old way are refetched
+const TILE_FORMAT_VERSION = 2;
+
+const DB_NAME = 'shadewalker';
+const DB_VERSION = 1;
+const TILE_STORE = 'featureTiles';
+
+/**
+ * One cached tile. Features are stored season-neutral (full foliage) and
+ * the trip date's foliage is applied when they are read back
+ */
+interface FeatureTile {
+    key: string;
+    bounds: GeoBounds;
+    formatVersion?: number; // TILE_FORMAT_VERSION the features were parsed with; unset before versioning
+    fetchedAt: number; // epoch ms
+    lastUsedAt: number;
+    features: ShadeFeature[];
+}
+
+/**
+ * Cached coverage summary for the debug view
+ */
+export interface CachedTileInfo {
+    key: string;
+    bounds: GeoBounds;
+    fetchedAt: number;
+    featureCount: number;
+    stale: boolean;
+}
+
+const tileKey = (latIdx: number, lngIdx: number) => `${latIdx}:${lngIdx}`;
+
+const tileBounds = (latIdx: number, lngIdx: number): GeoBounds => ({
+    south: latIdx * TILE_SIZE,
+    north: (latIdx + 1) * TILE_SIZE,
+    west: lngIdx * TILE_SIZE,
+    east: (lngIdx + 1) * TILE_SIZE
+});
+
+/**
+ * Tiles covering a bounding box, keyed by their grid position
+ */
+const tilesForBounds = (bounds: GeoBounds): Map<string, GeoBounds> => {
+    const tiles = new Map<string, GeoBounds>();
+    for (let la = Math.floor(bounds.south / TILE_SIZE); la <= Math.floor(bounds.north / TILE_SIZE); la++) {
+        for (let ln = Math.floor(bounds.west / TILE_SIZE); ln <= Math.floor(bounds.east / TILE_SIZE); ln++) {
+            tiles.set(tileKey(la, ln), tileBounds(la, ln));
+        }
+    }
+    return tiles;
+};
+
+const isStale = (tile: FeatureTile, now: number) => now - tile.fetchedAt > MAX_TILE_AGE_MS;
+
+const isOutdatedFormat = (tile: FeatureTile) => tile.formatVersion !== TILE_FORMAT_VERSION;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Opens the cache database, or resolves null where IndexedDB isn't available
+ * (private browsing, tests, SSR) so callers fall back to direct fetching
+ */
+const openCache = (): Promise<IDBDatabase | null> => {
+    dbPromise ??= new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        try {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(TILE_STORE, { keyPath: 'key' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.error("Failed to open feature cache", request.error);
+                resolve(null);
+            };
+        } catch (e) {
+            console.error("Failed to open feature cache", e);
+            resolve(null);
+        }
+    });
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const readAllTiles = async (db: IDBDatabase): Promise<FeatureTile[]> =>
+    requestToPromise(db.transaction(TILE_STORE, 'readonly').objectStore(TILE_STORE).getAll());
+
+const readTiles = async (db: IDBDatabase, keys: string[]): Promise<Map<string, FeatureTile>> => {
+    const store = db.transaction(TILE_STORE, 'readonly').objectStore(TILE_STORE);
+    const tiles = await Promise.all(keys.map(key => requestToPromise<FeatureTile | undefined>(store.get(key))));
+    return new Map(tiles.filter((t): t is FeatureTile => !!t).map(t => [t.key, t]));
+};
+
+const transactionToPromise = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+
+const writeTiles = async (db: IDBDatabase, tiles: FeatureTile[]) => {
+    const tx = db.transaction(TILE_STORE, 'readwrite');
+    const store = tx.objectStore(TILE_STORE);
+    tiles.forEach(tile => store.put(tile));
+    await transactionToPromise(tx);
+};
+
+/**
+ * Drops the least recently used tiles beyond MAX_CACHED_TILES
+ */
+const evictTiles = async (db: IDBDatabase) => {
+    const tiles = await readAllTiles(db);
+    if (tiles.length <= MAX_CACHED_TILES) return;
+
+    const evicted = tiles.sort((a, b) => a.lastUsedAt - b.lastUsedAt).slice(0, tiles.length - MAX_CACHED_TILES);
+    const tx = db.transaction(TILE_STORE, 'readwrite');
+    const store = tx.objectStore(TILE_STORE);
+    evicted.forEach(tile => store.delete(tile.key));
+    await transactionToPromise(tx);
+};
+
+/**
+ * Fetches the given tiles with a single query over their combined bounds and
+ * files every feature under each tile its footprint overlaps
+ */
+const fetchTiles = async (tiles: Map<string, GeoBounds>): Promise<FeatureTile[]> => {
+    const all = [...tiles.values()];
+    const bounds: GeoBounds = {
+        south: Math.min(...all.map(b => b.south)),
+        north: Math.max(...all.map(b => b.north)),
+        west: Math.min(...all.map(b => b.west)),
+        east: Math.max(...all.map(b => b.east))
+    };
+
+    // Parse season-neutral; foliage for the trip date is applied on read
+    const elements = await getFeatureSource().fetchElements(bounds, 'shade');
+    const features = parseOverpassData({ elements });
+
+    const now = Date.now();
+    const fetched = new Map<string, FeatureTile>();
+    tiles.forEach((tileBox, key) => {
+        fetched.set(key, { key, bounds: tileBox, formatVersion: TILE_FORMAT_VERSION, fetchedAt: now, lastUsedAt: now, features: [] });
+    });
+
+    features.forEach(feature => {
+        const box = getBoundingBox(feature.coordinates);
+        tilesForBounds({ south: box.minLat, north: box.maxLat, west: box.minLng, east: box.maxLng })
+            .forEach((_, key) => fetched.get(key)?.features.push(feature));
+    });
+
+    return [...fetched.values()];
+};
+
+/**
+ * Shade features for a bounding box, served from the IndexedDB tile cache
+ * Only missing, stale or outdated tiles are requested from the feature source; features
+ * spanning several tiles are merged back by id. Falls back to a direct fetch
+ * when IndexedDB is unavailable
+ */
+export const getCachedShadeFeatures = async (
+    boundingBox: GeoBounds,
+    date: Date,
+    forceRefresh = false
+): Promise<ShadeFeature[]> => {
+    const db = await openCache();
+    if (!db) return fetchShadeFeatures(boundingBox, date);
+
+    try {
+        const needed = tilesForBounds(boundingBox);
+        const cached = await readTiles(db, [...needed.keys()]);
+        const now = Date.now();
+
+        const missing = new Map([...needed].filter(([key]) => {
+            const tile = cached.get(key);
+            return forceRefresh || !tile || isStale(tile, now) || isOutdatedFormat(tile);
+        }));
+
+        if (missing.size > 0) {
+            console.log(`Feature cache: fetching ${missing.size} of ${needed.size} tiles`);
+            try {
+                const fetched = await fetchTiles(missing);
+                await writeTiles(db, fetched);
+                fetched.forEach(tile => cached.set(tile.key, tile));
+            } catch (e) {
+                // Stale tiles are still better than nothing when offline
+                console.error("Failed to fetch feature tiles", e);
+            }
+        }
+
+        // Mark the tiles as used for LRU eviction
+        const used = [...needed.keys()].map(key => cached.get(key)).filter((t): t is FeatureTile => !!t);
+        used.forEach(tile => { tile.lastUsedAt = now; });
+        await writeTiles(db, used);
+        await evictTiles(db);
+
+        const merged = new Map<number, ShadeFeature>();
+        used.forEach(tile => tile.features.forEach(f => merged.set(f.id, f)));
+        return applySeasonalFoliage([...merged.values()], date);
+    } catch (e) {
+        console.error("Feature cache failed, fetching directly", e);
+        return fetchShadeFeatures(boundingBox, date);
+    }
+};
+
+/**
+ * Refetches every tile covering a bounding box, ignoring their age
+ */
+export const refreshCachedTiles = (boundingBox: GeoBounds, date: Date) =>
+    getCachedShadeFeatures(boundingBox, date, true);
+
+/**
+ * Empties the tile cache
+ */
+export const clearFeatureCache = async () => {
+    const db = await openCache();
+    if (!db) return;
+    await requestToPromise(db.transaction(TILE_STORE, 'readwrite').objectStore(TILE_STORE).clear());
+};
+
+/**
+ * Lists cached tiles for the debug coverage view
+ */
+export const getCachedCoverage = async (): Promise<CachedTileInfo[]> => {
+    const db = await openCache();
+    if (!db) return [];
+
+    const now = Date.now();
+    const tiles = await readAllTiles(db);
+    return tiles.map(tile => ({
+        key: tile.key,
+        bounds: tile.bounds,
+        fetchedAt: tile.fetchedAt,
+        featureCount: tile.features.length,
+        stale: isStale(tile, now)
+    }));
+};
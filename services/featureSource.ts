@@ -0,0 +1,273 @@
+import { parseOsmExtract } from './osmExtract';
+
+export type GeoBounds = { north: number; south: number; east: number; west: number };
+
+export type OsmElementType = 'node' | 'way' | 'relation';
+
+/**
+ * A raw OSM element in Overpass JSON shape, whatever source it came from
+ */
+export interface OsmElement {
+    type: OsmElementType;
+    id: number;
+    lat?: number; // nodes only
+    lon?: number;
+    nodes?: number[]; // ways only
+    members?: { type: OsmElementType; ref: number; role: string }[]; // relations only
+    tags?: Record<string, string>;
+}
+
+// What a query is for: shade-producing features or the pedestrian network
+export type OsmQueryKind = 'shade' | 'walkways';
+
+/**
+ * Where OSM data comes from
+ * Sources return raw elements (matched elements plus the nodes and member ways they
+ * reference, like Overpass' `out body; >;`) so every source goes through the same parsers
+ */
+export interface FeatureSource {
+    name: string;
+    fetchElements: (boundingBox: GeoBounds, kind: OsmQueryKind) => Promise<OsmElement[]>;
+}
+
+interface TagCondition {
+    key: string;
+    op?: '=' | '!=' | '~'; // Omitted: the key only has to be present
+    value?: string;
+}
+
+interface OsmSelector {
+    types: OsmElementType[];
+    conditions: TagCondition[];
+}
+
+const has = (key: string): TagCondition => ({ key });
+const is = (key: string, value: string): TagCondition => ({ key, op: '=', value });
+const isNot = (key: string, value: string): TagCondition => ({ key, op: '!=', value });
+const matches = (key: string, value: string): TagCondition => ({ key, op: '~', value });
+
+// Highway classes a pedestrian can reasonably walk along
+export const WALKABLE_HIGHWAYS = [
+    'footway', 'pedestrian', 'path', 'steps', 'living_street', 'residential',
+    'service', 'unclassified', 'tertiary', 'secondary', 'primary', 'cycleway',
+    'track', 'corridor', 'road'
+];
+
+// Selectors are shared by the Overpass query and the local extract filter,
+// so both sources return the same elements
+const QUERY_SELECTORS: Record<OsmQueryKind, OsmSelector[]> = {
+    shade: [
+        // Buildings
+        { types: ['way', 'relation'], conditions: [has('building')] },
+        // Individual trees
+        { types: ['node'], conditions: [is('natural', 'tree')] },
+        // Tree rows (linear tree features)
+        { types: ['way'], conditions: [is('natural', 'tree_row')] },
+        // Parks and gardens (partial shade from scattered trees)
+        { types: ['way', 'relation'], conditions: [is('leisure', 'park')] },
+        { types: ['way', 'relation'], conditions: [is('leisure', 'garden')] },
+        // Forests and woods (dense canopy)
+        { types: ['way', 'relation'], conditions: [is('landuse', 'forest')] },
+        { types: ['way', 'relation'], conditions: [is('natural', 'wood')] },
+        // Building parts (Simple 3D Buildings) - replace their outline when present
+        { types: ['way', 'relation'], conditions: [has('building:part')] },
+        // Covered walkways and arcades
+        { types: ['way'], conditions: [is('covered', 'yes'), has('highway')] },
+        // Bridge decks and elevated walkways (shade the ground beneath)
+        { types: ['way'], conditions: [is('man_made', 'bridge')] }
+    ],
+    walkways: [
+        {
+            types: ['way'],
+            conditions: [matches('highway', `^(${WALKABLE_HIGHWAYS.join('|')})$`), isNot('foot', 'no'), isNot('access', 'private')]
+        }
+    ]
+};
+
+/**
+ * Overpass QL for a query kind, e.g. `way["natural"="tree_row"](s,w,n,e);`
+ */
+const buildOverpassQuery = (boundingBox: GeoBounds, kind: OsmQueryKind): string => {
+    const bbox = `${boundingBox.south},${boundingBox.west},${boundingBox.north},${boundingBox.east}`;
+    const statements = QUERY_SELECTORS[kind].flatMap(selector => {
+        const filters = selector.conditions
+            .map(c => c.op ? `["${c.key}"${c.op}"${c.value}"]` : `["${c.key}"]`)
+            .join('');
+        return selector.types.map(type => `${type}${filters}(${bbox});`);
+    });
+
+    return `
+        [out:json][timeout:30];
+        (
+          ${statements.join('\n          ')}
+        );
+        out body;
+        >;
+        out skel qt;
+    `;
+};
+
+/**
+ * Live Overpass API source
+ */
+export const overpassSource: FeatureSource = {
+    name: 'Overpass API',
+    fetchElements: async (boundingBox, kind) => {
+        const response = await fetch("https://overpass-api.de/api/interpreter", {
+            method: "POST",
+            body: buildOverpassQuery(boundingBox, kind)
+        });
+
+        const data = await response.json();
+        return data.elements || [];
+    }
+};
+
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Same semantics as Overpass tag filters: `!=` also matches a missing key
+ */
+const matchesSelector = (el: OsmElement, selector: OsmSelector): boolean => {
+    if (!el.tags || !selector.types.includes(el.type)) return false;
+    const tags = el.tags;
+
+    return selector.conditions.every(c => {
+        const value = tags[c.key];
+        switch (c.op) {
+            case '=': return value === c.value;
+            case '!=': return value !== c.value;
+            case '~': {
+                if (value === undefined) return false;
+                if (!patternCache.has(c.value!)) patternCache.set(c.value!, new RegExp(c.value!));
+                return patternCache.get(c.value!)!.test(value);
+            }
+            default: return value !== undefined;
+        }
+    });
+};
+
+/**
+ * Source backed by a pre-baked OSM extract held in memory
+ * Accepts `.osm.pbf`, `.osm` XML or GeoJSON content; the format is detected from the data
+ */
+export const createLocalExtractSource = (
+    extract: ArrayBuffer | string | (() => Promise<ArrayBuffer | string>),
+    name = 'Local OSM extract'
+): FeatureSource => {
+    let loaded: Promise<{
+        nodes: Map<number, OsmElement>;
+        ways: Map<number, OsmElement>;
+        relations: Map<number, OsmElement>;
+    }> | null = null;
+
+    // Parse lazily, once, and keep the elements indexed by id
+    // A failed download or parse is forgotten, so the next query tries again
+    const load = () => {
+        loaded ??= (async () => {
+            const elements = await parseOsmExtract(typeof extract === 'function' ? await extract() : extract);
+            const store = { nodes: new Map(), ways: new Map(), relations: new Map() };
+            elements.forEach(el => {
+                const byType = el.type === 'node' ? store.nodes : el.type === 'way' ? store.ways : store.relations;
+                byType.set(el.id, el);
+            });
+            return store;
+        })().catch(error => {
+            loaded = null;
+            throw error;
+        });
+        return loaded;
+    };
+
+    return {
+        name,
+        fetchElements: async (boundingBox, kind) => {
+            const { nodes, ways, relations } = await load();
+            const selectors = QUERY_SELECTORS[kind];
+            const isMatch = (el: OsmElement) => selectors.some(s => matchesSelector(el, s));
+
+            const inBounds = (node?: OsmElement) => !!node &&
+                node.lat! >= boundingBox.south && node.lat! <= boundingBox.north &&
+                node.lon! >= boundingBox.west && node.lon! <= boundingBox.east;
+
+            // A way is kept when its bounding box overlaps the query, so areas
+            // that enclose the whole query (a large park) aren't missed
+            const wayOverlaps = (way?: OsmElement) => {
+                if (!way?.nodes) return false;
+                let south = Infinity, north = -Infinity, west = Infinity, east = -Infinity;
+                way.nodes.forEach(id => {
+                    const node = nodes.get(id);
+                    if (!node) return;
+                    south = Math.min(south, node.lat!);
+                    north = Math.max(north, node.lat!);
+                    west = Math.min(west, node.lon!);
+                    east = Math.max(east, node.lon!);
+                });
+                return south <= boundingBox.north && north >= boundingBox.south &&
+                    west <= boundingBox.east && east >= boundingBox.west;
+            };
+
+            const result: OsmElement[] = [];
+            const neededWays = new Set<number>();
+            const neededNodes = new Set<number>();
+
+            nodes.forEach(node => {
+                if (isMatch(node) && inBounds(node)) result.push(node);
+            });
+            ways.forEach(way => {
+                if (!isMatch(way) || !wayOverlaps(way)) return;
+                result.push(way);
+                way.nodes!.forEach(id => neededNodes.add(id));
+            });
+            relations.forEach(relation => {
+                if (!isMatch(relation) || !relation.members) return;
+                const overlaps = relation.members.some(m =>
+                    m.type === 'way' ? wayOverlaps(ways.get(m.ref)) : m.type === 'node' && inBounds(nodes.get(m.ref))
+                );
+                if (!overlaps) return;
+                result.push(relation);
+                relation.members.forEach(m => {
+                    if (m.type === 'way') neededWays.add(m.ref);
+                    if (m.type === 'node') neededNodes.add(m.ref);
+                });
+            });
+
+            // Recurse down like Overpass' `>`: member ways and nodes come back without tags
+            const matchedWays = new Set(result.filter(el => el.type === 'way').map(el => el.id));
+            const matchedNodes = new Set(result.filter(el => el.type === 'node').map(el => el.id));
+            neededWays.forEach(id => {
+                const way = ways.get(id);
+                if (!way || matchedWays.has(id)) return;
+                result.push({ type: 'way', id, nodes: way.nodes });
+                way.nodes!.forEach(nid => neededNodes.add(nid));
+            });
+            neededNodes.forEach(id => {
+                const node = nodes.get(id);
+                if (node && !matchedNodes.has(id)) result.push({ type: 'node', id, lat: node.lat, lon: node.lon });
+            });
+
+            return result;
+        }
+    };
+};
+
+/**
+ * Local extract downloaded once from a URL (e.g. a city extract served next to the app)
+ */
+export const createLocalExtractSourceFromUrl = (url: string): FeatureSource =>
+    createLocalExtractSource(async () => {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Failed to load OSM extract ${url}: ${response.status}`);
+        return response.arrayBuffer();
+    }, `Local OSM extract (${url})`);
+
+let activeSource: FeatureSource = overpassSource;
+
+export const getFeatureSource = (): FeatureSource => activeSource;
+
+/**
+ * Switches where shade features and the walking graph are read from
+ */
+export const setFeatureSource = (source: FeatureSource) => {
+    activeSource = source;
+};
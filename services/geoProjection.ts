@@ -0,0 +1,79 @@
+import { Coordinates } from '../types';
+
+// Mean metres per degree of latitude (WGS84 is within 0.5% of this everywhere)
+export const METERS_PER_DEGREE = 111320;
+
+/**
+ * Point in a local east/north frame, in metres from the frame's origin
+ */
+export interface LocalPoint {
+    x: number; // East
+    y: number; // North
+}
+
+/**
+ * Local tangent plane around an origin
+ * Equirectangular scaling at the origin's latitude; distortion stays below 0.1%
+ * within a few kilometres, which covers any walking route
+ */
+export interface LocalFrame {
+    origin: Coordinates;
+    metersPerDegreeLat: number;
+    metersPerDegreeLng: number;
+}
+
+export const createLocalFrame = (origin: Coordinates): LocalFrame => ({
+    origin,
+    metersPerDegreeLat: METERS_PER_DEGREE,
+    metersPerDegreeLng: METERS_PER_DEGREE * Math.cos((origin.lat * Math.PI) / 180)
+});
+
+export const toLocal = (frame: LocalFrame, coord: Coordinates): LocalPoint => ({
+    x: (coord.lng - frame.origin.lng) * frame.metersPerDegreeLng,
+    y: (coord.lat - frame.origin.lat) * frame.metersPerDegreeLat
+});
+
+export const fromLocal = (frame: LocalFrame, point: LocalPoint): Coordinates => ({
+    lat: frame.origin.lat + point.y / frame.metersPerDegreeLat,
+    lng: frame.origin.lng + point.x / frame.metersPerDegreeLng
+});
+
+/**
+ * Moves a coordinate by metres east and north
+ */
+export const offsetByMeters = (coord: Coordinates, east: number, north: number): Coordinates =>
+    fromLocal(createLocalFrame(coord), { x: east, y: north });
+
+/**
+ * Width and height of a bounding box in metres, measured at its centre latitude
+ */
+export const getBoundsSizeMeters = (bounds: { north: number; south: number; east: number; west: number }) => {
+    const frame = createLocalFrame({ lat: (bounds.north + bounds.south) / 2, lng: bounds.west });
+    return {
+        width: (bounds.east - bounds.west) * frame.metersPerDegreeLng,
+        height: (bounds.north - bounds.south) * frame.metersPerDegreeLat
+    };
+};
+
+/**
+ * Shifts a line sideways by a distance in metres, per vertex or for the whole line
+ * Positive offsets go to the left of the direction of travel; each vertex moves along
+ * the normal of the chord through its neighbours, so corners stay joined
+ */
+export const offsetLine = (line: Coordinates[], offsetMeters: number | number[]): Coordinates[] => {
+    if (line.length < 2) return line;
+
+    const frame = createLocalFrame(line[0]);
+    const points = line.map(c => toLocal(frame, c));
+
+    return points.map((curr, i) => {
+        const prev = points[i - 1] || curr;
+        const next = points[i + 1] || curr;
+        const offset = Array.isArray(offsetMeters) ? offsetMeters[i] : offsetMeters;
+
+        const dx = next.x - prev.x;
+        const dy = next.y - prev.y;
+        const len = Math.sqrt(dx * dx + dy * dy) || 1;
+        return fromLocal(frame, { x: curr.x - (dy / len) * offset, y: curr.y + (dx / len) * offset });
+    });
+};
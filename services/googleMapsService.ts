@@ -4,7 +4,8 @@ import { Coordinates } from '../types';
 export const getDirections = async (
     origin: string,
     destination: string,
-    mode: google.maps.TravelMode = google.maps.TravelMode.WALKING
+    mode: google.maps.TravelMode = google.maps.TravelMode.WALKING,
+    waypoints: string[] = []
 ): Promise<google.maps.DirectionsResult> => {
     const directionsService = new google.maps.DirectionsService();
 
@@ -14,7 +15,8 @@ export const getDirections = async (
                 origin,
                 destination,
                 travelMode: mode,
-                provideRouteAlternatives: true, // We want multiple routes to calculate shade for
+                waypoints: waypoints.map(location => ({ location, stopover: true })),
+                provideRouteAlternatives: true, // We want multiple routes to calculate shade for (ignored with waypoints)
             },
             (result, status) => {
                 if (status === google.maps.DirectionsStatus.OK && result) {
@@ -27,6 +29,20 @@ export const getDirections = async (
     });
 };
 
+export const geocodeAddress = async (address: string): Promise<Coordinates> => {
+    const geocoder = new google.maps.Geocoder();
+    return new Promise((resolve, reject) => {
+        geocoder.geocode({ address }, (results, status) => {
+            const location = results?.[0]?.geometry.location;
+            if (status === google.maps.GeocoderStatus.OK && location) {
+                resolve({ lat: location.lat(), lng: location.lng() });
+            } else {
+                reject(new Error(`Geocoding failed: ${status}`));
+            }
+        });
+    });
+};
+
 export const getPlaceDetails = async (placeId: string): Promise<google.maps.places.PlaceResult> => {
     const service = new google.maps.places.PlacesService(document.createElement('div'));
     return new Promise((resolve, reject) => {
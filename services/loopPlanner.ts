@@ -0,0 +1,159 @@
+import { Coordinates } from '../types';
+import { buildGraphRoute, findCheapestPath, findNearestNode, GraphRoute, WalkGraph } from './routingEngine';
+import { offsetByMeters } from './geoProjection';
+
+// Street networks run about this much longer than the straight lines between the same points
+const DETOUR_FACTOR = 1.3;
+
+// First-turn headings tried around the start (evenly spaced)
+const LOOP_HEADINGS = 8;
+
+// Loops further than this share from the target distance are dropped
+const DISTANCE_TOLERANCE = 0.3;
+
+// Loops sharing more than this share of their length with a better one are dropped
+const MAX_OVERLAP = 0.6;
+
+// Edge cost weights: sunny edges cost up to (1 + SUN_PENALTY) times their length,
+// green ones down to (1 - GREEN_DISCOUNT), and walking a street twice REUSE_PENALTY times
+const SUN_PENALTY = 2;
+const GREEN_DISCOUNT = 0.5;
+const REUSE_PENALTY = 5;
+
+// Ranking bonus (shade percentage points) for a loop entirely through green space
+const GREEN_RANK_BONUS = 20;
+
+const DIRECTIONS = ['North', 'North-East', 'East', 'South-East', 'South', 'South-West', 'West', 'North-West'];
+
+/**
+ * A walk that ends where it starts
+ */
+export interface LoopWalk extends GraphRoute {
+    heading: number; // Compass bearing of the loop's first turn (deg)
+    greenShare: number; // Share of the distance through parks, forests or along tree rows (0-1)
+}
+
+/**
+ * Undirected key so a street walked in either direction counts as the same street
+ */
+const streetKey = (graph: WalkGraph, edgeIdx: number) => {
+    const { from, to } = graph.edges[edgeIdx];
+    return from < to ? `${from}-${to}` : `${to}-${from}`;
+};
+
+/**
+ * Routes a closed triangle start -> A -> B -> start, A and B `radius` metres out at
+ * `heading` and 60° clockwise of it. Streets already walked are penalised so the way
+ * back differs from the way out
+ */
+const routeTriangle = (
+    graph: WalkGraph,
+    start: number,
+    heading: number,
+    radius: number,
+    exposure: Float64Array,
+    greenery: Float64Array,
+    shadePreference: number
+): number[] | null => {
+    const origin = graph.nodes.get(start)!;
+    const corner = (bearing: number) => {
+        const rad = (bearing * Math.PI) / 180;
+        return findNearestNode(graph, offsetByMeters(origin, radius * Math.sin(rad), radius * Math.cos(rad)));
+    };
+    const a = corner(heading);
+    const b = corner(heading + 60);
+    if (a === null || b === null || a === b || a === start || b === start) return null;
+
+    const walked = new Set<string>();
+    const edgePath: number[] = [];
+    for (const [from, to] of [[start, a], [a, b], [b, start]]) {
+        const leg = findCheapestPath(graph, from, to, edgeIdx =>
+            graph.edges[edgeIdx].length *
+            (1 + SUN_PENALTY * shadePreference * exposure[edgeIdx]) *
+            (1 - GREEN_DISCOUNT * greenery[edgeIdx]) *
+            (walked.has(streetKey(graph, edgeIdx)) ? REUSE_PENALTY : 1)
+        );
+        if (!leg) return null;
+        leg.forEach(edgeIdx => walked.add(streetKey(graph, edgeIdx)));
+        edgePath.push(...leg);
+    }
+    return edgePath;
+};
+
+const getLength = (graph: WalkGraph, edgePath: number[]) =>
+    edgePath.reduce((sum, edgeIdx) => sum + graph.edges[edgeIdx].length, 0);
+
+/**
+ * Generates loop walks of about `targetMeters` from the start, one per first-turn heading
+ * Each loop is a triangle through the walkable graph; its size is corrected once against the
+ * actual street distance. Loops too far off the target or mostly repeating a better one are
+ * dropped; up to `maxLoops` of the rest come back closest to the target first
+ */
+export const generateLoopWalks = (
+    graph: WalkGraph,
+    origin: Coordinates,
+    targetMeters: number,
+    exposure: Float64Array,
+    greenery: Float64Array,
+    shadePreference: number = 1,
+    maxLoops: number = 5
+): LoopWalk[] => {
+    const start = findNearestNode(graph, origin);
+    if (start === null || targetMeters <= 0) return [];
+
+    const candidates: { heading: number; edgePath: number[]; length: number }[] = [];
+    for (let i = 0; i < LOOP_HEADINGS; i++) {
+        const heading = (360 / LOOP_HEADINGS) * i;
+        let radius = targetMeters / (3 * DETOUR_FACTOR);
+        let edgePath = routeTriangle(graph, start, heading, radius, exposure, greenery, shadePreference);
+        if (!edgePath) continue;
+
+        // Rescale once by how far the streets stretched or shortened the triangle
+        const firstLength = getLength(graph, edgePath);
+        if (Math.abs(firstLength - targetMeters) > targetMeters * DISTANCE_TOLERANCE / 2 && firstLength > 0) {
+            radius *= targetMeters / firstLength;
+            edgePath = routeTriangle(graph, start, heading, radius, exposure, greenery, shadePreference) || edgePath;
+        }
+
+        const length = getLength(graph, edgePath);
+        if (Math.abs(length - targetMeters) <= targetMeters * DISTANCE_TOLERANCE) {
+            candidates.push({ heading, edgePath, length });
+        }
+    }
+
+    candidates.sort((a, b) => Math.abs(a.length - targetMeters) - Math.abs(b.length - targetMeters));
+
+    // Drop near-duplicates: neighbouring headings often snap to the same streets
+    const kept: typeof candidates = [];
+    candidates.forEach(candidate => {
+        const streets = new Set(candidate.edgePath.map(edgeIdx => streetKey(graph, edgeIdx)));
+        const overlapsKept = kept.some(other => {
+            const shared = other.edgePath
+                .filter(edgeIdx => streets.has(streetKey(graph, edgeIdx)))
+                .reduce((sum, edgeIdx) => sum + graph.edges[edgeIdx].length, 0);
+            return shared / Math.min(candidate.length, other.length) > MAX_OVERLAP;
+        });
+        if (!overlapsKept && kept.length < maxLoops) kept.push(candidate);
+    });
+
+    return kept.map(({ heading, edgePath, length }) => ({
+        ...buildGraphRoute(graph, start, edgePath),
+        heading,
+        greenShare: length > 0
+            ? edgePath.reduce((sum, edgeIdx) => sum + graph.edges[edgeIdx].length * greenery[edgeIdx], 0) / length
+            : 0
+    }));
+};
+
+/**
+ * Ranking score for a scored loop: its average shade, plus a bonus for green surroundings
+ */
+export const scoreLoopWalk = (averageShade: number, greenShare: number) =>
+    averageShade + GREEN_RANK_BONUS * greenShare;
+
+/**
+ * Compass direction the loop heads out in, e.g. "North-East"
+ * The triangle's corners sit at its heading and 60° clockwise of it, so it's centred 30° on
+ */
+export const getLoopDirection = (loop: Pick<LoopWalk, 'heading'>) =>
+    DIRECTIONS[Math.round((((loop.heading + 30) % 360) + 360) % 360 / 45) % 8];
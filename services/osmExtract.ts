@@ -0,0 +1,470 @@
+import { OsmElement, OsmElementType } from './featureSource';
+
+/**
+ * Parses an OSM extract into Overpass-shaped elements
+ * The format is sniffed from the content: `.osm` XML, GeoJSON, otherwise `.osm.pbf`
+ */
+export const parseOsmExtract = async (extract: ArrayBuffer | string): Promise<OsmElement[]> => {
+    if (typeof extract !== 'string') {
+        const head = new TextDecoder().decode(extract.slice(0, 64)).trimStart();
+        if (!head.startsWith('<') && !head.startsWith('{')) return parseOsmPbf(extract);
+        extract = new TextDecoder().decode(extract);
+    }
+
+    const text = extract.trimStart();
+    if (text.startsWith('{')) return parseOsmGeoJson(JSON.parse(text));
+    if (text.startsWith('<')) return parseOsmXml(text);
+    throw new Error('Unrecognised OSM extract format');
+};
+
+// Attribute values may legally contain '>', so attributes are matched as quoted strings
+const XML_ELEMENT = /<(\/?)(node|way|relation|nd|tag|member)\b((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/g;
+const XML_ATTRIBUTE = /([\w:]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXmlEntities = (value: string) =>
+    value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+        if (code[0] !== '#') return XML_ENTITIES[code] ?? entity;
+        return String.fromCodePoint(code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    });
+
+const parseXmlAttributes = (source: string): Record<string, string> => {
+    const attrs: Record<string, string> = {};
+    for (const m of source.matchAll(XML_ATTRIBUTE)) attrs[m[1]] = decodeXmlEntities(m[2] ?? m[3]);
+    return attrs;
+};
+
+/**
+ * Parses OSM XML as written by JOSM, osmium or the OSM API
+ */
+export const parseOsmXml = (xml: string): OsmElement[] => {
+    const elements: OsmElement[] = [];
+    let current: OsmElement | null = null;
+
+    for (const m of xml.matchAll(XML_ELEMENT)) {
+        const [, closing, name, attrSource, selfClosing] = m;
+
+        if (closing) {
+            if (current && current.type === name) elements.push(current);
+            current = null;
+            continue;
+        }
+
+        const attrs = parseXmlAttributes(attrSource);
+
+        if (name === 'node' || name === 'way' || name === 'relation') {
+            const el: OsmElement = { type: name, id: Number(attrs.id) };
+            if (name === 'node') {
+                el.lat = Number(attrs.lat);
+                el.lon = Number(attrs.lon);
+            }
+            if (name === 'way') el.nodes = [];
+            if (name === 'relation') el.members = [];
+
+            if (selfClosing) elements.push(el);
+            else current = el;
+        } else if (current) {
+            if (name === 'tag') {
+                current.tags ??= {};
+                current.tags[attrs.k] = attrs.v;
+            } else if (name === 'nd') {
+                current.nodes?.push(Number(attrs.ref));
+            } else if (name === 'member') {
+                current.members?.push({ type: attrs.type as OsmElementType, ref: Number(attrs.ref), role: attrs.role || '' });
+            }
+        }
+    }
+
+    return elements;
+};
+
+// Ids for nodes and ways synthesised from GeoJSON coordinates, well clear of real OSM ids
+const SYNTHETIC_ID_START = 1e12;
+
+/**
+ * Reads the OSM type and id of a GeoJSON feature ("way/123", or `@type` / `@id` properties)
+ */
+const readGeoJsonIdentity = (feature: any): { type?: OsmElementType; id?: number } => {
+    const props = feature.properties || {};
+    const ref = String(feature.id ?? props['@id'] ?? props.id ?? '');
+    const m = ref.match(/^(node|way|relation)\/(\d+)$/);
+    if (m) return { type: m[1] as OsmElementType, id: Number(m[2]) };
+
+    const type = props['@type'] ?? props.type;
+    const id = Number(ref);
+    return {
+        type: type === 'node' || type === 'way' || type === 'relation' ? type : undefined,
+        id: ref && Number.isFinite(id) ? id : undefined
+    };
+};
+
+/**
+ * Tags are either flat properties or nested under `tags` (older osmtogeojson)
+ */
+const readGeoJsonTags = (props: any): Record<string, string> => {
+    const source = props?.tags && typeof props.tags === 'object' ? props.tags : props || {};
+    const tags: Record<string, string> = {};
+    Object.entries(source).forEach(([key, value]) => {
+        if (key.startsWith('@') || key === 'id' || key === 'type' || typeof value === 'object') return;
+        tags[key] = String(value);
+    });
+    return tags;
+};
+
+/**
+ * Converts a GeoJSON FeatureCollection of OSM features back into elements
+ * Geometry vertices become synthetic nodes, polygons with holes and multipolygons
+ * become relations over synthetic member ways
+ */
+export const parseOsmGeoJson = (geojson: any): OsmElement[] => {
+    const elements: OsmElement[] = [];
+    let nextId = SYNTHETIC_ID_START;
+
+    const addNode = ([lon, lat]: number[]) => {
+        const id = nextId++;
+        elements.push({ type: 'node', id, lat, lon });
+        return id;
+    };
+
+    const addWay = (line: number[][], id = nextId++, tags?: Record<string, string>) => {
+        // Closed GeoJSON rings repeat the first vertex; closed OSM ways repeat the first node id
+        const closed = line.length > 3 && line[0][0] === line[line.length - 1][0] && line[0][1] === line[line.length - 1][1];
+        const nodes = (closed ? line.slice(0, -1) : line).map(addNode);
+        if (closed) nodes.push(nodes[0]);
+        elements.push({ type: 'way', id, nodes, ...(tags ? { tags } : {}) });
+        return id;
+    };
+
+    const addRelation = (polygons: number[][][][], id: number | undefined, tags: Record<string, string>) => {
+        const members = polygons.flatMap(rings => rings.map((ring, i) => ({
+            type: 'way' as const,
+            ref: addWay(ring),
+            role: i === 0 ? 'outer' : 'inner'
+        })));
+        elements.push({ type: 'relation', id: id ?? nextId++, members, tags: { type: 'multipolygon', ...tags } });
+    };
+
+    const features = geojson?.type === 'FeatureCollection' ? geojson.features : geojson?.type === 'Feature' ? [geojson] : [];
+
+    (features || []).forEach((feature: any) => {
+        const geometry = feature.geometry;
+        if (!geometry) return;
+
+        const tags = readGeoJsonTags(feature.properties);
+        const { type, id } = readGeoJsonIdentity(feature);
+
+        switch (geometry.type) {
+            case 'Point': {
+                const [lon, lat] = geometry.coordinates;
+                elements.push({ type: 'node', id: type === 'node' && id !== undefined ? id : nextId++, lat, lon, tags });
+                break;
+            }
+            case 'LineString':
+                addWay(geometry.coordinates, type === 'way' && id !== undefined ? id : nextId++, tags);
+                break;
+            case 'Polygon':
+                if (geometry.coordinates.length === 1 && type !== 'relation') {
+                    addWay(geometry.coordinates[0], id ?? nextId++, tags);
+                } else {
+                    addRelation([geometry.coordinates], type === 'relation' ? id : undefined, tags);
+                }
+                break;
+            case 'MultiPolygon':
+                addRelation(geometry.coordinates, type === 'relation' ? id : undefined, tags);
+                break;
+            case 'MultiLineString':
+                // e.g. a tree row split in pieces; each piece becomes its own way
+                geometry.coordinates.forEach((line: number[][]) => addWay(line, nextId++, tags));
+                break;
+        }
+    });
+
+    return elements;
+};
+
+/**
+ * Minimal protobuf wire-format reader, just enough for the OSM PBF schema
+ * 64-bit varints are accumulated as doubles: exact up to 2^53, plenty for OSM ids
+ */
+class ProtoReader {
+    private pos: number;
+
+    constructor(private buf: Uint8Array, start = 0, private end = buf.length) {
+        this.pos = start;
+    }
+
+    get done() {
+        return this.pos >= this.end;
+    }
+
+    /** Reads the next field key, returning its number and wire type */
+    key() {
+        const key = this.varint();
+        return { field: Math.floor(key / 8), wireType: key & 7 };
+    }
+
+    varint(): number {
+        let result = 0;
+        let multiplier = 1;
+        let byte: number;
+        do {
+            byte = this.buf[this.pos++];
+            result += (byte & 0x7f) * multiplier;
+            multiplier *= 128;
+        } while (byte & 0x80);
+        return result;
+    }
+
+    /** int64 with two's complement negatives */
+    int64(): number {
+        const value = this.varint();
+        return value >= 2 ** 63 ? value - 2 ** 64 : value;
+    }
+
+    /** sint64, zigzag encoded */
+    sint64(): number {
+        const value = this.varint();
+        return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+    }
+
+    bytes(): Uint8Array {
+        const length = this.varint();
+        const start = this.pos;
+        this.pos += length;
+        return this.buf.subarray(start, this.pos);
+    }
+
+    /** Sub-reader over a length-delimited field (packed arrays, embedded messages) */
+    message(): ProtoReader {
+        const length = this.varint();
+        const reader = new ProtoReader(this.buf, this.pos, this.pos + length);
+        this.pos += length;
+        return reader;
+    }
+
+    packed(read: (reader: ProtoReader) => number): number[] {
+        const reader = this.message();
+        const values: number[] = [];
+        while (!reader.done) values.push(read(reader));
+        return values;
+    }
+
+    skip(wireType: number) {
+        if (wireType === 0) this.varint();
+        else if (wireType === 1) this.pos += 8;
+        else if (wireType === 2) this.pos += this.varint();
+        else if (wireType === 5) this.pos += 4;
+        else throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+}
+
+const RELATION_MEMBER_TYPES: OsmElementType[] = ['node', 'way', 'relation'];
+
+/**
+ * zlib-compressed blob payloads, inflated with the platform's DecompressionStream
+ */
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Unwraps a fileblock's Blob message into the raw PrimitiveBlock / HeaderBlock bytes
+ */
+const readBlob = async (blob: Uint8Array): Promise<Uint8Array> => {
+    const reader = new ProtoReader(blob);
+    while (!reader.done) {
+        const { field, wireType } = reader.key();
+        if (field === 1) return reader.bytes(); // raw
+        if (field === 3) return inflate(reader.bytes()); // zlib_data
+        if (field === 4 || field === 6 || field === 7) throw new Error('Only raw and zlib compressed PBF blobs are supported');
+        reader.skip(wireType);
+    }
+    return new Uint8Array(0);
+};
+
+/**
+ * Decodes one PrimitiveBlock: string table, coordinate scaling and its primitive groups
+ */
+const readPrimitiveBlock = (data: Uint8Array, elements: OsmElement[]) => {
+    const reader = new ProtoReader(data);
+    const strings: string[] = [];
+    const groups: ProtoReader[] = [];
+    let granularity = 100;
+    let latOffset = 0;
+    let lonOffset = 0;
+
+    // Scaling fields come after the groups on the wire, so groups are decoded afterwards
+    while (!reader.done) {
+        const { field, wireType } = reader.key();
+        if (field === 1) {
+            const table = reader.message();
+            const decoder = new TextDecoder();
+            while (!table.done) {
+                const entry = table.key();
+                if (entry.field === 1) strings.push(decoder.decode(table.bytes()));
+                else table.skip(entry.wireType);
+            }
+        } else if (field === 2) groups.push(reader.message());
+        else if (field === 17) granularity = reader.varint();
+        else if (field === 19) latOffset = reader.int64();
+        else if (field === 20) lonOffset = reader.int64();
+        else reader.skip(wireType);
+    }
+
+    // Nanodegrees are exact integers; dividing (rather than multiplying by 1e-9) rounds once,
+    // so coordinates match the decimal values Overpass and XML extracts carry
+    const toDegrees = (offset: number, value: number) => (offset + granularity * value) / 1e9;
+    const toTags = (keys: number[], vals: number[]) => {
+        if (keys.length === 0) return undefined;
+        const tags: Record<string, string> = {};
+        keys.forEach((k, i) => { tags[strings[k]] = strings[vals[i]]; });
+        return tags;
+    };
+
+    // Delta-coded packed arrays (dense node ids/coordinates, way refs, member ids)
+    const undelta = (values: number[]) => {
+        for (let i = 1; i < values.length; i++) values[i] += values[i - 1];
+        return values;
+    };
+
+    groups.forEach(group => {
+        while (!group.done) {
+            const { field, wireType } = group.key();
+
+            if (field === 1) {
+                // Node
+                const msg = group.message();
+                const el: OsmElement = { type: 'node', id: 0, lat: 0, lon: 0 };
+                let keys: number[] = [];
+                let vals: number[] = [];
+                while (!msg.done) {
+                    const f = msg.key();
+                    if (f.field === 1) el.id = msg.sint64();
+                    else if (f.field === 2) keys = msg.packed(r => r.varint());
+                    else if (f.field === 3) vals = msg.packed(r => r.varint());
+                    else if (f.field === 8) el.lat = toDegrees(latOffset, msg.sint64());
+                    else if (f.field === 9) el.lon = toDegrees(lonOffset, msg.sint64());
+                    else msg.skip(f.wireType);
+                }
+                const tags = toTags(keys, vals);
+                if (tags) el.tags = tags;
+                elements.push(el);
+            } else if (field === 2) {
+                // DenseNodes
+                const msg = group.message();
+                let ids: number[] = [];
+                let lats: number[] = [];
+                let lons: number[] = [];
+                let keysVals: number[] = [];
+                while (!msg.done) {
+                    const f = msg.key();
+                    if (f.field === 1) ids = undelta(msg.packed(r => r.sint64()));
+                    else if (f.field === 8) lats = undelta(msg.packed(r => r.sint64()));
+                    else if (f.field === 9) lons = undelta(msg.packed(r => r.sint64()));
+                    else if (f.field === 10) keysVals = msg.packed(r => r.varint());
+                    else msg.skip(f.wireType);
+                }
+
+                // keys_vals: (key, value)* pairs per node, each node terminated by 0
+                let kv = 0;
+                ids.forEach((id, i) => {
+                    const el: OsmElement = { type: 'node', id, lat: toDegrees(latOffset, lats[i]), lon: toDegrees(lonOffset, lons[i]) };
+                    if (kv < keysVals.length) {
+                        const tags: Record<string, string> = {};
+                        let tagged = false;
+                        while (kv < keysVals.length && keysVals[kv] !== 0) {
+                            tags[strings[keysVals[kv]]] = strings[keysVals[kv + 1]];
+                            kv += 2;
+                            tagged = true;
+                        }
+                        kv++; // Skip the terminator
+                        if (tagged) el.tags = tags;
+                    }
+                    elements.push(el);
+                });
+            } else if (field === 3) {
+                // Way
+                const msg = group.message();
+                const el: OsmElement = { type: 'way', id: 0, nodes: [] };
+                let keys: number[] = [];
+                let vals: number[] = [];
+                while (!msg.done) {
+                    const f = msg.key();
+                    if (f.field === 1) el.id = msg.varint();
+                    else if (f.field === 2) keys = msg.packed(r => r.varint());
+                    else if (f.field === 3) vals = msg.packed(r => r.varint());
+                    else if (f.field === 8) el.nodes = undelta(msg.packed(r => r.sint64()));
+                    else msg.skip(f.wireType);
+                }
+                const tags = toTags(keys, vals);
+                if (tags) el.tags = tags;
+                elements.push(el);
+            } else if (field === 4) {
+                // Relation
+                const msg = group.message();
+                const el: OsmElement = { type: 'relation', id: 0, members: [] };
+                let keys: number[] = [];
+                let vals: number[] = [];
+                let roles: number[] = [];
+                let memberIds: number[] = [];
+                let memberTypes: number[] = [];
+                while (!msg.done) {
+                    const f = msg.key();
+                    if (f.field === 1) el.id = msg.varint();
+                    else if (f.field === 2) keys = msg.packed(r => r.varint());
+                    else if (f.field === 3) vals = msg.packed(r => r.varint());
+                    else if (f.field === 8) roles = msg.packed(r => r.varint());
+                    else if (f.field === 9) memberIds = undelta(msg.packed(r => r.sint64()));
+                    else if (f.field === 10) memberTypes = msg.packed(r => r.varint());
+                    else msg.skip(f.wireType);
+                }
+                el.members = memberIds.map((ref, i) => ({
+                    type: RELATION_MEMBER_TYPES[memberTypes[i]] ?? 'node',
+                    ref,
+                    role: strings[roles[i]] ?? ''
+                }));
+                const tags = toTags(keys, vals);
+                if (tags) el.tags = tags;
+                elements.push(el);
+            } else {
+                group.skip(wireType);
+            }
+        }
+    });
+};
+
+/**
+ * Parses an `.osm.pbf` file: a sequence of (length, BlobHeader, Blob) fileblocks
+ */
+export const parseOsmPbf = async (buffer: ArrayBuffer): Promise<OsmElement[]> => {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    const elements: OsmElement[] = [];
+    let offset = 0;
+
+    while (offset + 4 <= bytes.length) {
+        const headerLength = view.getUint32(offset); // Big-endian
+        offset += 4;
+
+        const header = new ProtoReader(bytes, offset, offset + headerLength);
+        let blockType = '';
+        let dataSize = 0;
+        while (!header.done) {
+            const { field, wireType } = header.key();
+            if (field === 1) blockType = new TextDecoder().decode(header.bytes());
+            else if (field === 3) dataSize = header.varint();
+            else header.skip(wireType);
+        }
+        offset += headerLength;
+
+        const blob = bytes.subarray(offset, offset + dataSize);
+        offset += dataSize;
+
+        // OSMHeader only carries metadata (bbox, required features)
+        if (blockType === 'OSMData') readPrimitiveBlock(await readBlob(blob), elements);
+    }
+
+    return elements;
+};
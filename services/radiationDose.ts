@@ -0,0 +1,72 @@
+import { Coordinates, RadiationDose } from '../types';
+import { getDirectSunTransmittance, getSunPosition } from './shadeEngine';
+import { getClearSkyDiffuseIrradiance, getClearSkyDirectIrradiance, getClearSkyUvIndex } from './solarRadiation';
+
+// One UV index unit is 25 mW/m² of erythemally weighted irradiance
+const UV_INDEX_IRRADIANCE = 0.025;
+
+const STANDARD_ERYTHEMAL_DOSE = 100; // J/m²
+const MINIMAL_ERYTHEMAL_DOSE = 250; // J/m², fair skin (type II)
+
+// About half of erythemal UV arrives as scattered skylight, which street shade barely blocks
+const DIRECT_UV_SHARE = 0.5;
+
+// Share of clear-sky UV that still gets through a full overcast
+const OVERCAST_UV_SHARE = 0.3;
+
+/**
+ * Seconds each profile sample stands for: half the gap to each neighbour
+ * Gaps across a leg boundary are time spent at a stop, not walking, so they count for neither side
+ */
+const getSampleDurations = (profile: { timeOffset: number }[], legStarts: number[] = []) =>
+    profile.map((p, i) => {
+        const before = i > 0 && !legStarts.includes(i) ? p.timeOffset - profile[i - 1].timeOffset : 0;
+        const after = i < profile.length - 1 && !legStarts.includes(i + 1) ? profile[i + 1].timeOffset - p.timeOffset : 0;
+        return ((before + after) / 2) * 60;
+    });
+
+/**
+ * Sun and UV absorbed over a walk
+ * Short-wave is the clear-sky direct beam reduced by each sample's shade level (shadow
+ * opacity and cloud), plus diffuse skylight, integrated over walking time on a horizontal
+ * surface. UV uses the forecast UV index when known, otherwise a clear-sky estimate dimmed
+ * by cloud; shade only removes its direct part
+ * For trips with stops, legStarts holds the first sample of each leg so dwell time isn't walked
+ */
+export const computeRadiationDose = (
+    samplePoints: Coordinates[],
+    profile: { timeOffset: number; shadeLevel: number }[],
+    date: Date,
+    cloudCoverage: number,
+    uvIndex?: number,
+    legStarts: number[] = []
+): RadiationDose | undefined => {
+    if (profile.length === 0 || samplePoints.length !== profile.length) return undefined;
+
+    const transmittance = getDirectSunTransmittance(cloudCoverage);
+    const durations = getSampleDurations(profile, legStarts);
+    let solarJoules = 0;
+    let uvJoules = 0;
+
+    profile.forEach(({ timeOffset, shadeLevel }, i) => {
+        const point = samplePoints[i];
+        const sunPos = getSunPosition(point.lat, point.lng, new Date(date.getTime() + timeOffset * 60 * 1000));
+        if (sunPos.altitudeDeg <= 0) return;
+
+        const directFraction = (100 - shadeLevel) / 100;
+        const horizontal = getClearSkyDirectIrradiance(sunPos.altitudeDeg) * Math.sin(sunPos.altitude) * directFraction +
+            getClearSkyDiffuseIrradiance(sunPos.altitudeDeg);
+        solarJoules += horizontal * durations[i];
+
+        // Undo the cloud part of the shade level to get how much the features alone block
+        const featureShade = transmittance > 0 ? 1 - Math.min(1, directFraction / transmittance) : 0;
+        const uv = uvIndex ?? getClearSkyUvIndex(sunPos.altitudeDeg) * (1 - (1 - OVERCAST_UV_SHARE) * (1 - transmittance));
+        uvJoules += uv * (1 - DIRECT_UV_SHARE * transmittance * featureShade) * UV_INDEX_IRRADIANCE * durations[i];
+    });
+
+    return {
+        solarKjPerM2: Math.round(solarJoules / 100) / 10,
+        uvSed: Math.round((uvJoules / STANDARD_ERYTHEMAL_DOSE) * 100) / 100,
+        medFraction: Math.round((uvJoules / MINIMAL_ERYTHEMAL_DOSE) * 100) / 100
+    };
+};
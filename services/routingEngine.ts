@@ -0,0 +1,367 @@
+import { getDistance } from 'geolib';
+import { Coordinates } from '../types';
+import { GeoBounds, getFeatureSource, OsmElement } from './featureSource';
+import { getShadeAtPoint, isPointInRings, ShadeFeature, ShadeFeatureType, ShadowIndex } from './shadeEngine';
+import { createGridIndex, getBoundingBox, insertIntoGrid, queryGridPoint } from './spatialIndex';
+
+// A fully sunny edge costs up to (1 + SHADE_PENALTY) times its length at max shade preference
+const SHADE_PENALTY = 2;
+
+// Spacing used when sampling sun exposure along an edge (meters)
+const EDGE_SAMPLE_SPACING = 10;
+
+// Features that make a walk pleasant in their own right, beyond the shade they cast
+const GREEN_FEATURE_TYPES: ShadeFeatureType[] = ['park', 'forest', 'tree_row'];
+
+// Highways that are a single walking surface, without pavements on either side
+const FOOT_ONLY_HIGHWAYS = ['footway', 'pedestrian', 'path', 'steps', 'cycleway', 'track', 'corridor'];
+
+// Typical carriageway width (m) when neither width nor lanes are tagged
+const ROAD_WIDTH_BY_HIGHWAY: Record<string, number> = {
+    primary: 14,
+    secondary: 12,
+    tertiary: 10,
+    unclassified: 7,
+    residential: 7,
+    road: 7,
+    living_street: 5,
+    service: 5
+};
+const LANE_WIDTH = 3.25;
+const PAVEMENT_HALF_WIDTH = 1.5; // Pavement centre sits this far beyond the kerb
+
+export interface WalkEdge {
+    from: number;
+    to: number;
+    length: number; // meters
+    wayId: number;
+    name?: string; // Street name, if tagged
+    sidewalkOffset: number; // Centreline to pavement centre (m); 0 for footways without sides
+    sidewalks: { left: boolean; right: boolean }; // Relative to the edge's direction of travel
+}
+
+export interface WalkGraph {
+    nodes: Map<number, Coordinates>;
+    edges: WalkEdge[];
+    adjacency: Map<number, number[]>; // node id -> indices into edges
+}
+
+export interface GraphRouteSegment {
+    name?: string;
+    distance: number; // meters
+    path: Coordinates[];
+}
+
+export interface GraphRoute {
+    path: Coordinates[];
+    distance: number; // meters
+    segments: GraphRouteSegment[]; // Consecutive edges grouped by street name
+}
+
+/**
+ * Fetches walkable ways (OSM highways) within a bounding box from the active feature source
+ */
+export const fetchWalkableGraph = async (boundingBox: GeoBounds): Promise<WalkGraph> => {
+    try {
+        const elements = await getFeatureSource().fetchElements(boundingBox, 'walkways');
+        return buildWalkableGraph({ elements });
+    } catch (e) {
+        console.error("Failed to fetch walkable graph", e);
+        return buildWalkableGraph({ elements: [] });
+    }
+};
+
+/**
+ * Where a way's pavements are, from sidewalk tags and its width, lanes or road class
+ * Untagged roads are assumed to have pavements on both sides
+ */
+export const parseSidewalks = (tags: Record<string, string>): Pick<WalkEdge, 'sidewalkOffset' | 'sidewalks'> => {
+    if (FOOT_ONLY_HIGHWAYS.includes(tags.highway)) {
+        return { sidewalkOffset: 0, sidewalks: { left: false, right: false } };
+    }
+
+    const lanes = parseFloat(tags.lanes);
+    const width = parseFloat(tags.width) || (lanes > 0 ? lanes * LANE_WIDTH : ROAD_WIDTH_BY_HIGHWAY[tags.highway] ?? 7);
+
+    // sidewalk:left / sidewalk:right override the combined sidewalk=* value
+    const combined = tags.sidewalk || tags['sidewalk:both'];
+    const hasSide = (side: 'left' | 'right') => {
+        const value = tags[`sidewalk:${side}`];
+        if (value) return value !== 'no';
+        if (!combined) return true;
+        return combined === 'both' || combined === 'separate' || combined === 'yes' || combined === side;
+    };
+
+    return { sidewalkOffset: width / 2 + PAVEMENT_HALF_WIDTH, sidewalks: { left: hasSide('left'), right: hasSide('right') } };
+};
+
+/**
+ * Builds an undirected pedestrian graph from Overpass JSON
+ * Every consecutive node pair of a highway way becomes an edge in both directions
+ */
+export const buildWalkableGraph = (data: { elements?: OsmElement[] }): WalkGraph => {
+    const graph: WalkGraph = { nodes: new Map(), edges: [], adjacency: new Map() };
+    const nodes: Record<number, Coordinates> = {};
+
+    if (!data.elements) return graph;
+
+    data.elements.forEach((el: any) => {
+        if (el.type === 'node') nodes[el.id] = { lat: el.lat, lng: el.lon };
+    });
+
+    const addEdge = (edge: WalkEdge) => {
+        graph.edges.push(edge);
+        if (!graph.adjacency.has(edge.from)) graph.adjacency.set(edge.from, []);
+        graph.adjacency.get(edge.from)!.push(graph.edges.length - 1);
+    };
+
+    data.elements.forEach((el: any) => {
+        if (el.type !== 'way' || !el.nodes || !el.tags?.highway) return;
+
+        for (let i = 1; i < el.nodes.length; i++) {
+            const a = nodes[el.nodes[i - 1]];
+            const b = nodes[el.nodes[i]];
+            if (!a || !b) continue;
+
+            graph.nodes.set(el.nodes[i - 1], a);
+            graph.nodes.set(el.nodes[i], b);
+
+            const length = getDistance(
+                { latitude: a.lat, longitude: a.lng },
+                { latitude: b.lat, longitude: b.lng },
+                0.1
+            );
+            const name = el.tags.name;
+            const { sidewalkOffset, sidewalks } = parseSidewalks(el.tags);
+            addEdge({ from: el.nodes[i - 1], to: el.nodes[i], length, wayId: el.id, name, sidewalkOffset, sidewalks });
+            // Walking the way backwards swaps its left and right
+            addEdge({
+                from: el.nodes[i], to: el.nodes[i - 1], length, wayId: el.id, name, sidewalkOffset,
+                sidewalks: { left: sidewalks.right, right: sidewalks.left }
+            });
+        }
+    });
+
+    return graph;
+};
+
+/**
+ * Computes sun exposure (0 = fully shaded, 1 = full sun) for every edge
+ * by sampling the shade engine at regular intervals along it
+ */
+export const computeEdgeExposure = (graph: WalkGraph, shadows: ShadowIndex): Float64Array => {
+    const exposure = new Float64Array(graph.edges.length);
+    const computed = new Map<string, number>(); // Both directions share the same exposure
+
+    graph.edges.forEach((edge, idx) => {
+        const key = edge.from < edge.to ? `${edge.from}-${edge.to}` : `${edge.to}-${edge.from}`;
+        const known = computed.get(key);
+        if (known !== undefined) {
+            exposure[idx] = known;
+            return;
+        }
+
+        const a = graph.nodes.get(edge.from)!;
+        const b = graph.nodes.get(edge.to)!;
+        const samples = Math.max(2, Math.ceil(edge.length / EDGE_SAMPLE_SPACING) + 1);
+
+        let sunlit = 0;
+        for (let i = 0; i < samples; i++) {
+            const t = i / (samples - 1);
+            const point = { lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t };
+            sunlit += 1 - getShadeAtPoint(point, shadows).shadeLevel / 100;
+        }
+
+        exposure[idx] = sunlit / samples;
+        computed.set(key, exposure[idx]);
+    });
+
+    return exposure;
+};
+
+/**
+ * Share of every edge (0-1) running through parks, forests or along tree rows
+ * Sampled at the ends and middle of each edge; both directions share the value
+ */
+export const computeEdgeGreenery = (graph: WalkGraph, features: ShadeFeature[]): Float64Array => {
+    const greenery = new Float64Array(graph.edges.length);
+    const index = createGridIndex<ShadeFeature>();
+    features
+        .filter(f => GREEN_FEATURE_TYPES.includes(f.type) && f.coordinates.length >= 3)
+        .forEach(f => insertIntoGrid(index, f, getBoundingBox(f.coordinates)));
+    if (index.size === 0) return greenery;
+
+    const isGreen = (point: Coordinates) =>
+        queryGridPoint(index, point).some(f => isPointInRings(point, f.coordinates, f.holes));
+
+    graph.edges.forEach((edge, idx) => {
+        const a = graph.nodes.get(edge.from)!;
+        const b = graph.nodes.get(edge.to)!;
+        const mid = { lat: (a.lat + b.lat) / 2, lng: (a.lng + b.lng) / 2 };
+        greenery[idx] = [a, mid, b].filter(isGreen).length / 3;
+    });
+
+    return greenery;
+};
+
+/**
+ * Finds the graph node closest to a coordinate
+ */
+export const findNearestNode = (graph: WalkGraph, point: Coordinates): number | null => {
+    let nearest: number | null = null;
+    let bestDist = Infinity;
+    const cosLat = Math.cos((point.lat * Math.PI) / 180);
+
+    graph.nodes.forEach((coord, id) => {
+        // Equirectangular distance is plenty to rank nearby candidates
+        const dLat = coord.lat - point.lat;
+        const dLng = (coord.lng - point.lng) * cosLat;
+        const dist = dLat * dLat + dLng * dLng;
+        if (dist < bestDist) {
+            bestDist = dist;
+            nearest = id;
+        }
+    });
+
+    return nearest;
+};
+
+/**
+ * Minimal binary heap keyed by cost, used by Dijkstra
+ */
+class MinHeap {
+    private items: { node: number; cost: number }[] = [];
+
+    get size() {
+        return this.items.length;
+    }
+
+    push(node: number, cost: number) {
+        const items = this.items;
+        items.push({ node, cost });
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (items[parent].cost <= items[i].cost) break;
+            [items[parent], items[i]] = [items[i], items[parent]];
+            i = parent;
+        }
+    }
+
+    pop() {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop()!;
+        if (items.length > 0) {
+            items[0] = last;
+            let i = 0;
+            while (true) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < items.length && items[left].cost < items[smallest].cost) smallest = left;
+                if (right < items.length && items[right].cost < items[smallest].cost) smallest = right;
+                if (smallest === i) break;
+                [items[smallest], items[i]] = [items[i], items[smallest]];
+                i = smallest;
+            }
+        }
+        return top;
+    }
+}
+
+/**
+ * Cheapest path between two nodes (Dijkstra) under any non-negative edge cost
+ * Returns the indices of the edges walked, or null when the goal can't be reached
+ */
+export const findCheapestPath = (
+    graph: WalkGraph,
+    start: number,
+    goal: number,
+    edgeCost: (edgeIdx: number) => number
+): number[] | null => {
+    const costs = new Map<number, number>([[start, 0]]);
+    const cameFrom = new Map<number, number>(); // node id -> edge index used to reach it
+    const visited = new Set<number>();
+    const heap = new MinHeap();
+    heap.push(start, 0);
+
+    while (heap.size > 0) {
+        const { node, cost } = heap.pop();
+        if (visited.has(node)) continue;
+        visited.add(node);
+        if (node === goal) break;
+
+        for (const edgeIdx of graph.adjacency.get(node) || []) {
+            const edge = graph.edges[edgeIdx];
+            if (visited.has(edge.to)) continue;
+
+            const nextCost = cost + edgeCost(edgeIdx);
+            if (nextCost < (costs.get(edge.to) ?? Infinity)) {
+                costs.set(edge.to, nextCost);
+                cameFrom.set(edge.to, edgeIdx);
+                heap.push(edge.to, nextCost);
+            }
+        }
+    }
+
+    if (!visited.has(goal)) return null;
+
+    // Walk back from goal to start
+    const edgePath: number[] = [];
+    let current = goal;
+    while (current !== start) {
+        const edgeIdx = cameFrom.get(current)!;
+        edgePath.unshift(edgeIdx);
+        current = graph.edges[edgeIdx].from;
+    }
+    return edgePath;
+};
+
+/**
+ * Turns a chain of edges starting at a node into a route, grouping consecutive edges by street name
+ */
+export const buildGraphRoute = (graph: WalkGraph, start: number, edgePath: number[]): GraphRoute => {
+    const path: Coordinates[] = [graph.nodes.get(start)!];
+    const segments: GraphRouteSegment[] = [];
+    let distance = 0;
+
+    edgePath.forEach(edgeIdx => {
+        const edge = graph.edges[edgeIdx];
+        const to = graph.nodes.get(edge.to)!;
+        path.push(to);
+        distance += edge.length;
+
+        const last = segments[segments.length - 1];
+        if (last && last.name === edge.name) {
+            last.distance += edge.length;
+            last.path.push(to);
+        } else {
+            segments.push({ name: edge.name, distance: edge.length, path: [graph.nodes.get(edge.from)!, to] });
+        }
+    });
+
+    return { path, distance, segments };
+};
+
+/**
+ * Shade-aware shortest path (Dijkstra)
+ * Edge cost = length * (1 + SHADE_PENALTY * shadePreference * exposure), so
+ * shadePreference 0 yields the shortest path and 1 trades distance for shade
+ */
+export const findShadeAwareRoute = (
+    graph: WalkGraph,
+    origin: Coordinates,
+    destination: Coordinates,
+    exposure: Float64Array,
+    shadePreference: number
+): GraphRoute | null => {
+    const start = findNearestNode(graph, origin);
+    const goal = findNearestNode(graph, destination);
+    if (start === null || goal === null) return null;
+
+    const edgePath = findCheapestPath(graph, start, goal, edgeIdx =>
+        graph.edges[edgeIdx].length * (1 + SHADE_PENALTY * shadePreference * exposure[edgeIdx])
+    );
+    return edgePath ? buildGraphRoute(graph, start, edgePath) : null;
+};
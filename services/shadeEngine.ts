@@ -1,52 +1,147 @@
 import SunCalc from 'suncalc';
-import { getDistance, getRhumbLineBearing, computeDestinationPoint } from 'geolib';
+import { getAreaOfPolygon, getDistance, getRhumbLineBearing } from 'geolib';
 import { Coordinates } from '../types';
 import * as turf from '@turf/helpers';
 import union from '@turf/union';
+import { GeoBounds, getFeatureSource, OsmElement } from './featureSource';
+import { createGridIndex, getBoundingBox, GridIndex, insertIntoGrid, queryGridPoint } from './spatialIndex';
+import { createLocalFrame, fromLocal, LocalPoint, offsetLine, toLocal } from './geoProjection';
+import { computeCrownShadow, createCrownOutline, estimateTreeDimensions, TreeCrown } from './treeCrown';
+
+// Default spacing between shade samples along a route (meters)
+export const DEFAULT_SAMPLE_SPACING = 5;
+
+// Shadows are recomputed (and re-indexed) once the sun has moved more than this
+const SUN_MOVEMENT_THRESHOLD_DEG = 2;
 
 // Types for shade-producing features
 export type ShadeFeatureType = 'building' | 'tree' | 'tree_row' | 'park' | 'forest' | 'covered';
 
+// OSM leaf_cycle and leaf_type values
+export type LeafCycle = 'deciduous' | 'semi_deciduous' | 'mixed' | 'semi_evergreen' | 'evergreen';
+export type LeafType = 'broadleaved' | 'needleleaved' | 'mixed' | 'leafless';
+
 export interface ShadeFeature {
     id: number;
     type: ShadeFeatureType;
-    coordinates: Coordinates[]; // Polygon or point approximation
-    height: number;
+    coordinates: Coordinates[]; // Polygon or point approximation (outer ring)
+    holes?: Coordinates[][]; // Inner rings, e.g. courtyards of multipolygon buildings
+    height: number; // Top of the volume (m)
+    minHeight?: number; // Bottom of the volume (m) for canopies, arcades, bridges and tree crowns; ground if unset
     foliageDensity: number; // 0-1, affects shadow opacity
+    leafCycle?: LeafCycle; // Vegetation only, from OSM tags
+    leafType?: LeafType; // Vegetation only, from OSM tags
+    seasonalFoliage?: number; // Seasonal factor already applied to foliageDensity (vegetation only)
+    crown?: TreeCrown; // Individual trees: coordinates hold the crown outline, minHeight its base
     name?: string; // For debug display
 }
 
-interface Shadow {
+export interface Shadow {
     polygon: Coordinates[];
+    holes?: Coordinates[][]; // Sunlit gaps inside the shadow (courtyards)
     opacity: number; // 0-1 based on foliage density
 }
 
+export interface FeatureShadow {
+    feature: ShadeFeature;
+    shadow: Shadow | null;
+}
+
+export interface ShadowIndex {
+    shadows: FeatureShadow[];
+    grid: GridIndex<FeatureShadow>; // Keyed by footprint + shadow bounding box
+    sunPosition: { azimuthDeg: number; altitudeDeg: number };
+}
+
 export interface ShadeAnalysisDebug {
     features: ShadeFeature[];
-    shadows: { feature: ShadeFeature; shadow: Shadow | null }[]; // Keep for individual lookup if needed
-    unifiedShadows?: Coordinates[][]; // Merged polygons for cleaner display
+    shadows: FeatureShadow[]; // Keep for individual lookup if needed
+    unifiedShadows?: Coordinates[][][]; // Merged polygons for cleaner display, each [outer, ...holes]
     sunPosition: { azimuth: number; altitude: number; azimuthDeg: number; altitudeDeg: number };
     bbox: { north: number; south: number; east: number; west: number };
 }
 
+export interface RouteShadeAnalysis {
+    avgShade: number;
+    profile: { timeOffset: number; shadeLevel: number }[];
+    shadingFeatures: (ShadeFeature | null)[]; // Feature providing the shade at each profile point
+    samplePoints: Coordinates[]; // Densified route geometry, aligned with profile
+    debug?: ShadeAnalysisDebug;
+}
+
+// Temperate deciduous canopy through the Northern Hemisphere year (January-December)
+const TEMPERATE_FOLIAGE_BY_MONTH = [0.15, 0.15, 0.3, 0.6, 0.85, 1.0, 1.0, 1.0, 0.85, 0.6, 0.3, 0.15];
+
+// Seasons fade in between these absolute latitudes; tropical canopies stay green all year
+const TROPICAL_LATITUDE = 23.5;
+const TEMPERATE_LATITUDE = 35;
+
+// Share of the temperate seasonal leaf loss each leaf cycle goes through
+const LEAF_LOSS_BY_CYCLE: Record<LeafCycle, number> = {
+    deciduous: 1,
+    semi_deciduous: 0.7,
+    mixed: 0.5,
+    semi_evergreen: 0.3,
+    evergreen: 0
+};
+
 /**
- * Get seasonal foliage density based on month
- * Adjusted for Northern Hemisphere - user mentioned summer priority
+ * Leaf cycle of a feature, inferred from leaf_type when leaf_cycle isn't tagged
+ * Needle-leaved trees are nearly all evergreen (larches are tagged leaf_cycle=deciduous);
+ * untagged vegetation is treated as deciduous
  */
-const getSeasonalFoliageDensity = (date: Date): number => {
-    const month = date.getMonth(); // 0-11
-    // Summer (June-August): Full foliage
-    if (month >= 5 && month <= 7) return 1.0;
-    // Late Spring / Early Fall (May, September): Nearly full
-    if (month === 4 || month === 8) return 0.85;
-    // Spring / Fall (April, October): Partial
-    if (month === 3 || month === 9) return 0.6;
-    // Late Fall / Early Spring (March, November): Sparse
-    if (month === 2 || month === 10) return 0.3;
-    // Winter (December-February): Minimal (evergreens only estimate)
-    return 0.15;
+export const getLeafCycle = (feature: Pick<ShadeFeature, 'leafCycle' | 'leafType'>): LeafCycle => {
+    if (feature.leafCycle) return feature.leafCycle;
+    if (feature.leafType === 'needleleaved' || feature.leafType === 'leafless') return 'evergreen';
+    if (feature.leafType === 'mixed') return 'mixed';
+    return 'deciduous';
 };
 
+/**
+ * Seasonal foliage density (0-1) for a date and latitude
+ * Seasons are flipped south of the equator and fade out towards the tropics;
+ * evergreen vegetation keeps its canopy all year
+ */
+export const getSeasonalFoliageDensity = (date: Date, latitude: number, leafCycle: LeafCycle = 'deciduous'): number => {
+    const month = latitude < 0 ? (date.getMonth() + 6) % 12 : date.getMonth();
+    const seasonality = Math.min(1, Math.max(0,
+        (Math.abs(latitude) - TROPICAL_LATITUDE) / (TEMPERATE_LATITUDE - TROPICAL_LATITUDE)
+    ));
+    return 1 - (1 - TEMPERATE_FOLIAGE_BY_MONTH[month]) * seasonality * LEAF_LOSS_BY_CYCLE[leafCycle];
+};
+
+// Feature types whose foliage density follows the seasons
+const VEGETATION_TYPES: ShadeFeatureType[] = ['tree', 'tree_row', 'park', 'forest'];
+
+/**
+ * Applies a date's seasonal foliage to season-neutral features
+ * Each feature uses its own latitude and leaf cycle
+ */
+export const applySeasonalFoliage = (features: ShadeFeature[], date: Date): ShadeFeature[] =>
+    features.map(f => {
+        if (!VEGETATION_TYPES.includes(f.type) || f.coordinates.length === 0) return f;
+        const seasonalFoliage = getSeasonalFoliageDensity(date, f.coordinates[0].lat, getLeafCycle(f));
+        return { ...f, foliageDensity: f.foliageDensity * seasonalFoliage, seasonalFoliage };
+    });
+
+/**
+ * Undoes applySeasonalFoliage so the same features can be re-seasoned for another date
+ * Seasonal factors never reach zero, so the original density is always recoverable
+ */
+export const removeSeasonalFoliage = (features: ShadeFeature[]): ShadeFeature[] =>
+    features.map(f => {
+        if (f.seasonalFoliage === undefined) return f;
+        const { seasonalFoliage, ...neutral } = f;
+        return { ...neutral, foliageDensity: f.foliageDensity / seasonalFoliage };
+    });
+
+/**
+ * Share of direct sunlight that gets through a cloud cover (0-100%)
+ * Approximates the share of time the sun disc is clear, which tracks cloud cover almost linearly
+ */
+export const getDirectSunTransmittance = (cloudCoverage: number): number =>
+    1 - Math.min(100, Math.max(0, cloudCoverage)) / 100;
+
 /**
  * Calculates current sun position (azimuth/altitude)
  */
@@ -61,56 +156,17 @@ export const getSunPosition = (lat: number, lng: number, date: Date) => {
 };
 
 /**
- * Fetches shade-producing features from Overpass API within a bounding box
- * Enhanced to include: buildings, trees, tree rows, parks, forests, covered walkways
+ * Fetches shade-producing features within a bounding box from the active feature source
+ * (live Overpass by default, or a local OSM extract)
+ * Includes: buildings, trees, tree rows, parks, forests, covered walkways, bridges
  */
 export const fetchShadeFeatures = async (
-    boundingBox: { north: number; south: number; east: number; west: number },
+    boundingBox: GeoBounds,
     date: Date
 ): Promise<ShadeFeature[]> => {
-    const seasonalDensity = getSeasonalFoliageDensity(date);
-
-    // Comprehensive Overpass query for all shade-producing features
-    const jsonQuery = `
-        [out:json][timeout:30];
-        (
-          // Buildings
-          way["building"](${boundingBox.south},${boundingBox.west},${boundingBox.north},${boundingBox.east});
-          relation["building"](${boundingBox.south},${boundingBox.west},${boundingBox.north},${boundingBox.east});
-          
-          // Individual trees
-          node["natural"="tree"](${boundingBox.south},${boundingBox.west},${boundingBox.north},${boundingBox.east});
-          
-          // Tree rows (linear tree features)
-          way["natural"="tree_row"](${boundingBox.south},${boundingBox.west},${boundingBox.north},${boundingBox.east});
-          
-          // Parks and gardens (partial shade from scattered trees)
-          way["leisure"="park"](${boundingBox.south},${boundingBox.west},${boundingBox.north},${boundingBox.east});
-          way["leisure"="garden"](${boundingBox.south},${boundingBox.west},${boundingBox.north},${boundingBox.east});
-          relation["leisure"="park"](${boundingBox.south},${boundingBox.west},${boundingBox.north},${boundingBox.east});
-          
-          // Forests and woods (dense canopy)
-          way["landuse"="forest"](${boundingBox.south},${boundingBox.west},${boundingBox.north},${boundingBox.east});
-          way["natural"="wood"](${boundingBox.south},${boundingBox.west},${boundingBox.north},${boundingBox.east});
-          relation["landuse"="forest"](${boundingBox.south},${boundingBox.west},${boundingBox.north},${boundingBox.east});
-          relation["natural"="wood"](${boundingBox.south},${boundingBox.west},${boundingBox.north},${boundingBox.east});
-          
-          // Covered walkways and arcades
-          way["covered"="yes"]["highway"](${boundingBox.south},${boundingBox.west},${boundingBox.north},${boundingBox.east});
-        );
-        out body;
-        >;
-        out skel qt;
-    `;
-
     try {
-        const response = await fetch("https://overpass-api.de/api/interpreter", {
-            method: "POST",
-            body: jsonQuery
-        });
-
-        const data = await response.json();
-        return parseOverpassData(data, seasonalDensity);
+        const elements = await getFeatureSource().fetchElements(boundingBox, 'shade');
+        return applySeasonalFoliage(parseOverpassData({ elements }), date);
     } catch (e) {
         console.error("Failed to fetch shade features", e);
         return [];
@@ -118,39 +174,212 @@ export const fetchShadeFeatures = async (
 };
 
 /**
- * Parses Overpass JSON into ShadeFeature objects
+ * Relations share OSM's id space with ways, so their features get negative ids
+ * Each outer ring of a multipolygon becomes its own feature
+ */
+const relationFeatureId = (relationId: number, ringIndex: number) => -(relationId * 100 + ringIndex);
+
+/**
+ * Joins multipolygon member ways end-to-end into closed rings of node ids
+ * Ways may be split arbitrarily and point in either direction
+ */
+const assembleRings = (memberWays: number[][]): number[][] => {
+    const remaining = memberWays.filter(w => w.length >= 2).map(w => [...w]);
+    const rings: number[][] = [];
+
+    while (remaining.length > 0) {
+        const ring = remaining.shift()!;
+
+        // Keep appending ways until the ring closes or nothing connects
+        while (ring[0] !== ring[ring.length - 1]) {
+            const tail = ring[ring.length - 1];
+            const nextIdx = remaining.findIndex(w => w[0] === tail || w[w.length - 1] === tail);
+            if (nextIdx === -1) break;
+
+            const next = remaining.splice(nextIdx, 1)[0];
+            if (next[0] !== tail) next.reverse();
+            ring.push(...next.slice(1));
+        }
+
+        if (ring.length >= 4 && ring[0] === ring[ring.length - 1]) rings.push(ring);
+    }
+
+    return rings;
+};
+
+const LEVEL_HEIGHT = 3.5; // meters per storey
+const DEFAULT_PITCHED_ROOF_HEIGHT = 3;
+
+// Share of the roof height that counts towards an equivalent flat block
+// (a gabled roof's shadow is roughly that of a block half the roof's height)
+const ROOF_SHAPE_FACTORS: Record<string, number> = {
+    flat: 1,
+    gabled: 0.5,
+    'half-hipped': 0.45,
+    hipped: 0.45,
+    pyramidal: 0.35,
+    cone: 0.35,
+    skillion: 0.5,
+    saltbox: 0.5,
+    gambrel: 0.7,
+    mansard: 0.7,
+    dome: 0.65,
+    round: 0.6,
+    onion: 0.5
+};
+
+/**
+ * Helper: Parse an OSM length tag ("12", "12 m", "12.5m") into meters
+ */
+const parseMeters = (value?: string): number | undefined => {
+    if (!value) return undefined;
+    const n = parseFloat(value);
+    return isNaN(n) ? undefined : n;
+};
+
+/**
+ * Derives the vertical extent of a building or building part from its tags
+ * Honours height/levels, roof height and shape, and min_height/min_level for
+ * volumes that float above the ground (arcades, canopies, overhangs)
+ */
+const parseBuildingVolume = (tags: Record<string, string>): { height: number; minHeight?: number } => {
+    const levels = parseMeters(tags['building:levels']);
+    const roofLevels = parseMeters(tags['roof:levels']);
+    const roofFactor = ROOF_SHAPE_FACTORS[tags['roof:shape']] ?? (tags['roof:shape'] ? 0.5 : 1);
+    const isCanopy = tags.building === 'roof';
+
+    let roofHeight = parseMeters(tags['roof:height'])
+        ?? (roofLevels !== undefined ? roofLevels * LEVEL_HEIGHT : roofFactor < 1 ? DEFAULT_PITCHED_ROOF_HEIGHT : 0);
+
+    // OSM height includes the roof; levels don't
+    const height = parseMeters(tags.height)
+        ?? (levels !== undefined ? levels * LEVEL_HEIGHT + roofHeight : undefined)
+        ?? (isCanopy ? 5 : 10); // Default canopy ~5m, building ~3 stories
+    roofHeight = Math.min(roofHeight, height);
+
+    // Pitched roofs taper, so model them as a flat block of equivalent height
+    const effectiveHeight = height - roofHeight * (1 - roofFactor);
+
+    const minLevel = parseMeters(tags['building:min_level']);
+    let minHeight = parseMeters(tags.min_height) ?? (minLevel !== undefined ? minLevel * LEVEL_HEIGHT : undefined);
+    if (minHeight === undefined && isCanopy) minHeight = Math.max(0, height - 1); // Thin roof on pillars
+
+    if (!minHeight || minHeight <= 0) return { height: effectiveHeight };
+    return { height: effectiveHeight, minHeight: Math.min(minHeight, effectiveHeight - 0.1) };
+};
+
+const LEAF_CYCLES: LeafCycle[] = ['deciduous', 'semi_deciduous', 'mixed', 'semi_evergreen', 'evergreen'];
+const LEAF_TYPES: LeafType[] = ['broadleaved', 'needleleaved', 'mixed', 'leafless'];
+
+/**
+ * Reads leaf_cycle and leaf_type, ignoring values outside the OSM vocabulary
+ */
+const parseLeafTags = (tags: Record<string, string>): Pick<ShadeFeature, 'leafCycle' | 'leafType'> => {
+    const leafCycle = LEAF_CYCLES.find(c => c === tags.leaf_cycle);
+    const leafType = LEAF_TYPES.find(t => t === tags.leaf_type);
+    return { ...(leafCycle ? { leafCycle } : {}), ...(leafType ? { leafType } : {}) };
+};
+
+/**
+ * Builds an area feature (building, park, forest) from tags and rings
+ * Returns null for tags that don't describe a shade-producing area
+ */
+const createAreaFeature = (
+    id: number,
+    tags: Record<string, string>,
+    coords: Coordinates[],
+    holes: Coordinates[][],
+    fallbackName: string
+): ShadeFeature | null => {
+    const base = { id, coordinates: coords, ...(holes.length > 0 ? { holes } : {}) };
+
+    if (tags.building || tags['building:part']) {
+        // Building, building part or canopy (building=roof)
+        return {
+            ...base,
+            type: 'building',
+            ...parseBuildingVolume(tags),
+            foliageDensity: 1, // Buildings are solid
+            name: tags.name || `${tags['building:part'] ? 'Building Part' : tags.building === 'roof' ? 'Canopy' : 'Building'} ${fallbackName}`
+        };
+    } else if (tags.man_made === 'bridge') {
+        // Bridge deck - shades the street or path underneath
+        const height = parseMeters(tags.height) ?? 7;
+        return {
+            ...base,
+            type: 'covered',
+            height,
+            minHeight: parseMeters(tags.min_height) ?? Math.max(0, height - 1.5),
+            foliageDensity: 1,
+            name: tags.name || `Bridge ${fallbackName}`
+        };
+    } else if (tags.leisure === 'park' || tags.leisure === 'garden') {
+        // Parks - assume scattered trees, partial shade
+        return {
+            ...base,
+            type: 'park',
+            height: 8, // Average tree height in parks
+            foliageDensity: 0.4, // Parks have gaps
+            ...parseLeafTags(tags),
+            name: tags.name || `Park ${fallbackName}`
+        };
+    } else if (tags.landuse === 'forest' || tags.natural === 'wood') {
+        // Forest/woodland - dense canopy
+        return {
+            ...base,
+            type: 'forest',
+            height: 15, // Taller mature trees
+            foliageDensity: 0.85, // Dense but some gaps
+            ...parseLeafTags(tags),
+            name: tags.name || `Forest ${fallbackName}`
+        };
+    }
+
+    return null;
+};
+
+/**
+ * Parses Overpass JSON into season-neutral ShadeFeature objects (see applySeasonalFoliage)
+ * Handles nodes (trees), ways and multipolygon relations assembled from their member ways
  */
-const parseOverpassData = (data: any, seasonalDensity: number): ShadeFeature[] => {
+export const parseOverpassData = (data: { elements?: OsmElement[] }): ShadeFeature[] => {
     const features: ShadeFeature[] = [];
     const nodes: Record<number, { lat: number; lng: number }> = {};
+    const wayNodes: Record<number, number[]> = {};
+    const partIds = new Set<number>();
 
     if (!data.elements) return features;
 
+    const toCoords = (nodeIds: number[]) => nodeIds.map(nid => nodes[nid]).filter(n => !!n);
+
     // First pass: cache nodes
     data.elements.forEach((el: any) => {
+        if (el.type === 'way' && el.nodes) wayNodes[el.id] = el.nodes;
+
         if (el.type === 'node') {
             nodes[el.id] = { lat: el.lat, lng: el.lon };
 
-            // Handle individual trees
+            // Handle individual trees as raised crowns
             if (el.tags?.natural === 'tree') {
-                const r = 0.00003; // ~3-4 meters radius
-                const treeHeight = el.tags.height ? parseFloat(el.tags.height) : 8;
-
-                if (!isNaN(treeHeight)) {
-                    features.push({
-                        id: el.id,
-                        type: 'tree',
-                        height: treeHeight,
-                        foliageDensity: seasonalDensity,
-                        name: el.tags.name || `Tree #${el.id}`,
-                        coordinates: [
-                            { lat: el.lat + r, lng: el.lon + r },
-                            { lat: el.lat - r, lng: el.lon + r },
-                            { lat: el.lat - r, lng: el.lon - r },
-                            { lat: el.lat + r, lng: el.lon - r }
-                        ]
-                    });
-                }
+                const center = { lat: el.lat, lng: el.lon };
+                const { height, crownRadius, crownBaseHeight } = estimateTreeDimensions({
+                    height: parseMeters(el.tags.height) ?? parseMeters(el.tags.est_height),
+                    crownDiameter: parseMeters(el.tags.diameter_crown),
+                    circumference: parseMeters(el.tags.circumference),
+                    genus: el.tags.genus || el.tags.species
+                });
+
+                features.push({
+                    id: el.id,
+                    type: 'tree',
+                    height,
+                    minHeight: crownBaseHeight,
+                    foliageDensity: 1,
+                    ...parseLeafTags(el.tags),
+                    crown: { center, radius: crownRadius, baseHeight: crownBaseHeight },
+                    name: el.tags.name || `Tree #${el.id}`,
+                    coordinates: createCrownOutline(center, crownRadius)
+                });
             }
         }
     });
@@ -159,71 +388,33 @@ const parseOverpassData = (data: any, seasonalDensity: number): ShadeFeature[] =
     data.elements.forEach((el: any) => {
         if (el.type !== 'way' || !el.nodes) return;
 
-        const coords = el.nodes.map((nid: number) => nodes[nid]).filter((n: any) => !!n);
+        const coords = toCoords(el.nodes);
         if (coords.length < 3) return;
 
         const tags = el.tags || {};
 
         // Determine feature type and properties
-        if (tags.building) {
-            // Building
-            let height = 10; // Default ~3 stories
-            if (tags.height) {
-                const h = parseFloat(tags.height);
-                if (!isNaN(h)) height = h;
-            } else if (tags['building:levels']) {
-                const l = parseFloat(tags['building:levels']);
-                if (!isNaN(l)) height = l * 3.5;
-            }
-
-            features.push({
-                id: el.id,
-                type: 'building',
-                coordinates: coords,
-                height,
-                foliageDensity: 1, // Buildings are solid
-                name: tags.name || `Building #${el.id}`
-            });
-        } else if (tags.natural === 'tree_row') {
+        if (tags.natural === 'tree_row') {
             // Tree row - linear feature, approximate as polygon
             const rowHeight = tags.height ? parseFloat(tags.height) : 10;
-            const width = 0.00004; // ~4-5m width
+            const halfWidth = 4; // Crowns reach ~4 m either side of the row
 
             // Create polygon from line by buffering
-            const bufferedCoords = bufferLineToPolygon(coords, width);
+            const bufferedCoords = bufferLineToPolygon(coords, halfWidth);
 
             features.push({
                 id: el.id,
                 type: 'tree_row',
                 coordinates: bufferedCoords,
                 height: isNaN(rowHeight) ? 10 : rowHeight,
-                foliageDensity: seasonalDensity * 0.9, // Slightly less dense than forest
+                foliageDensity: 0.9, // Slightly less dense than forest
+                ...parseLeafTags(tags),
                 name: tags.name || `Tree Row #${el.id}`
             });
-        } else if (tags.leisure === 'park' || tags.leisure === 'garden') {
-            // Parks - assume scattered trees, partial shade
-            features.push({
-                id: el.id,
-                type: 'park',
-                coordinates: coords,
-                height: 8, // Average tree height in parks
-                foliageDensity: seasonalDensity * 0.4, // Parks have gaps
-                name: tags.name || `Park #${el.id}`
-            });
-        } else if (tags.landuse === 'forest' || tags.natural === 'wood') {
-            // Forest/woodland - dense canopy
-            features.push({
-                id: el.id,
-                type: 'forest',
-                coordinates: coords,
-                height: 15, // Taller mature trees
-                foliageDensity: seasonalDensity * 0.85, // Dense but some gaps
-                name: tags.name || `Forest #${el.id}`
-            });
         } else if (tags.covered === 'yes' && tags.highway) {
             // Covered walkway
-            const width = 0.00003;
-            const bufferedCoords = bufferLineToPolygon(coords, width);
+            const halfWidth = 1.5; // ~3 m wide walkway
+            const bufferedCoords = bufferLineToPolygon(coords, halfWidth);
 
             features.push({
                 id: el.id,
@@ -233,51 +424,79 @@ const parseOverpassData = (data: any, seasonalDensity: number): ShadeFeature[] =
                 foliageDensity: 1, // Full coverage
                 name: tags.name || `Covered Path #${el.id}`
             });
+        } else {
+            const feature = createAreaFeature(el.id, tags, coords, [], `#${el.id}`);
+            if (feature) features.push(feature);
+            if (feature && tags['building:part']) partIds.add(feature.id);
         }
     });
 
-    return features;
+    // Third pass: multipolygon relations (courtyard buildings, large parks and forests)
+    data.elements.forEach((el: any) => {
+        if (el.type !== 'relation' || !el.members) return;
+
+        const tags = el.tags || {};
+        const memberRings = (role: string) => assembleRings(
+            el.members
+                .filter((m: any) => m.type === 'way' && (m.role || 'outer') === role && wayNodes[m.ref])
+                .map((m: any) => wayNodes[m.ref])
+        ).map(toCoords).filter(ring => ring.length >= 4);
+
+        const outers = memberRings('outer');
+        const inners = memberRings('inner');
+
+        outers.forEach((outer, ringIndex) => {
+            // Each inner ring belongs to the outer ring that contains it
+            const holes = inners.filter(inner => isPointInPolygon(inner[0], outer));
+            const feature = createAreaFeature(
+                relationFeatureId(el.id, ringIndex),
+                tags,
+                outer,
+                holes,
+                `(relation #${el.id})`
+            );
+            if (feature) features.push(feature);
+            if (feature && tags['building:part']) partIds.add(feature.id);
+        });
+    });
+
+    // Simple 3D Buildings: an outline that contains parts is replaced by those parts
+    if (partIds.size === 0) return features;
+
+    const partCentroids = features.filter(f => partIds.has(f.id)).map(f => ({
+        lat: f.coordinates.reduce((sum, c) => sum + c.lat, 0) / f.coordinates.length,
+        lng: f.coordinates.reduce((sum, c) => sum + c.lng, 0) / f.coordinates.length
+    }));
+
+    return features.filter(f =>
+        f.type !== 'building' || partIds.has(f.id) || !partCentroids.some(c => isPointInRings(c, f.coordinates, f.holes))
+    );
 };
 
 /**
- * Buffer a line (array of points) into a polygon
+ * Buffers a line into a polygon extending halfWidthMeters to each side
+ * Works in a local metric frame so the width is the same in every direction
  */
-const bufferLineToPolygon = (line: { lat: number; lng: number }[], width: number): Coordinates[] => {
-    if (line.length < 2) return line as Coordinates[];
-
-    const left: Coordinates[] = [];
-    const right: Coordinates[] = [];
-
-    for (let i = 0; i < line.length; i++) {
-        const curr = line[i];
-        const prev = line[i - 1] || curr;
-        const next = line[i + 1] || curr;
-
-        // Calculate perpendicular direction
-        const dx = next.lng - prev.lng;
-        const dy = next.lat - prev.lat;
-        const len = Math.sqrt(dx * dx + dy * dy) || 1;
-        const nx = -dy / len * width;
-        const ny = dx / len * width;
-
-        left.push({ lat: curr.lat + nx, lng: curr.lng + ny });
-        right.unshift({ lat: curr.lat - nx, lng: curr.lng - ny });
-    }
-
-    return [...left, ...right];
+export const bufferLineToPolygon = (line: Coordinates[], halfWidthMeters: number): Coordinates[] => {
+    if (line.length < 2) return line;
+    return [...offsetLine(line, halfWidthMeters), ...offsetLine(line, -halfWidthMeters).reverse()];
 };
 
 /**
  * Compute convex hull of a set of points using Graham scan algorithm
+ * Runs in a local metric frame so angles aren't skewed by longitude convergence
  */
-const computeConvexHull = (points: Coordinates[]): Coordinates[] => {
-    if (points.length < 3) return points;
+const computeConvexHull = (coords: Coordinates[]): Coordinates[] => {
+    if (coords.length < 3) return coords;
+
+    const frame = createLocalFrame(coords[0]);
+    const points = coords.map(c => toLocal(frame, c));
 
     // Find the lowest point (and leftmost if tie)
     let lowest = 0;
     for (let i = 1; i < points.length; i++) {
-        if (points[i].lat < points[lowest].lat ||
-            (points[i].lat === points[lowest].lat && points[i].lng < points[lowest].lng)) {
+        if (points[i].y < points[lowest].y ||
+            (points[i].y === points[lowest].y && points[i].x < points[lowest].x)) {
             lowest = i;
         }
     }
@@ -288,20 +507,20 @@ const computeConvexHull = (points: Coordinates[]): Coordinates[] => {
 
     // Sort points by polar angle with respect to pivot
     const sorted = points.slice(1).sort((a, b) => {
-        const angleA = Math.atan2(a.lat - pivot.lat, a.lng - pivot.lng);
-        const angleB = Math.atan2(b.lat - pivot.lat, b.lng - pivot.lng);
+        const angleA = Math.atan2(a.y - pivot.y, a.x - pivot.x);
+        const angleB = Math.atan2(b.y - pivot.y, b.x - pivot.x);
         if (angleA !== angleB) return angleA - angleB;
         // If same angle, closer point first
-        const distA = (a.lat - pivot.lat) ** 2 + (a.lng - pivot.lng) ** 2;
-        const distB = (b.lat - pivot.lat) ** 2 + (b.lng - pivot.lng) ** 2;
+        const distA = (a.x - pivot.x) ** 2 + (a.y - pivot.y) ** 2;
+        const distB = (b.x - pivot.x) ** 2 + (b.y - pivot.y) ** 2;
         return distA - distB;
     });
 
     // Cross product to determine turn direction
-    const cross = (o: Coordinates, a: Coordinates, b: Coordinates) =>
-        (a.lng - o.lng) * (b.lat - o.lat) - (a.lat - o.lat) * (b.lng - o.lng);
+    const cross = (o: LocalPoint, a: LocalPoint, b: LocalPoint) =>
+        (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
 
-    const hull: Coordinates[] = [pivot];
+    const hull: LocalPoint[] = [pivot];
     for (const point of sorted) {
         while (hull.length > 1 && cross(hull[hull.length - 2], hull[hull.length - 1], point) <= 0) {
             hull.pop();
@@ -309,14 +528,34 @@ const computeConvexHull = (points: Coordinates[]): Coordinates[] => {
         hull.push(point);
     }
 
-    return hull;
+    return hull.map(p => fromLocal(frame, p));
+};
+
+/**
+ * True if a ring has no reflex vertices (all turns go the same way)
+ */
+const isConvexRing = (ring: Coordinates[]): boolean => {
+    let sign = 0;
+    const n = ring.length;
+    for (let i = 0; i < n; i++) {
+        const o = ring[i];
+        const a = ring[(i + 1) % n];
+        const b = ring[(i + 2) % n];
+        const cross = (a.lng - o.lng) * (b.lat - a.lat) - (a.lat - o.lat) * (b.lng - a.lng);
+        if (cross === 0) continue; // Collinear / duplicate closing vertex
+        if (sign === 0) sign = Math.sign(cross);
+        else if (Math.sign(cross) !== sign) return false;
+    }
+    return true;
 };
 
 /**
  * Projects a shadow polygon for a feature based on sun position
- * Creates a connected shadow from building base to projected shadow edge using convex hull
+ * Convex footprints use the convex hull of base + projected vertices, which is exact for them
+ * Concave footprints and courtyards use the union of the footprint and every extruded
+ * edge quad, so sunlit space inside an L/U shape or courtyard is preserved
  */
-const calculateFeatureShadow = (
+export const calculateFeatureShadow = (
     feature: ShadeFeature,
     sunAzimuth: number,
     sunAltitude: number
@@ -325,112 +564,244 @@ const calculateFeatureShadow = (
 
     // Shadow length = height / tan(altitude)
     const shadowLength = feature.height / Math.tan(sunAltitude);
+    // Elevated volumes (canopies, arcades, bridges) leave a sunlit gap next to their footprint
+    const gapLength = (feature.minHeight || 0) / Math.tan(sunAltitude);
 
     // Convert SunCalc azimuth to compass bearing
     const azimuthDeg = (sunAzimuth * 180) / Math.PI;
     const sunBearing = (azimuthDeg + 180) % 360;
     const shadowBearing = (sunBearing + 180) % 360;
 
+    // Tree crowns cast elliptical shadows rather than extruded prisms
+    if (feature.crown) {
+        return {
+            polygon: computeCrownShadow(feature.crown, feature.height, shadowBearing, sunAltitude),
+            opacity: feature.foliageDensity
+        };
+    }
+
+    // Every vertex moves by the same shadow vector in the feature's local frame
+    const frame = createLocalFrame(feature.coordinates[0]);
+    const bearingRad = (shadowBearing * Math.PI) / 180;
+    const projectBy = (distance: number) => (coord: Coordinates): Coordinates => {
+        if (distance === 0) return coord;
+        const p = toLocal(frame, coord);
+        return fromLocal(frame, { x: p.x + distance * Math.sin(bearingRad), y: p.y + distance * Math.cos(bearingRad) });
+    };
+    const projectBase = projectBy(gapLength);
+    const projectTip = projectBy(shadowLength);
+
+    // Shadow of the bottom of the volume (the footprint itself for ground-standing features)
+    const basePoints: Coordinates[] = feature.coordinates.map(projectBase);
     // Project each vertex to create shadow tip points
-    const projectedPoints: Coordinates[] = feature.coordinates.map(coord => {
-        const dest = computeDestinationPoint(
-            { latitude: coord.lat, longitude: coord.lng },
-            shadowLength,
-            shadowBearing
-        );
-        return { lat: dest.latitude, lng: dest.longitude };
+    const projectedPoints: Coordinates[] = feature.coordinates.map(projectTip);
+
+    if (!feature.holes?.length && isConvexRing(feature.coordinates)) {
+        // Combine base with projected points and compute convex hull
+        // This creates a continuous shadow polygon from base to tip
+        const allPoints = [...basePoints, ...projectedPoints];
+        return {
+            polygon: computeConvexHull(allPoints),
+            opacity: feature.foliageDensity
+        };
+    }
+
+    // Exact shadow volume: base (with courtyards) + each edge swept along the shadow vector
+    const sweptEdges = (ring: Coordinates[], projected: Coordinates[]) => ring.map((a, i) => {
+        const j = (i + 1) % ring.length;
+        return toTurfPolygon([a, ring[j], projected[j], projected[i]]);
     });
 
-    // Combine original footprint with projected points and compute convex hull
-    // This creates a continuous shadow polygon from base to tip
-    const allPoints = [...feature.coordinates, ...projectedPoints];
-    const shadowPolygon = computeConvexHull(allPoints);
+    const pieces = [
+        toTurfPolygon(basePoints, feature.holes?.map(hole => hole.map(projectBase))),
+        ...sweptEdges(basePoints, projectedPoints),
+        ...(feature.holes || []).flatMap(hole => sweptEdges(hole.map(projectBase), hole.map(projectTip)))
+    ];
 
-    return {
-        polygon: shadowPolygon,
-        opacity: feature.foliageDensity
-    };
+    try {
+        const merged = union(turf.featureCollection(pieces));
+        const polygons = merged ? fromTurfGeometry(merged.geometry) : [];
+        if (polygons.length === 0) return null;
+
+        // The sweep is connected, so any extra parts are slivers from numerical noise; keep the largest
+        const areas = polygons.map(rings => getAreaOfPolygon(rings[0]));
+        const [outer, ...holes] = polygons[areas.indexOf(Math.max(...areas))];
+        return {
+            polygon: outer,
+            ...(holes.length > 0 ? { holes } : {}),
+            opacity: feature.foliageDensity
+        };
+    } catch (e) {
+        console.error(`Exact shadow failed for feature ${feature.id}, using convex hull`, e);
+        return {
+            polygon: computeConvexHull([...basePoints, ...projectedPoints]),
+            opacity: feature.foliageDensity
+        };
+    }
 };
 
 /**
  * Helper: Check if point is inside a polygon (Ray Casting)
+ * Casts an eastward ray (x = lng, y = lat); crossing parity doesn't depend on axis scale,
+ * so this is exact without projecting
  */
 const isPointInPolygon = (point: Coordinates, polygon: Coordinates[]) => {
     let inside = false;
     for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
-        const xi = polygon[i].lat, yi = polygon[i].lng;
-        const xj = polygon[j].lat, yj = polygon[j].lng;
+        const xi = polygon[i].lng, yi = polygon[i].lat;
+        const xj = polygon[j].lng, yj = polygon[j].lat;
 
-        const intersect = ((yi > point.lng) !== (yj > point.lng))
-            && (point.lat < (xj - xi) * (point.lng - yi) / (yj - yi) + xi);
+        const intersect = ((yi > point.lat) !== (yj > point.lat))
+            && (point.lng < (xj - xi) * (point.lat - yi) / (yj - yi) + xi);
         if (intersect) inside = !inside;
     }
     return inside;
 };
 
 /**
- * Helper: Convert Coordinates[] to Turf Polygon
+ * Helper: Point inside an outer ring but not inside any of its holes
  */
-const toTurfPolygon = (coords: Coordinates[]) => {
-    // GeoJSON uses [lng, lat]
-    // Ensure ring is closed
-    const ring = coords.map(c => [c.lng, c.lat]);
-    if (ring.length > 0) {
-        const first = ring[0];
-        const last = ring[ring.length - 1];
-        if (first[0] !== last[0] || first[1] !== last[1]) {
-            ring.push(first);
+export const isPointInRings = (point: Coordinates, outer: Coordinates[], holes?: Coordinates[][]) =>
+    isPointInPolygon(point, outer) && !(holes && holes.some(hole => isPointInPolygon(point, hole)));
+
+/**
+ * Projects shadows for all features at a given sun position, dropping features
+ * that cast none (e.g. sun below the horizon)
+ */
+export const computeShadows = (
+    features: ShadeFeature[],
+    sunPos: { azimuth: number; altitude: number }
+): FeatureShadow[] => {
+    return features.map(feature => ({
+        feature,
+        shadow: calculateFeatureShadow(feature, sunPos.azimuth, sunPos.altitude)
+    })).filter(s => s.shadow !== null);
+};
+
+// Recently built shadow indices per feature array, shared across route and step analyses
+const SHADOW_INDEX_CACHE_SIZE = 8;
+const shadowIndexCache = new WeakMap<ShadeFeature[], ShadowIndex[]>();
+
+/**
+ * Computes shadows for a sun position and indexes them spatially
+ * Returns `previous` unchanged while the sun stays within SUN_MOVEMENT_THRESHOLD_DEG
+ * of the position it was built for (it must have been built from the same features)
+ */
+export const buildShadowIndex = (
+    features: ShadeFeature[],
+    sunPos: { azimuth: number; altitude: number; azimuthDeg: number; altitudeDeg: number },
+    previous?: ShadowIndex
+): ShadowIndex => {
+    const isClose = (index: ShadowIndex) =>
+        Math.abs(sunPos.azimuthDeg - index.sunPosition.azimuthDeg) <= SUN_MOVEMENT_THRESHOLD_DEG
+        && Math.abs(sunPos.altitudeDeg - index.sunPosition.altitudeDeg) <= SUN_MOVEMENT_THRESHOLD_DEG;
+
+    if (previous && isClose(previous)) return previous;
+
+    // Exact shadows are costly, so reuse one built for this feature set by an earlier analysis
+    const recent = shadowIndexCache.get(features) || [];
+    const reusable = recent.find(isClose);
+    if (reusable) return reusable;
+
+    const shadows = computeShadows(features, sunPos);
+    const grid = createGridIndex<FeatureShadow>();
+    shadows.forEach(s => {
+        insertIntoGrid(grid, s, getBoundingBox(s.feature.coordinates, s.shadow ? s.shadow.polygon : []));
+    });
+
+    const index: ShadowIndex = {
+        shadows,
+        grid,
+        sunPosition: { azimuthDeg: sunPos.azimuthDeg, altitudeDeg: sunPos.altitudeDeg }
+    };
+    shadowIndexCache.set(features, [index, ...recent].slice(0, SHADOW_INDEX_CACHE_SIZE));
+    return index;
+};
+
+/**
+ * Shade level (0-100) at a single point, along with the feature providing it
+ * Checks both the feature footprint (standing under a tree) and its projected shadow
+ * Pass a ShadowIndex to only test nearby candidates; a plain array is scanned in full
+ */
+export const getShadeAtPoint = (
+    point: Coordinates,
+    shadows: FeatureShadow[] | ShadowIndex
+): { shadeLevel: number; feature: ShadeFeature | null } => {
+    let maxShadeLevel = 0;
+    let shadingFeature: ShadeFeature | null = null;
+    const candidates = Array.isArray(shadows) ? shadows : queryGridPoint(shadows.grid, point);
+
+    for (const s of candidates) {
+        // Check feature footprint (standing under tree/in building shadow)
+        // Elevated volumes only shade through their projected shadow - the sun can reach under them
+        if (!s.feature.minHeight && s.feature.foliageDensity * 100 > maxShadeLevel
+            && isPointInRings(point, s.feature.coordinates, s.feature.holes)) {
+            maxShadeLevel = s.feature.foliageDensity * 100;
+            shadingFeature = s.feature;
         }
+        // Check projected shadow
+        if (s.shadow && s.shadow.opacity * 100 > maxShadeLevel && isPointInRings(point, s.shadow.polygon, s.shadow.holes)) {
+            maxShadeLevel = s.shadow.opacity * 100;
+            shadingFeature = s.feature;
+        }
+
+        if (maxShadeLevel >= 100) break; // Max shade reached
     }
-    return turf.polygon([ring]);
+
+    return { shadeLevel: maxShadeLevel, feature: shadingFeature };
+};
+
+/**
+ * Helper: Convert Coordinates[] (plus optional holes) to Turf Polygon
+ */
+const toTurfPolygon = (coords: Coordinates[], holes: Coordinates[][] = []) => {
+    // GeoJSON uses [lng, lat]
+    // Ensure each ring is closed
+    const toRing = (ringCoords: Coordinates[]) => {
+        const ring = ringCoords.map(c => [c.lng, c.lat]);
+        if (ring.length > 0) {
+            const first = ring[0];
+            const last = ring[ring.length - 1];
+            if (first[0] !== last[0] || first[1] !== last[1]) {
+                ring.push([...first]);
+            }
+        }
+        return ring;
+    };
+    return turf.polygon([toRing(coords), ...holes.map(toRing)]);
+};
+
+/**
+ * Helper: Convert a Turf Polygon/MultiPolygon geometry into rings per polygon
+ * Each entry is [outer, ...holes]
+ */
+const fromTurfGeometry = (geom: { type: string; coordinates: any }): Coordinates[][][] => {
+    const toRings = (poly: number[][][]) => poly.map(ring => ring.map(p => ({ lat: p[1], lng: p[0] })));
+    if (geom.type === 'Polygon') return [toRings(geom.coordinates)];
+    if (geom.type === 'MultiPolygon') return geom.coordinates.map(toRings);
+    return [];
 };
 
 /**
  * Unifies multiple shadow polygons into a cleaner set of polygons
  * Updated for Turf 7.x which expects a FeatureCollection
+ * Each returned polygon is [outer, ...holes] so sunlit courtyards stay visible
  */
-const unifyShadows = (shadows: { shadow: Shadow | null }[]): Coordinates[][] => {
+export const unifyShadows = (shadows: { shadow: Shadow | null }[]): Coordinates[][][] => {
     try {
         const polygons = shadows
             .filter(s => s.shadow && s.shadow.polygon.length > 2)
-            .map(s => {
-                const ring = s.shadow!.polygon.map(c => [c.lng, c.lat]);
-                // Ensure ring is closed for GeoJSON
-                if (ring.length > 0) {
-                    const first = ring[0];
-                    const last = ring[ring.length - 1];
-                    if (first[0] !== last[0] || first[1] !== last[1]) {
-                        ring.push([...first]);
-                    }
-                }
-                return turf.polygon([ring]);
-            });
+            .map(s => toTurfPolygon(s.shadow!.polygon, s.shadow!.holes));
 
         if (polygons.length === 0) return [];
-        if (polygons.length === 1) {
-            const geom = polygons[0].geometry;
-            return [(geom.coordinates[0] as number[][]).map(p => ({ lat: p[1], lng: p[0] }))];
-        }
+        if (polygons.length === 1) return fromTurfGeometry(polygons[0].geometry);
 
         // Merge polygons using Turf 7.x union (which takes a FeatureCollection)
         const collection = turf.featureCollection(polygons);
         const merged = union(collection);
 
-        // Convert back to Coordinates[][]
-        const result: Coordinates[][] = [];
-        if (merged && merged.geometry) {
-            const geom = merged.geometry;
-            if (geom.type === 'Polygon') {
-                const coords = (geom.coordinates[0] as number[][]).map(p => ({ lat: p[1], lng: p[0] }));
-                result.push(coords);
-            } else if (geom.type === 'MultiPolygon') {
-                geom.coordinates.forEach((poly: any) => {
-                    const coords = (poly[0] as number[][]).map((p: any) => ({ lat: p[1], lng: p[0] }));
-                    result.push(coords);
-                });
-            }
-        }
-        return result;
+        // Convert back to Coordinates rings
+        return merged && merged.geometry ? fromTurfGeometry(merged.geometry) : [];
     } catch (e) {
         console.error("Error unifying shadows:", e);
         // Fallback to individual polygons if union fails
@@ -438,10 +809,37 @@ const unifyShadows = (shadows: { shadow: Shadow | null }[]): Coordinates[][] =>
     }
 };
 
+/**
+ * Resamples a polyline so consecutive points are at most `spacingMeters` apart
+ * Original vertices are kept; intermediate points are interpolated along each segment
+ */
+export const densifyPath = (points: Coordinates[], spacingMeters: number = DEFAULT_SAMPLE_SPACING): Coordinates[] => {
+    if (points.length < 2 || spacingMeters <= 0) return [...points];
+
+    const result: Coordinates[] = [points[0]];
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        const segmentLength = getDistance(
+            { latitude: a.lat, longitude: a.lng },
+            { latitude: b.lat, longitude: b.lng },
+            0.01
+        );
+        const steps = Math.max(1, Math.ceil(segmentLength / spacingMeters));
+        for (let s = 1; s <= steps; s++) {
+            const t = s / steps;
+            result.push({ lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t });
+        }
+    }
+    return result;
+};
+
 /**
  * Main Analysis Function with Debug Output
  * Now supports time-aware calculation where sun position is computed per route point
  * based on estimated walking time
+ * The route is densified first so long straight stretches are sampled too, and
+ * the average is weighted by the distance each sample represents
  */
 export const analyzeRouteShade = async (
     routePoints: Coordinates[],
@@ -449,20 +847,50 @@ export const analyzeRouteShade = async (
     cloudCoverage: number,
     includeDebug: boolean = false,
     totalDurationSeconds?: number, // Optional: total route duration in seconds
-    cachedFeatures?: ShadeFeature[] // Optional: Provide pre-fetched features to skip network call
-): Promise<{
-    avgShade: number;
-    profile: { timeOffset: number; shadeLevel: number }[];
-    debug?: ShadeAnalysisDebug;
-}> => {
-    if (cloudCoverage > 70) {
-        return {
-            avgShade: 100,
-            profile: routePoints.map((_, i) => ({ timeOffset: i, shadeLevel: 100 }))
-        };
+    cachedFeatures?: ShadeFeature[], // Optional: Provide pre-fetched features to skip network call
+    sampleSpacingMeters: number = DEFAULT_SAMPLE_SPACING
+): Promise<RouteShadeAnalysis> => {
+    const samplePoints = densifyPath(routePoints, sampleSpacingMeters);
+    if (samplePoints.length === 0) return { avgShade: 0, profile: [], shadingFeatures: [], samplePoints: [] };
+
+    // Calculate cumulative distances for time estimation and weighting
+    const cumulativeDistances: number[] = [0];
+    for (let i = 1; i < samplePoints.length; i++) {
+        const dist = getDistance(
+            { latitude: samplePoints[i - 1].lat, longitude: samplePoints[i - 1].lng },
+            { latitude: samplePoints[i].lat, longitude: samplePoints[i].lng },
+            0.01
+        );
+        cumulativeDistances.push(cumulativeDistances[i - 1] + dist);
     }
+    const routeLength = cumulativeDistances[cumulativeDistances.length - 1];
+    const totalDistance = routeLength || 1;
 
-    if (routePoints.length === 0) return { avgShade: 0, profile: [] };
+    // Default walking speed: ~5 km/h = ~1.4 m/s, or use provided duration
+    const estimatedTotalSeconds = totalDurationSeconds || (totalDistance / 1.4);
+    const secondsAt = (i: number) => (cumulativeDistances[i] / totalDistance) * estimatedTotalSeconds;
+    // Profile offsets are minutes since departure
+    const minutesAt = (i: number) => Math.round(secondsAt(i) / 6) / 10;
+
+    // Each sample stands for half of the segments on either side of it
+    const weights = samplePoints.map((_, i) => {
+        if (routeLength === 0) return 1;
+        const before = i > 0 ? cumulativeDistances[i] - cumulativeDistances[i - 1] : 0;
+        const after = i < samplePoints.length - 1 ? cumulativeDistances[i + 1] - cumulativeDistances[i] : 0;
+        return (before + after) / 2;
+    });
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0) || 1;
+
+    const fullShade = (): RouteShadeAnalysis => ({
+        avgShade: 100,
+        profile: samplePoints.map((_, i) => ({ timeOffset: minutesAt(i), shadeLevel: 100 })),
+        shadingFeatures: samplePoints.map(() => null),
+        samplePoints
+    });
+
+    // Clouds dim direct sun everywhere; shade from features only matters for what gets through
+    const transmittance = getDirectSunTransmittance(cloudCoverage);
+    if (transmittance <= 0) return fullShade();
 
     const center = routePoints[Math.floor(routePoints.length / 2)];
 
@@ -472,8 +900,7 @@ export const analyzeRouteShade = async (
     // Check if it's already night at start time
     if (initialSunPos.altitude <= 0) {
         return {
-            avgShade: 100,
-            profile: routePoints.map((_, i) => ({ timeOffset: i, shadeLevel: 100 })),
+            ...fullShade(),
             debug: includeDebug ? {
                 features: cachedFeatures || [],
                 shadows: [],
@@ -508,97 +935,57 @@ export const analyzeRouteShade = async (
     console.log(`  - Forests: ${features.filter(f => f.type === 'forest').length}`);
     console.log(`  - Covered paths: ${features.filter(f => f.type === 'covered').length}`);
 
-    // Calculate cumulative distances for time estimation
-    const cumulativeDistances: number[] = [0];
-    for (let i = 1; i < routePoints.length; i++) {
-        const dist = getDistance(
-            { latitude: routePoints[i - 1].lat, longitude: routePoints[i - 1].lng },
-            { latitude: routePoints[i].lat, longitude: routePoints[i].lng }
-        );
-        cumulativeDistances.push(cumulativeDistances[i - 1] + dist);
-    }
-    const totalDistance = cumulativeDistances[cumulativeDistances.length - 1] || 1;
-
-    // Default walking speed: ~5 km/h = ~1.4 m/s, or use provided duration
-    const estimatedTotalSeconds = totalDurationSeconds || (totalDistance / 1.4);
-
-    // Cache for shadows at different sun positions (optimization)
-    let cachedSunPos = initialSunPos;
-    let cachedShadows = features.map(feature => ({
-        feature,
-        shadow: calculateFeatureShadow(feature, cachedSunPos.azimuth, cachedSunPos.altitude)
-    })).filter(s => s.shadow !== null);
+    // Indexed shadows, rebuilt only when the sun moves noticeably (optimization)
+    let shadowIndex = buildShadowIndex(features, initialSunPos);
 
     // Track all shadows for debug (use initial calculation)
-    const debugShadows = cachedShadows;
+    const debugShadows = shadowIndex.shadows;
 
-    // Analyze each route point with time-aware sun position
-    let totalShade = 0;
+    // Analyze each sample with time-aware sun position
+    let weightedShade = 0;
     const profile = [];
+    const shadingFeatures: (ShadeFeature | null)[] = [];
 
-    for (let i = 0; i < routePoints.length; i++) {
-        const point = routePoints[i];
+    for (let i = 0; i < samplePoints.length; i++) {
+        const point = samplePoints[i];
 
         // Calculate estimated time at this point
-        const progressRatio = cumulativeDistances[i] / totalDistance;
-        const secondsElapsed = progressRatio * estimatedTotalSeconds;
-        const pointTime = new Date(date.getTime() + secondsElapsed * 1000);
+        const pointTime = new Date(date.getTime() + secondsAt(i) * 1000);
 
         // Get sun position at this specific time
         const pointSunPos = getSunPosition(point.lat, point.lng, pointTime);
 
         // Night check: if sun is below horizon, 100% shade
         if (pointSunPos.altitude <= 0) {
-            totalShade += 100;
-            profile.push({ timeOffset: i, shadeLevel: 100 });
+            weightedShade += 100 * weights[i];
+            profile.push({ timeOffset: minutesAt(i), shadeLevel: 100 });
+            shadingFeatures.push(null);
             continue;
         }
 
-        // Check if sun position changed significantly (>2 degrees) - recalculate shadows
-        const azimuthDelta = Math.abs(pointSunPos.azimuthDeg - cachedSunPos.azimuthDeg);
-        const altitudeDelta = Math.abs(pointSunPos.altitudeDeg - cachedSunPos.altitudeDeg);
+        // Recalculates shadows only if the sun moved significantly (>2 degrees)
+        shadowIndex = buildShadowIndex(features, pointSunPos, shadowIndex);
 
-        if (azimuthDelta > 2 || altitudeDelta > 2) {
-            cachedSunPos = pointSunPos;
-            cachedShadows = features.map(feature => ({
-                feature,
-                shadow: calculateFeatureShadow(feature, cachedSunPos.azimuth, cachedSunPos.altitude)
-            })).filter(s => s.shadow !== null);
-        }
-
-        let maxShadeLevel = 0;
-
-        for (const s of cachedShadows) {
-            // Check feature footprint (standing under tree/in building shadow)
-            if (isPointInPolygon(point, s.feature.coordinates)) {
-                maxShadeLevel = Math.max(maxShadeLevel, s.feature.foliageDensity * 100);
-            }
-            // Check projected shadow
-            if (s.shadow && isPointInPolygon(point, s.shadow.polygon)) {
-                maxShadeLevel = Math.max(maxShadeLevel, s.shadow.opacity * 100);
-            }
-
-            if (maxShadeLevel >= 100) break; // Max shade reached
-        }
+        const { shadeLevel: featureShade, feature } = getShadeAtPoint(point, shadowIndex);
+        const maxShadeLevel = 100 - (100 - featureShade) * transmittance;
 
-        totalShade += maxShadeLevel;
-        profile.push({ timeOffset: i, shadeLevel: Math.round(maxShadeLevel) });
+        weightedShade += maxShadeLevel * weights[i];
+        profile.push({ timeOffset: minutesAt(i), shadeLevel: Math.round(maxShadeLevel) });
+        shadingFeatures.push(feature);
     }
 
-    const result: {
-        avgShade: number;
-        profile: { timeOffset: number; shadeLevel: number }[];
-        debug?: ShadeAnalysisDebug;
-    } = {
-        avgShade: Math.round(totalShade / routePoints.length),
-        profile
+    const result: RouteShadeAnalysis = {
+        avgShade: Math.round(weightedShade / totalWeight),
+        profile,
+        shadingFeatures,
+        samplePoints
     };
 
     if (includeDebug) {
         result.debug = {
             features,
-            shadows: debugShadows as { feature: ShadeFeature; shadow: Shadow }[],
-            unifiedShadows: unifyShadows(debugShadows as any),
+            shadows: debugShadows,
+            unifiedShadows: unifyShadows(debugShadows),
             sunPosition: initialSunPos,
             bbox: routeBbox
         };
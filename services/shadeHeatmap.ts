@@ -0,0 +1,152 @@
+import { Coordinates } from '../types';
+import { GeoBounds } from './featureSource';
+import { computeShadows, getDirectSunTransmittance, getSunPosition, ShadeFeature } from './shadeEngine';
+import { getBoundingBox } from './spatialIndex';
+import { getBoundsSizeMeters } from './geoProjection';
+
+// Target cell size; grown automatically for large areas to stay under MAX_CELLS
+const DEFAULT_CELL_SIZE_METERS = 4;
+const MAX_CELLS = 200_000;
+
+// Each cell is sampled SUPERSAMPLING x SUPERSAMPLING times, so shadow edges blend smoothly
+const SUPERSAMPLING = 3;
+
+/**
+ * Shade fraction grid for an area at one instant
+ */
+export interface ShadeHeatmap {
+    bounds: GeoBounds;
+    rows: number;
+    cols: number;
+    values: Float32Array; // 0 = full sun, 1 = full shade; row-major from the north-west corner
+    sunPosition: { azimuthDeg: number; altitudeDeg: number };
+    failedShadows: number; // Shadows that couldn't be drawn, so those spots show too much sun
+}
+
+// Supersampled grid that shadows are filled into before cells are averaged
+interface SubGrid {
+    bounds: GeoBounds;
+    rows: number;
+    cols: number;
+    values: Float32Array; // Shade level 0-1 per sub-sample
+}
+
+/**
+ * Scanline-fills one polygon (outer ring and holes) into a supersampled grid at an opacity
+ * Even-odd filling over all rings leaves holes sunlit; overlapping shadows keep the darkest
+ * value, as getShadeAtPoint does
+ */
+const rasterizePolygon = (rings: Coordinates[][], opacity: number, grid: SubGrid) => {
+    const { bounds, rows, cols, values } = grid;
+    const subLat = (bounds.north - bounds.south) / rows;
+    const subLng = (bounds.east - bounds.west) / cols;
+    const box = getBoundingBox(...rings);
+
+    // Sub-row centres lie at north - (r + 0.5) * subLat
+    const first = Math.max(0, Math.ceil((bounds.north - box.maxLat) / subLat - 0.5));
+    const last = Math.min(rows - 1, Math.floor((bounds.north - box.minLat) / subLat - 0.5));
+
+    for (let r = first; r <= last; r++) {
+        const lat = bounds.north - (r + 0.5) * subLat;
+
+        const crossings: number[] = [];
+        rings.forEach(ring => {
+            for (let i = 0; i < ring.length; i++) {
+                const a = ring[i];
+                const b = ring[(i + 1) % ring.length];
+                // Half-open rule so vertices shared by two edges count once
+                if ((a.lat > lat) !== (b.lat > lat)) {
+                    crossings.push(a.lng + ((lat - a.lat) / (b.lat - a.lat)) * (b.lng - a.lng));
+                }
+            }
+        });
+        crossings.sort((x, y) => x - y);
+
+        for (let k = 0; k + 1 < crossings.length; k += 2) {
+            const start = Math.max(0, Math.ceil((crossings[k] - bounds.west) / subLng - 0.5));
+            const end = Math.min(cols - 1, Math.floor((crossings[k + 1] - bounds.west) / subLng - 0.5));
+            for (let c = start; c <= end; c++) {
+                if (values[r * cols + c] < opacity) values[r * cols + c] = opacity;
+            }
+        }
+    }
+};
+
+/**
+ * Computes how shaded every part of an area is at a given time
+ * Each shadow (and each ground-standing footprint) is rasterised at its own opacity, so thin
+ * parks and bare winter trees read the same as in route analysis
+ */
+export const computeShadeHeatmap = (
+    features: ShadeFeature[],
+    bounds: GeoBounds,
+    date: Date,
+    cloudCoverage: number = 0,
+    cellSizeMeters: number = DEFAULT_CELL_SIZE_METERS
+): ShadeHeatmap => {
+    const center = { lat: (bounds.north + bounds.south) / 2, lng: (bounds.east + bounds.west) / 2 };
+    const sunPos = getSunPosition(center.lat, center.lng, date);
+
+    const { width: widthMeters, height: heightMeters } = getBoundsSizeMeters(bounds);
+    let cellSize = cellSizeMeters;
+    if ((heightMeters / cellSize) * (widthMeters / cellSize) > MAX_CELLS) {
+        cellSize = Math.sqrt((heightMeters * widthMeters) / MAX_CELLS);
+    }
+
+    const rows = Math.max(1, Math.ceil(heightMeters / cellSize));
+    const cols = Math.max(1, Math.ceil(widthMeters / cellSize));
+    const heatmap: ShadeHeatmap = {
+        bounds,
+        rows,
+        cols,
+        values: new Float32Array(rows * cols),
+        sunPosition: { azimuthDeg: sunPos.azimuthDeg, altitudeDeg: sunPos.altitudeDeg },
+        failedShadows: 0
+    };
+
+    // Same rules as route analysis: no direct sun at night or under full cloud
+    const transmittance = getDirectSunTransmittance(cloudCoverage);
+    if (transmittance <= 0 || sunPos.altitude <= 0) {
+        heatmap.values.fill(1);
+        return heatmap;
+    }
+
+    const overlaps = (rings: Coordinates[][]) => {
+        const box = getBoundingBox(...rings);
+        return box.minLat <= bounds.north && box.maxLat >= bounds.south &&
+            box.minLng <= bounds.east && box.maxLng >= bounds.west;
+    };
+
+    const grid: SubGrid = {
+        bounds,
+        rows: rows * SUPERSAMPLING,
+        cols: cols * SUPERSAMPLING,
+        values: new Float32Array(rows * cols * SUPERSAMPLING * SUPERSAMPLING)
+    };
+    computeShadows(features, sunPos).forEach(({ feature, shadow }) => {
+        // Elevated volumes only shade through their projected shadow, as in getShadeAtPoint
+        const footprint = [feature.coordinates, ...(feature.holes || [])];
+        const outline = [shadow!.polygon, ...(shadow!.holes || [])];
+        try {
+            if (!feature.minHeight && overlaps(footprint)) rasterizePolygon(footprint, feature.foliageDensity, grid);
+            if (overlaps(outline)) rasterizePolygon(outline, shadow!.opacity, grid);
+        } catch (e) {
+            console.error(`Failed to draw the shadow of feature ${feature.id}`, e);
+            heatmap.failedShadows++;
+        }
+    });
+
+    // Average sub-samples into cells, then dim the remaining sun by cloud cover
+    const weight = 1 / (SUPERSAMPLING * SUPERSAMPLING);
+    for (let r = 0; r < grid.rows; r++) {
+        const row = Math.floor(r / SUPERSAMPLING);
+        for (let c = 0; c < grid.cols; c++) {
+            heatmap.values[row * cols + Math.floor(c / SUPERSAMPLING)] += grid.values[r * grid.cols + c] * weight;
+        }
+    }
+    for (let i = 0; i < heatmap.values.length; i++) {
+        heatmap.values[i] = 1 - (1 - Math.min(1, heatmap.values[i])) * transmittance;
+    }
+
+    return heatmap;
+};
@@ -0,0 +1,214 @@
+import { Coordinates } from '../types';
+import { buildShadowIndex, getDirectSunTransmittance, getShadeAtPoint, getSunPosition, ShadeFeature, ShadowIndex } from './shadeEngine';
+import { WalkEdge, WalkGraph } from './routingEngine';
+import { createLocalFrame, offsetByMeters, offsetLine, toLocal } from './geoProjection';
+import { createGridIndex, getBoundingBox, GridIndex, insertIntoGrid, queryGridBox } from './spatialIndex';
+
+// Pavement offset used when no street is matched: a two-lane road plus pavement
+const DEFAULT_SIDEWALK_OFFSET = 6;
+
+// Samples further than this from any street edge aren't matched to it (m)
+const MAX_MATCH_DISTANCE = 25;
+
+// Minimum alignment (cosine) between the route and a matched street
+const MIN_MATCH_ALIGNMENT = 0.7;
+
+// One side must be this much shadier (percentage points) over at least this distance
+const SIDE_ADVANTAGE = 25;
+const MIN_ADVICE_DISTANCE = 40;
+
+const COMPASS_POINTS = ['north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'];
+
+export type SidewalkSide = 'left' | 'right';
+
+/**
+ * A stretch where one pavement is clearly shadier than the other
+ */
+export interface SidewalkAdvice {
+    side: SidewalkSide;
+    compass: string; // Side as a compass direction, e.g. "north"
+    startDistance: number; // Metres from the start of the analysed path
+    distance: number; // Length of the stretch (m)
+    shade: number; // Average shade on the advised side
+    otherShade: number; // Average shade on the opposite side
+    path: Coordinates[]; // The advised pavement, for display
+}
+
+// Edge grids per graph; every sample of every step is matched, again on each time change
+const edgeGridCache = new WeakMap<WalkGraph, GridIndex<number>>();
+
+const getEdgeGrid = (graph: WalkGraph): GridIndex<number> => {
+    let grid = edgeGridCache.get(graph);
+    if (!grid) {
+        grid = createGridIndex<number>();
+        const edgeGrid = grid;
+        graph.edges.forEach((edge, idx) =>
+            insertIntoGrid(edgeGrid, idx, getBoundingBox([graph.nodes.get(edge.from)!, graph.nodes.get(edge.to)!]))
+        );
+        edgeGridCache.set(graph, grid);
+    }
+    return grid;
+};
+
+/**
+ * Street edge a sample walks along, matched by distance to the edge and direction
+ * Samples are matched anywhere along an edge, not just near its ends, so long OSM segments count
+ */
+const matchStreetEdge = (graph: WalkGraph, point: Coordinates, next: Coordinates): WalkEdge | null => {
+    // Only edges whose bounding box comes within matching distance are candidates
+    const frame = createLocalFrame(point);
+    const nearby = queryGridBox(getEdgeGrid(graph), getBoundingBox([
+        offsetByMeters(point, -MAX_MATCH_DISTANCE, -MAX_MATCH_DISTANCE),
+        offsetByMeters(point, MAX_MATCH_DISTANCE, MAX_MATCH_DISTANCE)
+    ]));
+
+    const travel = toLocal(frame, next);
+    const travelLength = Math.hypot(travel.x, travel.y) || 1;
+
+    // Nearest aligned edge; edges through the same junction tie on distance, so alignment decides
+    let best: WalkEdge | null = null;
+    let bestDistance = MAX_MATCH_DISTANCE;
+    let bestAlignment = MIN_MATCH_ALIGNMENT;
+    for (const idx of nearby) {
+        const edge = graph.edges[idx];
+        const from = toLocal(frame, graph.nodes.get(edge.from)!);
+        const to = toLocal(frame, graph.nodes.get(edge.to)!);
+        const dx = to.x - from.x;
+        const dy = to.y - from.y;
+        const length = Math.hypot(dx, dy) || 1;
+        const alignment = (dx * travel.x + dy * travel.y) / (length * travelLength);
+        if (alignment <= MIN_MATCH_ALIGNMENT) continue;
+
+        // Distance from the sample (the frame's origin) to the closest point of the segment
+        const t = Math.max(0, Math.min(1, -(from.x * dx + from.y * dy) / (length * length)));
+        const distance = Math.hypot(from.x + t * dx, from.y + t * dy);
+        if (distance < bestDistance || (distance === bestDistance && alignment > bestAlignment)) {
+            best = edge;
+            bestDistance = distance;
+            bestAlignment = alignment;
+        }
+    }
+    return best;
+};
+
+const toCompass = (bearingDeg: number) =>
+    COMPASS_POINTS[Math.round((((bearingDeg % 360) + 360) % 360) / 45) % 8];
+
+/**
+ * Compares shade on both pavements of a path and finds the longest stretch
+ * where crossing to one side is clearly worth it
+ * Pavements are the sampled centreline offset by the matched street's width (or a default);
+ * sides without a pavement are never advised
+ */
+export const analyzeSidewalks = (
+    samplePoints: Coordinates[],
+    profile: { timeOffset: number }[],
+    date: Date,
+    cloudCoverage: number,
+    features: ShadeFeature[],
+    graph?: WalkGraph | null
+): SidewalkAdvice | null => {
+    if (samplePoints.length < 2 || profile.length !== samplePoints.length) return null;
+
+    const transmittance = getDirectSunTransmittance(cloudCoverage);
+    if (transmittance <= 0) return null;
+
+    // Pavement offsets per sample, NaN where a side has no pavement
+    const offsets = samplePoints.map((point, i) => {
+        const next = samplePoints[Math.min(i + 1, samplePoints.length - 1)];
+        const prev = samplePoints[Math.max(i - 1, 0)];
+        const edge = graph && graph.edges.length > 0 ? matchStreetEdge(graph, i < samplePoints.length - 1 ? point : prev, next) : null;
+        if (!edge) return { left: DEFAULT_SIDEWALK_OFFSET, right: DEFAULT_SIDEWALK_OFFSET };
+        if (edge.sidewalkOffset === 0) return { left: NaN, right: NaN };
+        return {
+            left: edge.sidewalks.left ? edge.sidewalkOffset : NaN,
+            right: edge.sidewalks.right ? edge.sidewalkOffset : NaN
+        };
+    });
+
+    const leftPath = offsetLine(samplePoints, offsets.map(o => o.left || 0));
+    const rightPath = offsetLine(samplePoints, offsets.map(o => -(o.right || 0)));
+
+    let shadowIndex: ShadowIndex | undefined;
+    const shadeAt = (point: Coordinates, index: ShadowIndex) =>
+        100 - (100 - getShadeAtPoint(point, index).shadeLevel) * transmittance;
+
+    const sides = samplePoints.map((point, i) => {
+        const sunPos = getSunPosition(point.lat, point.lng, new Date(date.getTime() + profile[i].timeOffset * 60 * 1000));
+        if (sunPos.altitude <= 0) return null;
+        shadowIndex = buildShadowIndex(features, sunPos, shadowIndex);
+        return {
+            left: isNaN(offsets[i].left) ? NaN : shadeAt(leftPath[i], shadowIndex),
+            right: isNaN(offsets[i].right) ? NaN : shadeAt(rightPath[i], shadowIndex)
+        };
+    });
+
+    // Distances along the path in one local frame
+    const frame = createLocalFrame(samplePoints[0]);
+    const local = samplePoints.map(p => toLocal(frame, p));
+    const cumulative = [0];
+    for (let i = 1; i < local.length; i++) {
+        cumulative.push(cumulative[i - 1] + Math.hypot(local[i].x - local[i - 1].x, local[i].y - local[i - 1].y));
+    }
+
+    const favours = (i: number, side: SidewalkSide) => {
+        const s = sides[i];
+        const other = side === 'left' ? 'right' : 'left';
+        return !!s && s[side] - s[other] >= SIDE_ADVANTAGE; // NaN on either side never passes
+    };
+
+    // Longest run of consecutive samples favouring the same side
+    let best: { side: SidewalkSide; start: number; end: number } | null = null;
+    (['left', 'right'] as SidewalkSide[]).forEach(side => {
+        let start = -1;
+        for (let i = 0; i <= samplePoints.length; i++) {
+            if (i < samplePoints.length && favours(i, side)) {
+                if (start < 0) start = i;
+                continue;
+            }
+            if (start >= 0) {
+                const length = cumulative[i - 1] - cumulative[start];
+                if (!best || length > cumulative[best.end] - cumulative[best.start]) best = { side, start, end: i - 1 };
+                start = -1;
+            }
+        }
+    });
+
+    if (!best) return null;
+    const { side, start, end } = best as { side: SidewalkSide; start: number; end: number };
+    const distance = cumulative[end] - cumulative[start];
+    if (distance < MIN_ADVICE_DISTANCE) return null;
+
+    const other = side === 'left' ? 'right' : 'left';
+    const run = sides.slice(start, end + 1) as { left: number; right: number }[];
+    const average = (values: number[]) => Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+
+    // Direction the advised pavement lies in, from the run's overall heading
+    const heading = (Math.atan2(local[end].x - local[start].x, local[end].y - local[start].y) * 180) / Math.PI;
+
+    return {
+        side,
+        compass: toCompass(heading + (side === 'left' ? -90 : 90)),
+        startDistance: cumulative[start],
+        distance,
+        shade: average(run.map(s => s[side])),
+        otherShade: average(run.map(s => s[other])),
+        path: (side === 'left' ? leftPath : rightPath).slice(start, end + 1)
+    };
+};
+
+const roundDistance = (meters: number) => Math.max(10, Math.round(meters / 10) * 10);
+
+/**
+ * Phrases advice for a step, e.g. "Cross to the north side for the next 200 m"
+ * Pass the compass side advised for the previous step to say "stay" instead of "cross"
+ */
+export const describeSidewalkAdvice = (advice: SidewalkAdvice, previousCompass?: string): string => {
+    const verb = previousCompass === advice.compass ? 'stay on' : 'cross to';
+    const shade = `${advice.shade}% vs ${advice.otherShade}% shade`;
+
+    if (advice.startDistance < 20) {
+        return `${verb.charAt(0).toUpperCase()}${verb.slice(1)} the ${advice.compass} side for the next ${roundDistance(advice.distance)} m (${shade})`;
+    }
+    return `After ${roundDistance(advice.startDistance)} m, ${verb} the ${advice.compass} side for ${roundDistance(advice.distance)} m (${shade})`;
+};
@@ -0,0 +1,38 @@
+// Solar constant at the top of the atmosphere (W/m²)
+const SOLAR_CONSTANT = 1361;
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Relative optical air mass for a sun altitude (Kasten & Young 1989)
+ * Returns Infinity when the sun is below the horizon
+ */
+export const getAirMass = (altitudeDeg: number): number => {
+    if (altitudeDeg <= 0) return Infinity;
+    return 1 / (Math.sin(toRadians(altitudeDeg)) + 0.50572 * Math.pow(altitudeDeg + 6.07995, -1.6364));
+};
+
+/**
+ * Clear-sky direct normal irradiance (W/m²), Meinel model
+ */
+export const getClearSkyDirectIrradiance = (altitudeDeg: number): number => {
+    const airMass = getAirMass(altitudeDeg);
+    if (!isFinite(airMass)) return 0;
+    return SOLAR_CONSTANT * Math.pow(0.7, Math.pow(airMass, 0.678));
+};
+
+/**
+ * Clear-sky diffuse horizontal irradiance (W/m²)
+ * Uses the usual rule of thumb that scattered skylight adds ~10% to the direct beam
+ */
+export const getClearSkyDiffuseIrradiance = (altitudeDeg: number): number =>
+    0.1 * getClearSkyDirectIrradiance(altitudeDeg);
+
+/**
+ * Clear-sky UV index for a sun altitude, UVI ≈ 12.5·μ₀^2.42 (Allaart et al. 2004)
+ * μ₀ is the cosine of the solar zenith angle; assumes typical mid-latitude ozone
+ */
+export const getClearSkyUvIndex = (altitudeDeg: number): number => {
+    if (altitudeDeg <= 0) return 0;
+    return 12.5 * Math.pow(Math.sin(toRadians(altitudeDeg)), 2.42);
+};
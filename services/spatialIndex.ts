@@ -0,0 +1,89 @@
+import { Coordinates } from '../types';
+
+export interface BoundingBox {
+    minLat: number;
+    maxLat: number;
+    minLng: number;
+    maxLng: number;
+}
+
+/**
+ * Uniform grid over lat/lng bounding boxes
+ * Each item is registered in every cell its bbox overlaps, so a point query
+ * only has to look at the single cell containing the point
+ */
+export interface GridIndex<T> {
+    cellSize: number; // degrees
+    cells: Map<string, T[]>;
+    size: number;
+}
+
+// ~50 m cells: small enough to prune most candidates, large enough to keep memory low
+const DEFAULT_CELL_SIZE = 0.0005;
+
+const cellKey = (latCell: number, lngCell: number) => `${latCell}:${lngCell}`;
+
+/**
+ * Bounding box of one or more rings
+ */
+export const getBoundingBox = (...rings: Coordinates[][]): BoundingBox => {
+    const box = { minLat: Infinity, maxLat: -Infinity, minLng: Infinity, maxLng: -Infinity };
+    rings.forEach(ring => ring.forEach(c => {
+        if (c.lat < box.minLat) box.minLat = c.lat;
+        if (c.lat > box.maxLat) box.maxLat = c.lat;
+        if (c.lng < box.minLng) box.minLng = c.lng;
+        if (c.lng > box.maxLng) box.maxLng = c.lng;
+    }));
+    return box;
+};
+
+export const createGridIndex = <T>(cellSize: number = DEFAULT_CELL_SIZE): GridIndex<T> => ({
+    cellSize,
+    cells: new Map(),
+    size: 0
+});
+
+export const insertIntoGrid = <T>(index: GridIndex<T>, item: T, box: BoundingBox) => {
+    if (!isFinite(box.minLat) || !isFinite(box.minLng)) return;
+
+    const latStart = Math.floor(box.minLat / index.cellSize);
+    const latEnd = Math.floor(box.maxLat / index.cellSize);
+    const lngStart = Math.floor(box.minLng / index.cellSize);
+    const lngEnd = Math.floor(box.maxLng / index.cellSize);
+
+    for (let la = latStart; la <= latEnd; la++) {
+        for (let ln = lngStart; ln <= lngEnd; ln++) {
+            const key = cellKey(la, ln);
+            const bucket = index.cells.get(key);
+            if (bucket) bucket.push(item);
+            else index.cells.set(key, [item]);
+        }
+    }
+    index.size++;
+};
+
+/**
+ * Items whose bounding box may contain the point
+ */
+export const queryGridPoint = <T>(index: GridIndex<T>, point: Coordinates): T[] => {
+    const key = cellKey(Math.floor(point.lat / index.cellSize), Math.floor(point.lng / index.cellSize));
+    return index.cells.get(key) || [];
+};
+
+/**
+ * Items whose bounding box may intersect the box (deduplicated)
+ */
+export const queryGridBox = <T>(index: GridIndex<T>, box: BoundingBox): T[] => {
+    const found = new Set<T>();
+    const latStart = Math.floor(box.minLat / index.cellSize);
+    const latEnd = Math.floor(box.maxLat / index.cellSize);
+    const lngStart = Math.floor(box.minLng / index.cellSize);
+    const lngEnd = Math.floor(box.maxLng / index.cellSize);
+
+    for (let la = latStart; la <= latEnd; la++) {
+        for (let ln = lngStart; ln <= lngEnd; ln++) {
+            index.cells.get(cellKey(la, ln))?.forEach(item => found.add(item));
+        }
+    }
+    return [...found];
+};
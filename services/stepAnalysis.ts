@@ -0,0 +1,166 @@
+import { Coordinates, RouteStep } from '../types';
+import { analyzeRouteShade, getDirectSunTransmittance, getSunPosition, ShadeFeature } from './shadeEngine';
+import { createLocalFrame, toLocal } from './geoProjection';
+import { analyzeSidewalks, describeSidewalkAdvice } from './sidewalkAnalysis';
+import { WalkGraph } from './routingEngine';
+
+export interface StepInput {
+    instruction: string;
+    distance: string;
+    duration: string;
+    durationSeconds: number;
+    path: Coordinates[];
+    streetName?: string; // Used to phrase descriptions like "Tree row along Strada Y"
+}
+
+// Direction words Google wraps in <b> tags alongside street names
+const DIRECTION_WORDS = /^(left|right|north|south|east|west|northeast|northwest|southeast|southwest|slightly left|slightly right|sharp left|sharp right)$/i;
+
+/**
+ * Maps a shade percentage to the step quality shown in RouteList
+ */
+export const getShadeQuality = (shade: number): RouteStep['shadeQuality'] =>
+    shade > 70 ? 'shady' : shade > 40 ? 'partial' : 'sunny';
+
+/**
+ * Pulls the street name out of a Google step instruction
+ * e.g. "Turn <b>left</b> onto <b>Strada Lăpușneanu</b>" -> "Strada Lăpușneanu"
+ */
+export const extractStreetName = (instructionHtml: string): string | undefined => {
+    const bolded = [...instructionHtml.matchAll(/<b>(.*?)<\/b>/g)]
+        .map(m => m[1].replace(/<[^>]*>?/gm, '').trim())
+        .filter(text => text && !DIRECTION_WORDS.test(text));
+    return bolded[bolded.length - 1];
+};
+
+/**
+ * Which side of the walker a feature sits on, based on the travel direction at a point
+ */
+const sideOf = (prev: Coordinates, next: Coordinates, feature: ShadeFeature): 'left' | 'right' => {
+    const centroid = feature.coordinates.reduce(
+        (acc, c) => ({ lat: acc.lat + c.lat / feature.coordinates.length, lng: acc.lng + c.lng / feature.coordinates.length }),
+        { lat: 0, lng: 0 }
+    );
+    // Local east/north axes so the cross product isn't skewed by longitude convergence
+    const frame = createLocalFrame(prev);
+    const travel = toLocal(frame, next);
+    const toFeature = toLocal(frame, centroid);
+    return travel.x * toFeature.y - travel.y * toFeature.x > 0 ? 'left' : 'right';
+};
+
+/**
+ * Phrases a single shading feature from the walker's point of view
+ */
+const describeFeature = (feature: ShadeFeature, side: 'left' | 'right', streetName?: string, treeCount = 1): string => {
+    switch (feature.type) {
+        case 'building': return `Shaded by ${feature.name || 'buildings'} on your ${side}`;
+        case 'tree_row': return `Tree row along ${streetName || feature.name || 'the street'}`;
+        case 'tree': return treeCount > 1 ? `Street trees on your ${side}` : `Under ${feature.name || 'a tree'}`;
+        case 'park': return `Through ${feature.name || 'the park'}`;
+        case 'forest': return `Under the canopy of ${feature.name || 'the woods'}`;
+        case 'covered': return `Covered walkway${feature.name ? ` (${feature.name})` : ''}`;
+        default: return 'Shaded';
+    }
+};
+
+/**
+ * Generates a step description from the features that actually shade its points
+ */
+export const describeStepShade = (
+    path: Coordinates[],
+    shadingFeatures: (ShadeFeature | null)[],
+    streetName?: string
+): string => {
+    // Tally how many points each feature shades, and from which side
+    const tally = new Map<number, { feature: ShadeFeature; count: number; left: number }>();
+    shadingFeatures.forEach((feature, i) => {
+        if (!feature) return;
+        const prev = path[Math.max(0, i - 1)];
+        const next = path[Math.min(path.length - 1, i + 1)];
+        const entry = tally.get(feature.id) || { feature, count: 0, left: 0 };
+        entry.count++;
+        if (prev !== next && sideOf(prev, next, feature) === 'left') entry.left++;
+        tally.set(feature.id, entry);
+    });
+
+    if (tally.size === 0) return 'Exposed to direct sun - no shading features along this stretch';
+
+    const ranked = [...tally.values()].sort((a, b) => b.count - a.count);
+    const dominant = ranked[0];
+    const side = dominant.left * 2 >= dominant.count ? 'left' : 'right';
+    const treeCount = ranked.filter(e => e.feature.type === 'tree').length;
+
+    let description = describeFeature(dominant.feature, side, streetName, treeCount);
+
+    // Mention a second, different kind of shade if it covers a meaningful share
+    const secondary = ranked.find(e => e.feature.type !== dominant.feature.type && e.count * 4 >= dominant.count);
+    if (secondary) {
+        const secondarySide = secondary.left * 2 >= secondary.count ? 'left' : 'right';
+        const text = describeFeature(secondary.feature, secondarySide, streetName, treeCount);
+        description += `, then ${text.charAt(0).toLowerCase()}${text.slice(1)}`;
+    }
+
+    return description;
+};
+
+/**
+ * Runs shade analysis separately on each step's own geometry
+ * Steps are analysed at their estimated start time so sun position follows the walk
+ * With a walking graph, pavement offsets follow the matched streets' tags
+ */
+export const analyzeSteps = async (
+    steps: StepInput[],
+    startDate: Date,
+    cloudCoverage: number,
+    features: ShadeFeature[],
+    graph?: WalkGraph | null
+): Promise<RouteStep[]> => {
+    let elapsedSeconds = 0;
+
+    const analyzed = await Promise.all(steps.map(async step => {
+        const stepStart = new Date(startDate.getTime() + elapsedSeconds * 1000);
+        elapsedSeconds += step.durationSeconds;
+
+        const analysis = await analyzeRouteShade(
+            step.path,
+            stepStart,
+            cloudCoverage,
+            false,
+            step.durationSeconds || undefined,
+            features
+        );
+
+        let description: string;
+        if (getDirectSunTransmittance(cloudCoverage) <= 0) {
+            description = 'Overcast sky - clouds block direct sun';
+        } else if (step.path.length > 0 && getSunPosition(step.path[0].lat, step.path[0].lng, stepStart).altitude <= 0) {
+            description = 'Sun is below the horizon';
+        } else {
+            description = describeStepShade(analysis.samplePoints, analysis.shadingFeatures, step.streetName);
+        }
+
+        const routeStep: RouteStep = {
+            instruction: step.instruction,
+            distance: step.distance,
+            duration: step.duration,
+            shadeQuality: getShadeQuality(analysis.avgShade),
+            shadePercentage: analysis.avgShade,
+            description
+        };
+        const sidewalk = analyzeSidewalks(analysis.samplePoints, analysis.profile, stepStart, cloudCoverage, features, graph);
+
+        return { step: routeStep, sidewalk };
+    }));
+
+    // Advice is phrased in walking order so a repeated side reads "stay on" rather than "cross to"
+    let previousCompass: string | undefined;
+    return analyzed.map(({ step, sidewalk }) => {
+        if (!sidewalk) {
+            previousCompass = undefined;
+            return step;
+        }
+        const advice = describeSidewalkAdvice(sidewalk, previousCompass);
+        previousCompass = sidewalk.compass;
+        return { ...step, sidewalkAdvice: advice, sidewalkPath: sidewalk.path };
+    });
+};
@@ -0,0 +1,220 @@
+import { Coordinates } from '../types';
+import {
+    applySeasonalFoliage,
+    calculateFeatureShadow,
+    FeatureShadow,
+    getShadeAtPoint,
+    getSunPosition,
+    removeSeasonalFoliage,
+    ShadeFeature
+} from './shadeEngine';
+import { GeoBounds } from './featureSource';
+import { createLocalFrame, LocalPoint, offsetByMeters, toLocal } from './geoProjection';
+import { addDays, formatZonedTime, toZonedDate } from './tripTime';
+
+// Minutes between sun samples through the day
+export const SUN_EXPOSURE_STEP_MINUTES = 10;
+
+// Features further away are ignored; only sun a few degrees above the horizon casts longer shadows
+const FEATURE_RADIUS_METERS = 250;
+
+// A street segment is sampled about every 10 m, up to a fixed number of points
+const SEGMENT_SPACING_METERS = 10;
+const MAX_SEGMENT_SAMPLES = 15;
+
+// Share of a segment that must be in direct sun for first and last sun
+const SUNNY_SHARE = 0.5;
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Direct sun at a place on one day, with times read in the report's time zone
+ */
+export interface SunExposureDay {
+    date: string; // YYYY-MM-DD
+    sunHours: number; // Hours of direct sun, averaged over the sampled points
+    daylightHours: number; // Hours with the sun above the horizon
+    firstSun: string | null; // HH:MM; null on days the sun never gets through
+    lastSun: string | null;
+}
+
+/**
+ * Year-round direct sun at a point or along a street segment, under a clear sky
+ */
+export interface SunExposureReport {
+    points: Coordinates[]; // One point, or samples along the segment
+    year: number;
+    timeZone: string;
+    days: SunExposureDay[];
+    hourly: number[][]; // [month][hour]: average minutes of direct sun within each local hour
+}
+
+// Footprint of a feature as a circle in the report's local frame, for cheap rejection
+interface NearbyFeature {
+    center: LocalPoint;
+    radius: number;
+    height: number;
+}
+
+/**
+ * Evenly spaced points along a straight street segment, ends included
+ */
+export const sampleSegment = (from: Coordinates, to: Coordinates): Coordinates[] => {
+    const end = toLocal(createLocalFrame(from), to);
+    const count = Math.min(MAX_SEGMENT_SAMPLES, Math.max(2, Math.ceil(Math.hypot(end.x, end.y) / SEGMENT_SPACING_METERS) + 1));
+    return Array.from({ length: count }, (_, i) => ({
+        lat: from.lat + ((to.lat - from.lat) * i) / (count - 1),
+        lng: from.lng + ((to.lng - from.lng) * i) / (count - 1)
+    }));
+};
+
+/**
+ * Area to fetch features for, so everything within reach of the points is included
+ */
+export const getSunExposureBounds = (points: Coordinates[]): GeoBounds => {
+    const southWest = offsetByMeters(
+        { lat: Math.min(...points.map(p => p.lat)), lng: Math.min(...points.map(p => p.lng)) },
+        -FEATURE_RADIUS_METERS, -FEATURE_RADIUS_METERS
+    );
+    const northEast = offsetByMeters(
+        { lat: Math.max(...points.map(p => p.lat)), lng: Math.max(...points.map(p => p.lng)) },
+        FEATURE_RADIUS_METERS, FEATURE_RADIUS_METERS
+    );
+    return { south: southWest.lat, west: southWest.lng, north: northEast.lat, east: northEast.lng };
+};
+
+const toNearbyFeature = (feature: ShadeFeature, toFrame: (coord: Coordinates) => LocalPoint): NearbyFeature => {
+    const ring = feature.coordinates.map(toFrame);
+    const center = {
+        x: ring.reduce((sum, p) => sum + p.x, 0) / ring.length,
+        y: ring.reduce((sum, p) => sum + p.y, 0) / ring.length
+    };
+    const radius = Math.max(...ring.map(p => Math.hypot(p.x - center.x, p.y - center.y)));
+    return { center, radius, height: feature.height };
+};
+
+// A shadow is the footprint swept away from the sun, so a point can only be in it when the
+// footprint circle lies towards the sun and no further than the shadow's length
+const canShade = (feature: NearbyFeature, point: LocalPoint, sunX: number, sunY: number, lengthPerMeter: number) => {
+    const dx = feature.center.x - point.x;
+    const dy = feature.center.y - point.y;
+    const along = dx * sunX + dy * sunY;
+    const across = Math.abs(dx * sunY - dy * sunX);
+    return across <= feature.radius && along >= -feature.radius && along <= feature.radius + feature.height * lengthPerMeter;
+};
+
+/**
+ * Hours of direct sun on every day of a year at a point, or averaged along a street segment
+ * The sun is sampled every SUN_EXPOSURE_STEP_MINUTES through each local day, and foliage is
+ * re-seasoned for each month. Clouds are left out, so the report shows what a clear day brings
+ */
+export const computeSunExposureReport = async (
+    points: Coordinates[],
+    year: number,
+    timeZone: string,
+    features: ShadeFeature[]
+): Promise<SunExposureReport> => {
+    const report: SunExposureReport = {
+        points,
+        year,
+        timeZone,
+        days: [],
+        hourly: MONTH_NAMES.map(() => Array(24).fill(0))
+    };
+    if (points.length === 0) return report;
+
+    const frame = createLocalFrame(points[0]);
+    const toFrame = (coord: Coordinates) => toLocal(frame, coord);
+    const samples = points.map(toFrame);
+    const center = {
+        lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+        lng: points.reduce((sum, p) => sum + p.lng, 0) / points.length
+    };
+
+    // Only features within reach are kept, with their outlines reduced to circles for the per-step check
+    const nearbyFeatures: ShadeFeature[] = [];
+    const nearby: NearbyFeature[] = [];
+    removeSeasonalFoliage(features).forEach(feature => {
+        if (feature.coordinates.length === 0) return;
+        const shape = toNearbyFeature(feature, toFrame);
+        const reach = FEATURE_RADIUS_METERS + shape.radius;
+        if (!samples.some(p => Math.hypot(shape.center.x - p.x, shape.center.y - p.y) <= reach)) return;
+        nearbyFeatures.push(feature);
+        nearby.push(shape);
+    });
+
+    const step = SUN_EXPOSURE_STEP_MINUTES;
+    const daysPerMonth = Array(12).fill(0);
+
+    for (let month = 0; month < 12; month++) {
+        const monthFeatures = applySeasonalFoliage(nearbyFeatures, new Date(year, month, 15));
+
+        for (let date = `${year}-${String(month + 1).padStart(2, '0')}-01`; Number(date.slice(5, 7)) === month + 1; date = addDays(date, 1)) {
+            const dayStart = toZonedDate(date, '00:00', timeZone).getTime();
+            const dayEnd = toZonedDate(addDays(date, 1), '00:00', timeZone).getTime();
+            let sunMinutes = 0;
+            let daylightMinutes = 0;
+            let firstSun: string | null = null;
+            let lastSun: string | null = null;
+
+            // Each step is sampled at its middle; day length follows daylight saving changes
+            for (let start = dayStart; start < dayEnd; start += step * 60000) {
+                const instant = new Date(start + step * 30000);
+                const sun = getSunPosition(center.lat, center.lng, instant);
+                if (sun.altitude <= 0) continue;
+                daylightMinutes += step;
+
+                // Unit vector towards the sun, in the same east/north frame as the samples
+                const sunBearing = ((sun.azimuthDeg + 180) % 360) * Math.PI / 180;
+                const sunX = Math.sin(sunBearing);
+                const sunY = Math.cos(sunBearing);
+                const lengthPerMeter = 1 / Math.tan(sun.altitude);
+
+                const shadows: FeatureShadow[] = [];
+                nearby.forEach((shape, i) => {
+                    if (!samples.some(p => canShade(shape, p, sunX, sunY, lengthPerMeter))) return;
+                    shadows.push({ feature: monthFeatures[i], shadow: calculateFeatureShadow(monthFeatures[i], sun.azimuth, sun.altitude) });
+                });
+
+                const sunShare = points.reduce((sum, p) => sum + 1 - getShadeAtPoint(p, shadows).shadeLevel / 100, 0) / points.length;
+                sunMinutes += sunShare * step;
+                report.hourly[month][Number(formatZonedTime(instant, timeZone).slice(0, 2))] += sunShare * step;
+                if (sunShare >= SUNNY_SHARE) {
+                    firstSun ??= formatZonedTime(new Date(start), timeZone);
+                    lastSun = formatZonedTime(new Date(start + step * 60000), timeZone);
+                }
+            }
+
+            report.days.push({
+                date,
+                sunHours: Math.round((sunMinutes / 60) * 10) / 10,
+                daylightHours: Math.round((daylightMinutes / 60) * 10) / 10,
+                firstSun,
+                lastSun
+            });
+            daysPerMonth[month]++;
+        }
+
+        // A year takes a few seconds; yielding between months keeps the page responsive
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    report.hourly = report.hourly.map((hours, month) =>
+        hours.map(minutes => Math.round((minutes / daysPerMonth[month]) * 10) / 10)
+    );
+    return report;
+};
+
+/**
+ * CSV export of a report: one row per day, then the month-by-hour table after a blank line
+ */
+export const sunExposureToCsv = (report: SunExposureReport): string => {
+    const hours = Array.from({ length: 24 }, (_, h) => `${String(h).padStart(2, '0')}:00`);
+    return [
+        'date,sun_hours,daylight_hours,first_sun,last_sun',
+        ...report.days.map(day => [day.date, day.sunHours, day.daylightHours, day.firstSun ?? '', day.lastSun ?? ''].join(',')),
+        '',
+        ['month', ...hours].join(','),
+        ...report.hourly.map((minutes, month) => [MONTH_NAMES[month], ...minutes].join(','))
+    ].join('\n');
+};
@@ -0,0 +1,92 @@
+import { Coordinates, HeatStress, ThermalComfort } from '../types';
+import { getSunPosition } from './shadeEngine';
+import { getClearSkyDiffuseIrradiance, getClearSkyDirectIrradiance } from './solarRadiation';
+
+// Share of short-wave radiation absorbed by skin and clothing
+const BODY_ABSORPTIVITY = 0.7;
+
+// Upper bounds (°C) of each heat stress band, following the UTCI scale
+const HEAT_STRESS_BANDS: [number, HeatStress][] = [
+    [26, 'none'],
+    [32, 'moderate'],
+    [38, 'strong'],
+    [46, 'very-strong']
+];
+
+/**
+ * Air conditions the comfort model needs
+ */
+export interface AirConditions {
+    temperature: number; // °C
+    humidity: number; // relative, 0-100 %
+    windSpeed: number; // m/s at 10 m
+}
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Fraction of a standing person's surface facing a direct beam at the given sun altitude (Fanger)
+ */
+const getProjectedAreaFactor = (altitudeDeg: number) =>
+    0.308 * Math.cos(toRadians(altitudeDeg * (1 - (altitudeDeg * altitudeDeg) / 48402)));
+
+/**
+ * Water vapour pressure (hPa) from air temperature and relative humidity
+ */
+const getVapourPressure = (temperature: number, humidity: number) =>
+    (humidity / 100) * 6.105 * Math.exp((17.27 * temperature) / (237.7 + temperature));
+
+/**
+ * Short-wave radiation absorbed per m² of body surface (W/m²)
+ * The direct beam is scaled by how much of it reaches the point (shade and cloud);
+ * a standing body sees roughly half of the diffuse sky either way
+ */
+export const computeAbsorbedRadiation = (sunAltitudeDeg: number, directSunFraction: number): number => {
+    if (sunAltitudeDeg <= 0) return 0;
+    const direct = getClearSkyDirectIrradiance(sunAltitudeDeg) * getProjectedAreaFactor(sunAltitudeDeg) * directSunFraction;
+    const diffuse = 0.5 * getClearSkyDiffuseIrradiance(sunAltitudeDeg);
+    return BODY_ABSORPTIVITY * (direct + diffuse);
+};
+
+/**
+ * Steadman apparent temperature including radiation (°C)
+ * AT = Ta + 0.348·e − 0.70·ws + 0.70·Q / (ws + 10) − 4.25
+ */
+export const computeApparentTemperature = (air: AirConditions, absorbedRadiation: number): number => {
+    const vapourPressure = getVapourPressure(air.temperature, air.humidity);
+    return air.temperature + 0.348 * vapourPressure - 0.70 * air.windSpeed +
+        (0.70 * absorbedRadiation) / (air.windSpeed + 10) - 4.25;
+};
+
+export const getHeatStress = (feelsLike: number): HeatStress =>
+    HEAT_STRESS_BANDS.find(([limit]) => feelsLike < limit)?.[1] ?? 'extreme';
+
+/**
+ * How hot a walk feels at each sample point
+ * The shade profile already combines feature shade and cloud, so its complement is
+ * the share of direct sun reaching the walker; sun altitude follows the walking time
+ */
+export const analyzeThermalComfort = (
+    samplePoints: Coordinates[],
+    profile: { timeOffset: number; shadeLevel: number }[],
+    date: Date,
+    air: AirConditions
+): ThermalComfort | undefined => {
+    if (profile.length === 0 || samplePoints.length !== profile.length) return undefined;
+
+    const feelsLike = profile.map(({ timeOffset, shadeLevel }, i) => {
+        const point = samplePoints[i];
+        const sunPos = getSunPosition(point.lat, point.lng, new Date(date.getTime() + timeOffset * 60 * 1000));
+        const radiation = computeAbsorbedRadiation(sunPos.altitudeDeg, (100 - shadeLevel) / 100);
+        return Math.round(computeApparentTemperature(air, radiation) * 10) / 10;
+    });
+
+    const avgFeelsLike = Math.round((feelsLike.reduce((sum, t) => sum + t, 0) / feelsLike.length) * 10) / 10;
+
+    return {
+        avgFeelsLike,
+        peakFeelsLike: Math.max(...feelsLike),
+        heatStress: getHeatStress(avgFeelsLike),
+        profile: feelsLike
+    };
+};
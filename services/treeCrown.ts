@@ -0,0 +1,129 @@
+import { Coordinates } from '../types';
+import { createLocalFrame, fromLocal } from './geoProjection';
+
+// Vertices used to approximate crown outlines and their elliptical shadows
+const CROWN_OUTLINE_VERTICES = 16;
+const CROWN_SHADOW_VERTICES = 24;
+
+/**
+ * A tree crown as a spheroid: circular seen from above, raised on a bare trunk
+ */
+export interface TreeCrown {
+    center: Coordinates; // Trunk position
+    radius: number; // Horizontal crown radius (m)
+    baseHeight: number; // Bottom of the crown (m)
+}
+
+/**
+ * Typical mature street tree of a genus
+ */
+interface GenusProfile {
+    height: number; // m
+    crownDiameter: number; // m
+    crownBase: number; // Bare trunk as a share of total height
+}
+
+const DEFAULT_TREE: GenusProfile = { height: 8, crownDiameter: 6, crownBase: 0.35 };
+
+const GENUS_PROFILES: Record<string, GenusProfile> = {
+    acer: { height: 14, crownDiameter: 9, crownBase: 0.3 },
+    aesculus: { height: 16, crownDiameter: 10, crownBase: 0.3 },
+    betula: { height: 15, crownDiameter: 6, crownBase: 0.3 },
+    celtis: { height: 15, crownDiameter: 10, crownBase: 0.3 },
+    cupressus: { height: 14, crownDiameter: 3, crownBase: 0.1 },
+    eucalyptus: { height: 25, crownDiameter: 12, crownBase: 0.45 },
+    ficus: { height: 15, crownDiameter: 15, crownBase: 0.3 },
+    fraxinus: { height: 18, crownDiameter: 10, crownBase: 0.35 },
+    phoenix: { height: 10, crownDiameter: 6, crownBase: 0.7 },
+    picea: { height: 18, crownDiameter: 5, crownBase: 0.2 },
+    pinus: { height: 15, crownDiameter: 7, crownBase: 0.5 },
+    platanus: { height: 22, crownDiameter: 14, crownBase: 0.3 },
+    populus: { height: 22, crownDiameter: 8, crownBase: 0.35 },
+    prunus: { height: 7, crownDiameter: 6, crownBase: 0.3 },
+    quercus: { height: 18, crownDiameter: 14, crownBase: 0.3 },
+    robinia: { height: 15, crownDiameter: 8, crownBase: 0.35 },
+    tilia: { height: 18, crownDiameter: 10, crownBase: 0.3 },
+    ulmus: { height: 18, crownDiameter: 11, crownBase: 0.3 },
+    washingtonia: { height: 15, crownDiameter: 4, crownBase: 0.8 }
+};
+
+/**
+ * Measured tree dimensions, as far as they are tagged
+ */
+export interface TreeMeasurements {
+    height?: number; // m
+    crownDiameter?: number; // m
+    circumference?: number; // Trunk circumference at breast height (m)
+    genus?: string; // Genus, or a species name starting with it
+}
+
+/**
+ * Estimates a tree's height and crown from tags, falling back to per-genus defaults
+ * Untagged crowns scale with the tree's height, or come from trunk girth when known
+ */
+export const estimateTreeDimensions = (measured: TreeMeasurements) => {
+    const genusKey = measured.genus?.trim().split(/\s+/)[0].toLowerCase();
+    const profile = (genusKey && GENUS_PROFILES[genusKey]) || DEFAULT_TREE;
+
+    const height = measured.height && measured.height > 0 ? measured.height : profile.height;
+    const heightScale = Math.min(1.5, Math.max(0.5, height / profile.height));
+
+    // Rough urban allometry: crown width grows ~22x trunk diameter
+    const fromGirth = measured.circumference && measured.circumference > 0
+        ? 1.5 + 22 * (measured.circumference / Math.PI)
+        : undefined;
+
+    const crownDiameter = measured.crownDiameter && measured.crownDiameter > 0
+        ? measured.crownDiameter
+        : fromGirth ?? profile.crownDiameter * heightScale;
+
+    return {
+        height,
+        crownRadius: crownDiameter / 2,
+        crownBaseHeight: height * profile.crownBase
+    };
+};
+
+/**
+ * Crown outline seen from above
+ */
+export const createCrownOutline = (center: Coordinates, radius: number): Coordinates[] => {
+    const frame = createLocalFrame(center);
+    return Array.from({ length: CROWN_OUTLINE_VERTICES }, (_, i) => {
+        const angle = (2 * Math.PI * i) / CROWN_OUTLINE_VERTICES;
+        return fromLocal(frame, { x: radius * Math.sin(angle), y: radius * Math.cos(angle) });
+    });
+};
+
+/**
+ * Ground shadow of a spheroid crown
+ * The shadow is an ellipse: as wide as the crown across the sun's direction and stretched
+ * along it by the crown's depth, centred away from the trunk by the crown centre's own
+ * shadow length. At low sun it detaches from the trunk, leaving sun under the crown
+ */
+export const computeCrownShadow = (
+    crown: TreeCrown,
+    height: number,
+    shadowBearingDeg: number,
+    sunAltitude: number
+): Coordinates[] => {
+    const verticalRadius = Math.max(0, height - crown.baseHeight) / 2;
+    const cotAltitude = 1 / Math.tan(sunAltitude);
+
+    const offset = (crown.baseHeight + verticalRadius) * cotAltitude;
+    const semiMajor = Math.sqrt(crown.radius ** 2 + (verticalRadius * cotAltitude) ** 2);
+    const semiMinor = crown.radius;
+
+    // Unit vectors along and across the shadow in the trunk's local frame
+    const frame = createLocalFrame(crown.center);
+    const bearing = (shadowBearingDeg * Math.PI) / 180;
+    const along = { x: Math.sin(bearing), y: Math.cos(bearing) };
+    const across = { x: along.y, y: -along.x };
+
+    return Array.from({ length: CROWN_SHADOW_VERTICES }, (_, i) => {
+        const angle = (2 * Math.PI * i) / CROWN_SHADOW_VERTICES;
+        const a = offset + semiMajor * Math.cos(angle);
+        const b = semiMinor * Math.sin(angle);
+        return fromLocal(frame, { x: a * along.x + b * across.x, y: a * along.y + b * across.y });
+    });
+};
@@ -0,0 +1,110 @@
+import tzLookup from '@photostructure/tz-lookup';
+import { Coordinates } from '../types';
+
+/**
+ * Calendar day and time zone that a trip's HH:MM times are read in
+ */
+export interface TripDay {
+    date?: string; // YYYY-MM-DD, today in timeZone when unset
+    timeZone: string; // IANA name
+}
+
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Formatters are costly to create and the scrubber converts times on every move
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getWallClock = (instant: Date, timeZone: string) => {
+    if (!formatters.has(timeZone)) {
+        formatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit'
+        }));
+    }
+    const parts = formatters.get(timeZone)!.formatToParts(instant);
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)!.value);
+    return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Minutes a time zone is ahead of UTC at an instant
+ */
+export const getUtcOffsetMinutes = (instant: Date, timeZone: string): number => {
+    const c = getWallClock(instant, timeZone);
+    const asUtc = Date.UTC(c.year, c.month - 1, c.day, c.hour, c.minute, c.second);
+    return Math.round((asUtc - instant.getTime()) / 60000);
+};
+
+/**
+ * Instant at which the clocks of a time zone show a date and HH:MM time
+ * Times skipped by a daylight saving change resolve to the hour after
+ */
+export const toZonedDate = (date: string, time: string, timeZone: string): Date => {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, minutes] = time.split(':').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+    // The second pass picks up the offset in force at the result, in case the first crossed a change
+    const first = wallClock - getUtcOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+    return new Date(wallClock - getUtcOffsetMinutes(new Date(first), timeZone) * 60000);
+};
+
+/**
+ * HH:MM shown by the clocks of a time zone at an instant
+ */
+export const formatZonedTime = (instant: Date, timeZone: string): string => {
+    const c = getWallClock(instant, timeZone);
+    return `${pad(c.hour)}:${pad(c.minute)}`;
+};
+
+/**
+ * YYYY-MM-DD calendar day of a time zone at an instant
+ */
+export const getZonedDateString = (instant: Date, timeZone: string): string => {
+    const c = getWallClock(instant, timeZone);
+    return `${c.year}-${pad(c.month)}-${pad(c.day)}`;
+};
+
+/**
+ * Calendar day a number of days after a YYYY-MM-DD date
+ */
+export const addDays = (date: string, days: number): string => {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+/**
+ * Instant of an HH:MM time on a trip's day, read in the trip's time zone
+ */
+export const resolveTripDate = (time: string, tripDay: TripDay): Date =>
+    toZonedDate(tripDay.date ?? getZonedDateString(new Date(), tripDay.timeZone), time, tripDay.timeZone);
+
+/**
+ * IANA time zone for a place, from an offline lookup of zone boundaries
+ * Falls back to the browser's zone for coordinates the lookup rejects
+ */
+export const getTimeZoneAt = (location: Coordinates): string => {
+    try {
+        return tzLookup(location.lat, location.lng);
+    } catch (e) {
+        console.error("Time zone lookup failed", e);
+        return getBrowserTimeZone();
+    }
+};
+
+/**
+ * Short name of a time zone at an instant, e.g. "EEST" or "GMT+9"
+ * Null for the browser's own zone, where times need no label
+ */
+export const getTimeZoneLabel = (timeZone: string, instant: Date): string | null => {
+    if (timeZone === getBrowserTimeZone()) return null;
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(instant);
+    return parts.find(p => p.type === 'timeZoneName')?.value ?? timeZone;
+};
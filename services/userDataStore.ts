@@ -0,0 +1,256 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { SavedPlace, SavedRoute, SearchParams, TripHistoryEntry } from '../types';
+
+// Searches returned by listHistory, newest first
+export const HISTORY_LIMIT = 20;
+
+export interface UserAccount {
+    id: string;
+    email?: string;
+}
+
+/**
+ * Where signed-in users' places, routes and search history are kept
+ * Every call acts for the current user; writes fail when nobody is signed in
+ */
+export interface UserDataStore {
+    name: string;
+    getUser: () => Promise<UserAccount | null>;
+    onUserChange: (callback: (user: UserAccount | null) => void) => () => void; // Returns an unsubscribe
+    signIn: (email: string) => Promise<void>; // Sends a sign-in link
+    signOut: () => Promise<void>;
+
+    listPlaces: () => Promise<SavedPlace[]>;
+    savePlace: (place: Omit<SavedPlace, 'id'>) => Promise<SavedPlace>; // A new home or work replaces the old one
+    deletePlace: (id: string) => Promise<void>;
+
+    listRoutes: () => Promise<SavedRoute[]>;
+    saveRoute: (route: Omit<SavedRoute, 'id' | 'savedAt'>) => Promise<SavedRoute>;
+    deleteRoute: (id: string) => Promise<void>;
+
+    listHistory: () => Promise<TripHistoryEntry[]>;
+    addHistory: (params: SearchParams) => Promise<TripHistoryEntry>;
+    clearHistory: () => Promise<void>;
+}
+
+// Place kinds a user has at most one of
+const SINGLE_PLACE_KINDS: SavedPlace['kind'][] = ['home', 'work'];
+
+// Home first, then work, then favourites by label
+const PLACE_ORDER: Record<SavedPlace['kind'], number> = { home: 0, work: 1, favourite: 2 };
+const sortPlaces = (places: SavedPlace[]) =>
+    places.sort((a, b) => PLACE_ORDER[a.kind] - PLACE_ORDER[b.kind] || a.label.localeCompare(b.label));
+
+/**
+ * In-memory store for tests and local development
+ * Keeps each user's data apart the way row-level security does on Supabase
+ */
+export const createMemoryUserDataStore = (initialUser: UserAccount | null = null): UserDataStore => {
+    let user = initialUser;
+    let nextId = 1;
+    const listeners = new Set<(user: UserAccount | null) => void>();
+    const data = new Map<string, { places: SavedPlace[]; routes: SavedRoute[]; history: TripHistoryEntry[] }>();
+
+    const own = () => {
+        if (!user) throw new Error('Not signed in');
+        if (!data.has(user.id)) data.set(user.id, { places: [], routes: [], history: [] });
+        return data.get(user.id)!;
+    };
+    const setUser = (next: UserAccount | null) => {
+        user = next;
+        listeners.forEach(listener => listener(user));
+    };
+    const newId = () => `local-${nextId++}`;
+    // Later rows win timestamp ties, as they would with a database clock
+    const newestFirst = <T>(rows: T[], timestamp: (row: T) => string) =>
+        rows.reverse().sort((a, b) => timestamp(b).localeCompare(timestamp(a)));
+    // Deep copies so callers can't mutate stored rows, as with a real database
+    const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+    return {
+        name: 'Memory',
+        getUser: async () => user,
+        onUserChange: (callback) => {
+            listeners.add(callback);
+            return () => listeners.delete(callback);
+        },
+        signIn: async (email) => setUser({ id: `user:${email}`, email }),
+        signOut: async () => setUser(null),
+
+        listPlaces: async () => (user ? sortPlaces(copy(own().places)) : []),
+        savePlace: async (place) => {
+            const store = own();
+            if (SINGLE_PLACE_KINDS.includes(place.kind)) store.places = store.places.filter(p => p.kind !== place.kind);
+            const saved = { ...copy(place), id: newId() };
+            store.places.push(saved);
+            return copy(saved);
+        },
+        deletePlace: async (id) => {
+            const store = own();
+            store.places = store.places.filter(p => p.id !== id);
+        },
+
+        listRoutes: async () => (user ? newestFirst(copy(own().routes), r => r.savedAt) : []),
+        saveRoute: async (route) => {
+            const saved = { ...copy(route), id: newId(), savedAt: new Date().toISOString() };
+            own().routes.push(saved);
+            return copy(saved);
+        },
+        deleteRoute: async (id) => {
+            const store = own();
+            store.routes = store.routes.filter(r => r.id !== id);
+        },
+
+        listHistory: async () => (user
+            ? newestFirst(copy(own().history), h => h.searchedAt).slice(0, HISTORY_LIMIT)
+            : []),
+        addHistory: async (params) => {
+            const entry = { id: newId(), params: copy(params), searchedAt: new Date().toISOString() };
+            own().history.push(entry);
+            return copy(entry);
+        },
+        clearHistory: async () => {
+            own().history = [];
+        }
+    };
+};
+
+// Row shapes of the tables in supabase/migrations
+interface PlaceRow {
+    id: string;
+    kind: SavedPlace['kind'];
+    label: string;
+    address: string;
+    lat: number | null;
+    lng: number | null;
+}
+
+interface RouteRow {
+    id: string;
+    name: string;
+    params: SearchParams;
+    route: SavedRoute['route'];
+    schedule: SavedRoute['schedule'] | null;
+    saved_at: string;
+}
+
+interface HistoryRow {
+    id: string;
+    params: SearchParams;
+    searched_at: string;
+}
+
+const toAccount = (user?: User | null): UserAccount | null => (user ? { id: user.id, email: user.email } : null);
+
+const toPlace = (row: PlaceRow): SavedPlace => ({
+    id: row.id,
+    kind: row.kind,
+    label: row.label,
+    address: row.address,
+    ...(row.lat !== null && row.lng !== null ? { location: { lat: row.lat, lng: row.lng } } : {})
+});
+
+const toRoute = (row: RouteRow): SavedRoute => ({
+    id: row.id,
+    name: row.name,
+    params: row.params,
+    route: row.route,
+    ...(row.schedule ? { schedule: row.schedule } : {}),
+    savedAt: row.saved_at
+});
+
+const toHistory = (row: HistoryRow): TripHistoryEntry => ({ id: row.id, params: row.params, searchedAt: row.searched_at });
+
+/**
+ * Throws Supabase errors with the failed action in the message, otherwise returns the data
+ */
+const unwrap = <T>(action: string, result: { data: T | null; error: { message: string } | null }): T => {
+    if (result.error) throw new Error(`${action} failed: ${result.error.message}`);
+    return result.data as T;
+};
+
+/**
+ * Store backed by the saved_places, saved_routes and trip_history tables
+ * Rows default to the signed-in user's id and row-level security limits every query
+ * to that user, so no call filters by user here
+ */
+export const createSupabaseUserDataStore = (client: SupabaseClient): UserDataStore => ({
+    name: 'Supabase',
+    getUser: async () => toAccount((await client.auth.getSession()).data.session?.user),
+    onUserChange: (callback) => {
+        const { data } = client.auth.onAuthStateChange((_event, session) => callback(toAccount(session?.user)));
+        return () => data.subscription.unsubscribe();
+    },
+    signIn: async (email) => {
+        const { error } = await client.auth.signInWithOtp({
+            email,
+            options: { emailRedirectTo: typeof window !== 'undefined' ? window.location.origin : undefined }
+        });
+        if (error) throw new Error(`Sign-in failed: ${error.message}`);
+    },
+    signOut: async () => {
+        const { error } = await client.auth.signOut();
+        if (error) throw new Error(`Sign-out failed: ${error.message}`);
+    },
+
+    listPlaces: async () =>
+        sortPlaces(unwrap('Loading places', await client.from('saved_places').select('*')).map(toPlace)),
+    savePlace: async (place) => {
+        if (SINGLE_PLACE_KINDS.includes(place.kind)) {
+            unwrap('Replacing place', await client.from('saved_places').delete().eq('kind', place.kind));
+        }
+        const row = unwrap('Saving place', await client.from('saved_places').insert({
+            kind: place.kind,
+            label: place.label,
+            address: place.address,
+            lat: place.location?.lat ?? null,
+            lng: place.location?.lng ?? null
+        }).select().single());
+        return toPlace(row);
+    },
+    deletePlace: async (id) => {
+        unwrap('Deleting place', await client.from('saved_places').delete().eq('id', id));
+    },
+
+    listRoutes: async () =>
+        unwrap('Loading routes', await client.from('saved_routes').select('*').order('saved_at', { ascending: false }))
+            .map(toRoute),
+    saveRoute: async (route) => {
+        const row = unwrap('Saving route', await client.from('saved_routes').insert({
+            name: route.name,
+            origin: route.params.origin,
+            destination: route.params.destination,
+            params: route.params,
+            route: route.route,
+            schedule: route.schedule ?? null,
+            average_shade: route.route.averageShadePercentage
+        }).select().single());
+        return toRoute(row);
+    },
+    deleteRoute: async (id) => {
+        unwrap('Deleting route', await client.from('saved_routes').delete().eq('id', id));
+    },
+
+    listHistory: async () =>
+        unwrap('Loading history', await client.from('trip_history').select('*')
+            .order('searched_at', { ascending: false })
+            .limit(HISTORY_LIMIT))
+            .map(toHistory),
+    addHistory: async (params) =>
+        toHistory(unwrap('Saving search', await client.from('trip_history').insert({ params }).select().single())),
+    clearHistory: async () => {
+        // PostgREST refuses unfiltered deletes; RLS still limits this to the user's own rows
+        unwrap('Clearing history', await client.from('trip_history').delete().not('id', 'is', null));
+    }
+});
+
+let activeStore: UserDataStore | null = null;
+
+/**
+ * The store for signed-in features, or null when accounts aren't configured
+ */
+export const getUserDataStore = (): UserDataStore | null => activeStore;
+
+export const setUserDataStore = (store: UserDataStore | null) => {
+    activeStore = store;
+};
@@ -0,0 +1,140 @@
+import { Coordinates } from '../types';
+
+/**
+ * Weather at one instant
+ */
+export interface WeatherConditions {
+    time: Date;
+    cloudCover: number; // 0-100 %
+    temperature: number; // °C
+    uvIndex: number;
+    humidity: number; // relative, 0-100 %
+    windSpeed: number; // m/s at 10 m
+}
+
+/**
+ * Supplies hourly weather for a location and day
+ */
+export interface WeatherProvider {
+    name: string;
+    fetchHourly: (location: Coordinates, date: Date) => Promise<WeatherConditions[]>;
+}
+
+/**
+ * Hourly block of an Open-Meteo forecast response (requested with timezone=UTC)
+ */
+export interface OpenMeteoResponse {
+    hourly?: {
+        time: string[]; // "2025-07-20T14:00", UTC
+        cloud_cover?: number[];
+        temperature_2m?: number[];
+        uv_index?: number[];
+        relative_humidity_2m?: number[];
+        wind_speed_10m?: number[];
+    };
+}
+
+const HOURLY_VARIABLES = 'cloud_cover,temperature_2m,uv_index,relative_humidity_2m,wind_speed_10m';
+
+/**
+ * Converts an Open-Meteo hourly block into conditions
+ */
+export const parseOpenMeteoHourly = (data: OpenMeteoResponse): WeatherConditions[] => {
+    const hourly = data.hourly;
+    if (!hourly?.time) return [];
+
+    return hourly.time.map((time, i) => ({
+        time: new Date(`${time}Z`),
+        cloudCover: hourly.cloud_cover?.[i] ?? 0,
+        temperature: hourly.temperature_2m?.[i] ?? 20,
+        uvIndex: hourly.uv_index?.[i] ?? 0,
+        humidity: hourly.relative_humidity_2m?.[i] ?? 50,
+        windSpeed: hourly.wind_speed_10m?.[i] ?? 0
+    }));
+};
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Open-Meteo forecast API (no key required)
+ */
+export const openMeteoProvider: WeatherProvider = {
+    name: 'Open-Meteo',
+    fetchHourly: async (location, date) => {
+        const day = toDateString(date);
+        const url = `https://api.open-meteo.com/v1/forecast?latitude=${location.lat.toFixed(4)}&longitude=${location.lng.toFixed(4)}` +
+            `&hourly=${HOURLY_VARIABLES}&wind_speed_unit=ms&timezone=UTC&start_date=${day}&end_date=${day}`;
+
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Open-Meteo request failed: ${response.status}`);
+        return parseOpenMeteoHourly(await response.json());
+    }
+};
+
+/**
+ * Stand-in provider serving a recorded Open-Meteo response, for tests and offline use
+ * The recorded hours are returned regardless of location and date
+ */
+export const createFixtureWeatherProvider = (fixture: OpenMeteoResponse): WeatherProvider => ({
+    name: 'Weather fixture',
+    fetchHourly: async () => parseOpenMeteoHourly(fixture)
+});
+
+/**
+ * Interpolates hourly conditions linearly to an exact time
+ * Times outside the covered hours take the nearest hour
+ */
+export const interpolateConditions = (hourly: WeatherConditions[], time: Date): WeatherConditions | null => {
+    if (hourly.length === 0) return null;
+
+    const t = time.getTime();
+    const after = hourly.findIndex(h => h.time.getTime() >= t);
+    if (after === 0) return { ...hourly[0], time };
+    if (after === -1) return { ...hourly[hourly.length - 1], time };
+
+    const a = hourly[after - 1];
+    const b = hourly[after];
+    const f = (t - a.time.getTime()) / (b.time.getTime() - a.time.getTime());
+    const lerp = (x: number, y: number) => x + (y - x) * f;
+
+    return {
+        time,
+        cloudCover: lerp(a.cloudCover, b.cloudCover),
+        temperature: lerp(a.temperature, b.temperature),
+        uvIndex: lerp(a.uvIndex, b.uvIndex),
+        humidity: lerp(a.humidity, b.humidity),
+        windSpeed: lerp(a.windSpeed, b.windSpeed)
+    };
+};
+
+let activeProvider: WeatherProvider = openMeteoProvider;
+
+// Hourly data per ~1 km cell and day, so scrubbing and sweeps don't refetch
+const hourlyCache = new Map<string, Promise<WeatherConditions[]>>();
+
+export const getWeatherProvider = (): WeatherProvider => activeProvider;
+
+export const setWeatherProvider = (provider: WeatherProvider) => {
+    activeProvider = provider;
+    hourlyCache.clear();
+};
+
+/**
+ * Weather at a place and time from the active provider, or null when unavailable
+ */
+export const getWeatherAt = async (location: Coordinates, time: Date): Promise<WeatherConditions | null> => {
+    const key = `${location.lat.toFixed(2)},${location.lng.toFixed(2)},${toDateString(time)}`;
+    let hourly = hourlyCache.get(key);
+    if (!hourly) {
+        hourly = activeProvider.fetchHourly(location, time);
+        hourlyCache.set(key, hourly);
+    }
+
+    try {
+        return interpolateConditions(await hourly, time);
+    } catch (e) {
+        console.error("Failed to fetch weather", e);
+        hourlyCache.delete(key); // Retry on the next request
+        return null;
+    }
+};
@@ -5,6 +5,7 @@ interface ImportMetaEnv {
     readonly VITE_SUPABASE_URL: string
     readonly VITE_SUPABASE_ANON_KEY: string
     readonly VITE_WEATHER_API_KEY: string
+    readonly VITE_OSM_EXTRACT_URL?: string
 }
 
 interface ImportMeta {
@@ -0,0 +1,71 @@
+-- Saved places, saved routes and search history for signed-in users
+-- Every row belongs to the user who wrote it: user_id defaults to auth.uid() and
+-- row-level security hides and protects everyone else's rows
+
+create table public.saved_places (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('home', 'work', 'favourite')),
+  label text not null check (length(label) between 1 and 100),
+  address text not null check (length(address) between 1 and 500),
+  lat double precision check (lat between -90 and 90),
+  lng double precision check (lng between -180 and 180),
+  created_at timestamptz not null default now()
+);
+
+-- At most one home and one work place per user
+create unique index saved_places_single_kind on public.saved_places (user_id, kind)
+  where kind in ('home', 'work');
+
+create table public.saved_routes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  origin text not null,
+  destination text not null, -- Empty for loop walks
+  params jsonb not null, -- SearchParams that found the route
+  route jsonb not null, -- RouteOption snapshot, including the shade profile
+  average_shade smallint check (average_shade between 0 and 100),
+  saved_at timestamptz not null default now()
+);
+
+create index saved_routes_user_saved_at on public.saved_routes (user_id, saved_at desc);
+
+create table public.trip_history (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  params jsonb not null, -- SearchParams as submitted
+  searched_at timestamptz not null default now()
+);
+
+create index trip_history_user_searched_at on public.trip_history (user_id, searched_at desc);
+
+alter table public.saved_places enable row level security;
+alter table public.saved_routes enable row level security;
+alter table public.trip_history enable row level security;
+
+create policy "Users read their own places" on public.saved_places
+  for select to authenticated using ((select auth.uid()) = user_id);
+create policy "Users add their own places" on public.saved_places
+  for insert to authenticated with check ((select auth.uid()) = user_id);
+create policy "Users update their own places" on public.saved_places
+  for update to authenticated using ((select auth.uid()) = user_id) with check ((select auth.uid()) = user_id);
+create policy "Users delete their own places" on public.saved_places
+  for delete to authenticated using ((select auth.uid()) = user_id);
+
+create policy "Users read their own routes" on public.saved_routes
+  for select to authenticated using ((select auth.uid()) = user_id);
+create policy "Users add their own routes" on public.saved_routes
+  for insert to authenticated with check ((select auth.uid()) = user_id);
+create policy "Users update their own routes" on public.saved_routes
+  for update to authenticated using ((select auth.uid()) = user_id) with check ((select auth.uid()) = user_id);
+create policy "Users delete their own routes" on public.saved_routes
+  for delete to authenticated using ((select auth.uid()) = user_id);
+
+-- History is append-only apart from clearing it
+create policy "Users read their own history" on public.trip_history
+  for select to authenticated using ((select auth.uid()) = user_id);
+create policy "Users add to their own history" on public.trip_history
+  for insert to authenticated with check ((select auth.uid()) = user_id);
+create policy "Users clear their own history" on public.trip_history
+  for delete to authenticated using ((select auth.uid()) = user_id);
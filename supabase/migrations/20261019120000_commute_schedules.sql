@@ -0,0 +1,3 @@
+-- Recurring trips: a saved route can carry the weekdays and times it is walked on
+alter table public.saved_routes
+  add column schedule jsonb; -- CommuteSchedule, null for one-off routes
@@ -8,7 +8,37 @@ export interface RouteStep {
   distance: string;
   duration: string;
   shadeQuality: 'sunny' | 'partial' | 'shady';
+  shadePercentage?: number; // 0-100, computed from this step's own geometry
   description: string; // Why is it shady? (e.g., "Tall buildings on left", "Tree lined")
+  sidewalkAdvice?: string; // e.g. "Cross to the north side for the next 200 m"
+  sidewalkPath?: Coordinates[]; // The advised pavement, drawn as a dashed line
+}
+
+export type HeatStress = 'none' | 'moderate' | 'strong' | 'very-strong' | 'extreme';
+
+export interface ThermalComfort {
+  avgFeelsLike: number; // °C, apparent temperature averaged along the walk
+  peakFeelsLike: number; // °C, hottest sample
+  heatStress: HeatStress; // Category of the average
+  profile: number[]; // Apparent temperature per sample, aligned with shadeProfile
+}
+
+export interface RadiationDose {
+  solarKjPerM2: number; // Global short-wave radiation received on a horizontal surface
+  uvSed: number; // Erythemal UV dose in standard erythemal doses (1 SED = 100 J/m²)
+  medFraction: number; // Share of a minimal erythemal dose for fair skin (type II, 2.5 SED)
+}
+
+export interface RouteLeg {
+  from: string; // Address the leg starts at
+  to: string;
+  distance: string;
+  duration: string;
+  departure: string; // HH:MM, leaving the previous stop
+  arrival: string; // HH:MM
+  dwellMinutes: number; // Time spent at the stop this leg ends at (0 for the destination)
+  averageShadePercentage: number;
+  sampleStart: number; // Index of the leg's first entry in samplePoints / shadeProfile
 }
 
 export interface RouteOption {
@@ -17,16 +47,77 @@ export interface RouteOption {
   summary: string;
   totalDistance: string;
   totalDuration: string;
+  durationSeconds?: number; // Walking time used for time-aware shade sampling
   averageShadePercentage: number;
-  shadeProfile: { timeOffset: number; shadeLevel: number }[]; // For the chart
+  thermalComfort?: ThermalComfort; // Only when weather is available for the trip
+  radiationDose?: RadiationDose;
+  shadeProfile: { timeOffset: number; shadeLevel: number }[]; // For the chart (timeOffset in minutes)
+  samplePoints?: Coordinates[]; // Densified geometry the profile was sampled on, aligned with shadeProfile
   steps: RouteStep[];
   tags: string[];
+  path?: Coordinates[]; // Explicit geometry for routes not backed by a DirectionsResult (local routing graph)
+  legs?: RouteLeg[]; // Only for trips with intermediate stops
+  departureTime?: string; // HH:MM
+  arrivalTime?: string; // HH:MM, including time spent at stops
+}
+
+export interface Waypoint {
+  location: string;
+  dwellMinutes: number; // Time spent at the stop before walking on
 }
 
+export interface LoopTarget {
+  value: number;
+  unit: 'min' | 'km';
+}
+
+export type TimeMode = 'depart' | 'arrive';
+
 export interface SearchParams {
   origin: string;
-  destination: string;
+  destination: string; // Empty for loop walks
+  waypoints?: Waypoint[]; // Intermediate stops, in visiting order
+  loopTarget?: LoopTarget; // Set for a round trip back to the origin instead of an A-to-B route
+  date?: string; // YYYY-MM-DD, today when unset; read in the destination's time zone like time
   time: string; // HH:MM format
+  timeMode?: TimeMode; // Whether time is the departure (default) or the arrival
+  shadePreference: number; // 0-1, how much extra distance to accept for shade (local routing)
+}
+
+export type SavedPlaceKind = 'home' | 'work' | 'favourite';
+
+export interface SavedPlace {
+  id: string;
+  kind: SavedPlaceKind; // At most one home and one work place per user
+  label: string; // e.g. "Home" or "Grandma's"
+  address: string; // Passed to directions as typed
+  location?: Coordinates;
+}
+
+export interface CommuteTrip {
+  time: string; // HH:MM format
+  direction: 'outbound' | 'return'; // Return trips walk the route backwards
+}
+
+export interface CommuteSchedule {
+  weekdays: number[]; // 0 = Sunday, as with Date.getDay()
+  trips: CommuteTrip[];
+  weeks: number; // How far ahead to plan
+}
+
+export interface SavedRoute {
+  id: string;
+  name: string;
+  params: SearchParams; // The search that found the route, to run it again
+  route: RouteOption; // Snapshot, including the shade profile at the time it was saved
+  schedule?: CommuteSchedule; // Set for recurring trips
+  savedAt: string; // ISO timestamp
+}
+
+export interface TripHistoryEntry {
+  id: string;
+  params: SearchParams;
+  searchedAt: string; // ISO timestamp
 }
 
 export enum AppState {